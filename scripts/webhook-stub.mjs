@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+// Local HTTP stub for alert webhooks. Logs each delivery, verifies its HMAC
+// signature when WEBHOOK_SECRET is set (rejecting missing or invalid ones with
+// 401) and can fail the first requests to exercise retries.
+//
+//   WEBHOOK_SECRET=s3cret node scripts/webhook-stub.mjs --port 8787 --fail 2
+//
+// Then point a webhook at http://localhost:8787/ in Settings and send a test.
+
+import { createServer } from 'node:http';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? Number(args[index + 1]) : fallback;
+};
+
+const port = option('port', 8787);
+let failuresLeft = option('fail', 0);
+const secret = process.env.WEBHOOK_SECRET;
+
+const verify = (headers, body) => {
+  const signature = headers['x-signalvault-signature'];
+  const timestamp = headers['x-signalvault-timestamp'];
+  if (!signature || !timestamp) return 'missing';
+
+  const expected = `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  const valid = signature.length === expected.length && timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  return valid ? 'valid' : 'INVALID';
+};
+
+createServer((req, res) => {
+  // The dispatcher posts from the browser, so answer CORS preflights
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-SignalVault-Signature, X-SignalVault-Timestamp');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const signature = secret ? verify(req.headers, body) : 'not checked';
+
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`${new Date().toISOString()} ${req.method} ${req.url} -> 503 (simulated, ${failuresLeft} left)`);
+      res.writeHead(503).end();
+      return;
+    }
+
+    // With a secret configured, unsigned requests are rejected like forged ones
+    const status = signature === 'INVALID' || signature === 'missing' ? 401 : 200;
+    console.log(`${new Date().toISOString()} ${req.method} ${req.url} -> ${status} (signature ${signature})`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({ ok: status === 200 }));
+  });
+}).listen(port, () => {
+  console.log(`Webhook stub listening on http://localhost:${port}/`);
+});
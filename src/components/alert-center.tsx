@@ -0,0 +1,303 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { BellRing, ChevronDown, History } from "lucide-react";
+import {
+  alertStore,
+  ALERT_SOURCES,
+  ALERT_STATES,
+  ALERT_TRANSITIONS,
+  ALERT_TYPE_LABELS,
+  CLOSED_STATES,
+  type AlertFilters,
+  type AlertSource,
+  type AlertState,
+  type TrackedAlert,
+  type TransitionOptions
+} from "@/lib/alert-store";
+import { signalStore } from "@/lib/signal-store";
+import { createDataset, TRACKED_ALERTS_EXPORT } from "@/lib/export-service";
+import ExportMenu from "@/components/export-menu";
+import type { DriftAlert } from "@/lib/nlp-engine";
+import { useToast } from "@/hooks/use-toast";
+
+const ALL = "all";
+const OPEN = "open";
+
+const OPEN_STATES = (Object.keys(ALERT_STATES) as AlertState[]).filter(state => !CLOSED_STATES.includes(state));
+
+const SEVERITIES: DriftAlert['severity'][] = ['critical', 'high', 'medium', 'low'];
+
+const SNOOZE_OPTIONS: { label: string; hours: number }[] = [
+  { label: '1 hour', hours: 1 },
+  { label: '1 day', hours: 24 },
+  { label: '1 week', hours: 24 * 7 }
+];
+
+const STATE_STYLES: Record<AlertState, string> = {
+  new: "bg-destructive animate-pulse",
+  acknowledged: "bg-warning",
+  snoozed: "bg-muted-foreground",
+  assigned: "bg-primary",
+  resolved: "bg-success",
+  false_positive: "bg-secondary"
+};
+
+const getSeverityColor = (severity: string): BadgeProps["variant"] => {
+  switch (severity) {
+    case "critical": return "destructive";
+    case "high": return "destructive";
+    case "medium": return "warning";
+    default: return "secondary";
+  }
+};
+
+const AlertCenter = () => {
+  const [alerts, setAlerts] = useState<TrackedAlert[]>([]);
+  const [teams, setTeams] = useState<string[]>([]);
+  const [teamFilter, setTeamFilter] = useState(ALL);
+  const [stateFilter, setStateFilter] = useState(OPEN);
+  const [severityFilter, setSeverityFilter] = useState(ALL);
+  const [typeFilter, setTypeFilter] = useState(ALL);
+  const [sourceFilter, setSourceFilter] = useState(ALL);
+  const [actor, setActor] = useState(alertStore.getActor());
+  const [assignees, setAssignees] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+
+  const loadAlerts = useCallback(async () => {
+    try {
+      const filters: AlertFilters = {
+        teamId: teamFilter === ALL ? undefined : teamFilter,
+        states: stateFilter === ALL ? undefined : stateFilter === OPEN ? OPEN_STATES : [stateFilter as AlertState],
+        severities: severityFilter === ALL ? undefined : [severityFilter as DriftAlert['severity']],
+        types: typeFilter === ALL ? undefined : [typeFilter as DriftAlert['type']],
+        sources: sourceFilter === ALL ? undefined : [sourceFilter as AlertSource]
+      };
+      setAlerts(await alertStore.list(filters));
+    } catch (error) {
+      console.error('Error loading alerts:', error);
+    }
+  }, [teamFilter, stateFilter, severityFilter, typeFilter, sourceFilter]);
+
+  useEffect(() => {
+    signalStore.getTeamIds()
+      .then(setTeams)
+      .catch(error => console.error('Error loading teams:', error));
+  }, []);
+
+  useEffect(() => {
+    loadAlerts();
+    const interval = setInterval(loadAlerts, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [loadAlerts]);
+
+  const changeActor = (value: string) => {
+    setActor(value);
+    alertStore.setActor(value);
+  };
+
+  const transition = async (alert: TrackedAlert, to: AlertState, options: TransitionOptions = {}) => {
+    try {
+      await alertStore.transition(alert.id, to, options);
+      await loadAlerts();
+      toast({
+        title: `Alert ${ALERT_STATES[to].toLowerCase()}`,
+        description: `${ALERT_TYPE_LABELS[alert.type]} · ${alert.cluster}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not update alert",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const snooze = (alert: TrackedAlert, hours: number) =>
+    transition(alert, 'snoozed', { snoozedUntil: new Date(Date.now() + hours * 60 * 60 * 1000).toISOString() });
+
+  const assign = (alert: TrackedAlert) =>
+    transition(alert, 'assigned', { assignee: assignees[alert.id] || '' });
+
+  const filterSelect = (
+    value: string,
+    onChange: (value: string) => void,
+    options: [string, string][],
+    allLabel: string,
+    extra?: [string, string]
+  ) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-8 w-[150px] text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>{allLabel}</SelectItem>
+        {extra && <SelectItem value={extra[0]}>{extra[1]}</SelectItem>}
+        {options.map(([option, label]) => (
+          <SelectItem key={option} value={option}>{label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card className="p-6 bg-gradient-neural border-muted shadow-neural">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-destructive/20">
+            <BellRing className="h-6 w-6 text-destructive" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Alerts</h3>
+            <p className="text-sm text-muted-foreground">Drift and forecast alerts with their lifecycle and audit trail</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="alert-actor" className="text-xs text-muted-foreground whitespace-nowrap">Acting as</Label>
+          <Input
+            id="alert-actor"
+            value={actor}
+            onChange={(e) => changeActor(e.target.value)}
+            placeholder="Your name"
+            className="h-8 w-40 text-xs"
+          />
+          <ExportMenu exports={[{
+            title: 'Filtered alerts',
+            build: () => createDataset(TRACKED_ALERTS_EXPORT, alerts, {
+              team: teamFilter,
+              state: stateFilter,
+              severity: severityFilter,
+              type: typeFilter,
+              source: sourceFilter
+            })
+          }]} />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {filterSelect(teamFilter, setTeamFilter, teams.map(team => [team, team]), 'All clusters')}
+        {filterSelect(stateFilter, setStateFilter, Object.entries(ALERT_STATES), 'All states', [OPEN, 'Open'])}
+        {filterSelect(severityFilter, setSeverityFilter, SEVERITIES.map(severity => [severity, severity]), 'All severities')}
+        {filterSelect(typeFilter, setTypeFilter, Object.entries(ALERT_TYPE_LABELS), 'All types')}
+        {filterSelect(sourceFilter, setSourceFilter, Object.entries(ALERT_SOURCES), 'All sources')}
+      </div>
+
+      <div className="space-y-4">
+        {alerts.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-8">No alerts match these filters.</p>
+        )}
+        {alerts.map(alert => (
+          <div key={alert.id} className="p-4 rounded-lg bg-card/40 border border-border/50">
+            <div className="flex flex-wrap items-start justify-between gap-2 mb-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant={getSeverityColor(alert.severity)} className="text-xs">
+                  {alert.severity.toUpperCase()}
+                </Badge>
+                <span className="text-sm font-medium text-foreground">{ALERT_TYPE_LABELS[alert.type]}</span>
+                <Badge variant="outline" className="text-xs">{alert.cluster}</Badge>
+                <Badge variant="outline" className="text-xs">{ALERT_SOURCES[alert.source]}</Badge>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className={`h-2 w-2 rounded-full ${STATE_STYLES[alert.state]}`} />
+                <span className="text-xs text-muted-foreground">
+                  {ALERT_STATES[alert.state]}
+                  {alert.state === 'assigned' && alert.assignee && ` to ${alert.assignee}`}
+                  {alert.state === 'snoozed' && alert.snoozedUntil && ` until ${new Date(alert.snoozedUntil).toLocaleString()}`}
+                </span>
+              </div>
+            </div>
+
+            <p className="text-sm text-foreground mb-2">{alert.message}</p>
+
+            <p className="text-xs text-muted-foreground mb-3">
+              Seen {alert.occurrences}× · first {new Date(alert.firstSeenAt).toLocaleString()} · last {new Date(alert.lastSeenAt).toLocaleString()}
+            </p>
+
+            <div className="flex flex-wrap items-center gap-2">
+              {ALERT_TRANSITIONS[alert.state].includes('acknowledged') && (
+                <Button variant="outline" size="sm" className="text-xs" onClick={() => transition(alert, 'acknowledged')}>
+                  Acknowledge
+                </Button>
+              )}
+              {ALERT_TRANSITIONS[alert.state].includes('snoozed') && (
+                <Select onValueChange={(value) => snooze(alert, Number(value))}>
+                  <SelectTrigger className="h-8 w-[120px] text-xs">
+                    <SelectValue placeholder="Snooze" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SNOOZE_OPTIONS.map(option => (
+                      <SelectItem key={option.hours} value={String(option.hours)}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {ALERT_TRANSITIONS[alert.state].includes('assigned') && (
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" size="sm" className="text-xs">
+                      {alert.state === 'assigned' ? 'Reassign' : 'Assign'}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-64 space-y-2">
+                    <Label htmlFor={`assignee-${alert.id}`} className="text-xs">Assignee</Label>
+                    <Input
+                      id={`assignee-${alert.id}`}
+                      value={assignees[alert.id] ?? alert.assignee ?? ''}
+                      onChange={(e) => setAssignees(prev => ({ ...prev, [alert.id]: e.target.value }))}
+                      placeholder="Name or team"
+                      className="h-8 text-xs"
+                    />
+                    <Button size="sm" className="w-full text-xs" onClick={() => assign(alert)}>
+                      Assign
+                    </Button>
+                  </PopoverContent>
+                </Popover>
+              )}
+              {ALERT_TRANSITIONS[alert.state].includes('resolved') && (
+                <Button variant="outline" size="sm" className="text-xs" onClick={() => transition(alert, 'resolved')}>
+                  Resolve
+                </Button>
+              )}
+              {ALERT_TRANSITIONS[alert.state].includes('false_positive') && (
+                <Button variant="ghost" size="sm" className="text-xs" onClick={() => transition(alert, 'false_positive')}>
+                  False positive
+                </Button>
+              )}
+              {ALERT_TRANSITIONS[alert.state].includes('new') && (
+                <Button variant="ghost" size="sm" className="text-xs" onClick={() => transition(alert, 'new')}>
+                  Reopen
+                </Button>
+              )}
+            </div>
+
+            <Collapsible className="mt-3">
+              <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+                <History className="h-3 w-3" />
+                History ({alert.history.length})
+                <ChevronDown className="h-3 w-3" />
+              </CollapsibleTrigger>
+              <CollapsibleContent className="mt-2 space-y-1 border-l-2 border-border/50 pl-3">
+                {alert.history.map((event, i) => (
+                  <p key={i} className="text-xs text-muted-foreground">
+                    <span className="text-foreground">{new Date(event.at).toLocaleString()}</span>
+                    {' · '}{event.actor}{' · '}
+                    {event.from ? `${ALERT_STATES[event.from]} → ${ALERT_STATES[event.to]}` : 'Raised'}
+                    {event.note && ` — ${event.note}`}
+                  </p>
+                ))}
+              </CollapsibleContent>
+            </Collapsible>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
+
+export default AlertCenter;
@@ -0,0 +1,158 @@
+import { useState, useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Cpu, Languages, Database, Clock } from "lucide-react";
+import { nlpEngine, MODEL_PROFILES, type ModelProfile } from "@/lib/nlp-engine";
+import { SUPPORTED_LANGUAGES } from "@/lib/language-detector";
+import type { EmbeddingCacheStats } from "@/lib/embedding-cache";
+import { signalStore, RETENTION_PERIODS } from "@/lib/signal-store";
+import { useToast } from "@/hooks/use-toast";
+
+const AnalysisSettings = () => {
+  const [modelProfile, setModelProfile] = useState<ModelProfile>(nlpEngine.getModelProfile());
+  const [cacheStats, setCacheStats] = useState<EmbeddingCacheStats | null>(null);
+  const [retentionDays, setRetentionDays] = useState(signalStore.getRetentionDays());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadCacheStats();
+  }, []);
+
+  const loadCacheStats = async () => {
+    setCacheStats(await nlpEngine.getEmbeddingCacheStats());
+  };
+
+  const clearCache = async () => {
+    await nlpEngine.clearEmbeddingCache();
+    await loadCacheStats();
+    toast({
+      title: "Embedding Cache Cleared",
+      description: "Embeddings will be recomputed on the next analysis",
+    });
+  };
+
+  const updateRetention = async (days: number) => {
+    setRetentionDays(days);
+    try {
+      const removed = await signalStore.setRetentionDays(days);
+      toast({
+        title: "Retention Updated",
+        description: `Keeping ${days} days of history; ${removed} older records removed`,
+      });
+    } catch (error) {
+      console.error('Error applying retention period:', error);
+    }
+  };
+
+  const updateModelProfile = (profile: ModelProfile) => {
+    nlpEngine.setModelProfile(profile);
+    setModelProfile(profile);
+    toast({
+      title: "Model Profile Updated",
+      description: `${MODEL_PROFILES[profile].label} will load on the next analysis`,
+    });
+  };
+
+  return (
+    <Card className="p-6 bg-gradient-primary border-muted shadow-deep">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 rounded-lg bg-secondary/20">
+          <Cpu className="h-6 w-6 text-secondary" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Analysis Models</h3>
+          <p className="text-sm text-muted-foreground">Sentiment and embedding models used in the browser</p>
+        </div>
+      </div>
+
+      <div className="space-y-2 p-4 rounded-lg bg-card/40 border border-border/50">
+        <Label htmlFor="model-profile">Model Profile</Label>
+        <Select value={modelProfile} onValueChange={(value) => updateModelProfile(value as ModelProfile)}>
+          <SelectTrigger id="model-profile">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.entries(MODEL_PROFILES) as [ModelProfile, typeof MODEL_PROFILES[ModelProfile]][]).map(([profile, models]) => (
+              <SelectItem key={profile} value={profile}>
+                {models.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Use the multilingual profile when teams communicate in languages other than English
+        </p>
+      </div>
+
+      <div className="mt-6 p-4 rounded-lg bg-card/40 border border-border/50">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <Database className="h-4 w-4 text-primary" />
+            <span className="text-sm font-medium text-foreground">Embedding Cache</span>
+          </div>
+          <Button variant="ghost" size="sm" onClick={clearCache}>
+            Clear
+          </Button>
+        </div>
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span className="text-muted-foreground">Cached Embeddings</span>
+            <span className="text-foreground">{cacheStats?.entries ?? 0}</span>
+          </div>
+          <div className="flex justify-between text-xs">
+            <span className="text-muted-foreground">Hit Rate (this session)</span>
+            <span className="text-foreground">{((cacheStats?.hitRate ?? 0) * 100).toFixed(1)}%</span>
+          </div>
+          <div className="flex justify-between text-xs">
+            <span className="text-muted-foreground">Hits / Misses</span>
+            <span className="text-foreground">{cacheStats?.hits ?? 0} / {cacheStats?.misses ?? 0}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-6 space-y-2 p-4 rounded-lg bg-card/40 border border-border/50">
+        <div className="flex items-center gap-2">
+          <Clock className="h-4 w-4 text-primary" />
+          <Label htmlFor="retention-days">Data Retention</Label>
+        </div>
+        <Select value={String(retentionDays)} onValueChange={(value) => updateRetention(Number(value))}>
+          <SelectTrigger id="retention-days">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RETENTION_PERIODS.map(days => (
+              <SelectItem key={days} value={String(days)}>
+                {days} days
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Older messages, analyses, baselines and alerts are deleted, including imported history
+        </p>
+      </div>
+
+      <div className="mt-6 p-4 rounded-lg bg-secondary/5 border border-secondary/20">
+        <div className="flex items-center gap-2 mb-2">
+          <Languages className="h-4 w-4 text-secondary" />
+          <span className="text-sm font-medium text-secondary">Language Detection</span>
+        </div>
+        <p className="text-sm text-muted-foreground mb-3">
+          Each message is tagged with its language and scored with that language's lexicon. Baselines and drift are compared within a language only.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(SUPPORTED_LANGUAGES).map(([code, label]) => (
+            <Badge key={code} variant="outline" className="text-xs">
+              {label} ({code})
+            </Badge>
+          ))}
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default AnalysisSettings;
@@ -0,0 +1,103 @@
+import { useState, useEffect } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { CalendarRange } from "lucide-react";
+import { signalStore, type StoredAlert, type TimeRange } from "@/lib/signal-store";
+import type { CommunicationMessage } from "@/lib/data-integrations";
+
+interface BucketDetailDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string | null;
+  range: Required<TimeRange> | null;
+  title: string;
+}
+
+const BucketDetailDrawer = ({ open, onOpenChange, teamId, range, title }: BucketDetailDrawerProps) => {
+  const [messages, setMessages] = useState<CommunicationMessage[]>([]);
+  const [alerts, setAlerts] = useState<StoredAlert[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || !teamId || !range) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    Promise.all([signalStore.getMessages(teamId, range), signalStore.getAlerts(teamId, range)])
+      .then(([bucketMessages, bucketAlerts]) => {
+        if (cancelled) return;
+        setMessages(bucketMessages);
+        setAlerts(bucketAlerts);
+      })
+      .catch(error => console.error('Error loading bucket details:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, teamId, range]);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <CalendarRange className="h-5 w-5 text-primary" />
+            {title}
+          </SheetTitle>
+          <SheetDescription>
+            Messages and alerts recorded for this cluster and period.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-8rem)] pr-4 mt-4">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : (
+            <div className="space-y-6">
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-foreground">Alerts ({alerts.length})</h4>
+                {alerts.map(alert => (
+                  <div key={alert.id} className="p-3 rounded-lg bg-card/40 border border-border/50">
+                    <div className="flex items-center justify-between mb-1">
+                      <Badge variant={alert.severity === 'critical' || alert.severity === 'high' ? 'destructive' : 'secondary'} className="text-xs">
+                        {alert.severity}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">{new Date(alert.timestamp).toLocaleString()}</span>
+                    </div>
+                    <p className="text-xs text-foreground">{alert.message}</p>
+                  </div>
+                ))}
+                {alerts.length === 0 && (
+                  <p className="text-xs text-muted-foreground">No alerts in this period.</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-foreground">Messages ({messages.length})</h4>
+                {messages.map(message => (
+                  <div key={message.id} className="p-3 rounded-lg bg-card/40 border border-border/50">
+                    <div className="flex items-center justify-between mb-1">
+                      <Badge variant="outline" className="text-xs">{message.platform} · {message.channel}</Badge>
+                      <span className="text-xs text-muted-foreground">{new Date(message.timestamp).toLocaleString()}</span>
+                    </div>
+                    <p className="text-xs text-foreground">{message.text}</p>
+                  </div>
+                ))}
+                {messages.length === 0 && (
+                  <p className="text-xs text-muted-foreground">No messages in this period.</p>
+                )}
+              </div>
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default BucketDetailDrawer;
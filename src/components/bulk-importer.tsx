@@ -0,0 +1,241 @@
+import { useState, useRef, useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Archive, Upload, Trash2 } from "lucide-react";
+import {
+  bulkImporter,
+  IMPORT_ACCEPT,
+  IMPORT_FORMATS,
+  type ImportProgress,
+  type ParsedImport
+} from "@/lib/bulk-import";
+import { signalStore } from "@/lib/signal-store";
+import { useToast } from "@/hooks/use-toast";
+
+const STAGE_LABELS: Record<ImportProgress['stage'], string> = {
+  storing: 'Storing messages',
+  analyzing: 'Analyzing',
+  indexing: 'Updating fragmentation index'
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+const dateRange = (parsed: ParsedImport) => {
+  if (parsed.messages.length === 0) return 'no messages';
+  const timestamps = parsed.messages.map(message => message.timestamp).sort();
+  return `${formatDate(timestamps[0])} – ${formatDate(timestamps[timestamps.length - 1])}`;
+};
+
+const BulkImporter = () => {
+  const [teamId, setTeamId] = useState('');
+  const [recordedAt, setRecordedAt] = useState('');
+  const [parsed, setParsed] = useState<ParsedImport[]>([]);
+  const [parsing, setParsing] = useState(false);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const mountedRef = useRef(true);
+  const { toast } = useToast();
+
+  // Stop writing to the store once the importer is gone
+  useEffect(() => {
+    mountedRef.current = true;
+    const abort = abortRef;
+    return () => {
+      mountedRef.current = false;
+      abort.current?.abort();
+    };
+  }, []);
+
+  const team = teamId.trim();
+  const messageCount = parsed.reduce((sum, file) => sum + file.messages.length, 0);
+  const retentionCutoff = signalStore.getRetentionCutoff();
+  const expiredCount = parsed.reduce(
+    (sum, file) => sum + file.messages.filter(message => message.timestamp < retentionCutoff).length,
+    0
+  );
+
+  const addFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setParsing(true);
+    try {
+      for (const file of files) {
+        try {
+          const result = await bulkImporter.parseFile(file, {
+            teamId: team,
+            recordedAt: recordedAt ? new Date(recordedAt) : undefined
+          });
+          setParsed(prev => [...prev.filter(existing => existing.fileName !== file.name), result]);
+        } catch (error) {
+          toast({
+            title: `Could not read ${file.name}`,
+            description: error instanceof Error ? error.message : 'Unreadable file',
+            variant: "destructive"
+          });
+        }
+      }
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const runImport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      // The team may have changed since the files were parsed
+      const messages = parsed.flatMap(file => file.messages).map(message => ({ ...message, teamId: team }));
+      const summary = await bulkImporter.importMessages(messages, {
+        signal: controller.signal,
+        onProgress: update => mountedRef.current && setProgress(update)
+      });
+      if (!mountedRef.current) return;
+      setParsed([]);
+      toast({
+        title: "Import Complete",
+        description: summary.from && summary.to
+          ? `${summary.messages} messages from ${formatDate(summary.from)} to ${formatDate(summary.to)} analyzed into ${summary.baselines} daily baselines` +
+            (summary.expired > 0 ? `; ${summary.expired} older than the retention period skipped` : '')
+          : 'No messages within the retention period to import',
+      });
+    } catch (error) {
+      if (!mountedRef.current) return;
+      const cancelled = error instanceof DOMException && error.name === 'AbortError';
+      toast({
+        title: cancelled ? "Import Cancelled" : "Import Failed",
+        description: cancelled
+          ? 'Messages analyzed so far and their daily baselines were kept'
+          : error instanceof Error ? error.message : 'Unknown error',
+        variant: cancelled ? undefined : "destructive"
+      });
+    } finally {
+      abortRef.current = null;
+      if (mountedRef.current) setProgress(null);
+    }
+  };
+
+  return (
+    <Card className="p-6 bg-gradient-neural border-muted shadow-neural">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/20">
+            <Archive className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Historical Import</h3>
+            <p className="text-sm text-muted-foreground">Backfill baselines from exported archives, offline</p>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={parsing || !!progress || !team}
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          {parsing ? 'Reading...' : 'Add Files'}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={IMPORT_ACCEPT}
+          className="hidden"
+          onChange={addFiles}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+        <div className="space-y-2">
+          <Label htmlFor="import-team">Team</Label>
+          <Input
+            id="import-team"
+            placeholder="e.g. engineering"
+            value={teamId}
+            onChange={(e) => setTeamId(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="import-recorded-at">Transcript Recorded At</Label>
+          <Input
+            id="import-recorded-at"
+            type="datetime-local"
+            value={recordedAt}
+            onChange={(e) => setRecordedAt(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">Defaults to each transcript file's modified time</p>
+        </div>
+      </div>
+
+      <div className="space-y-2 mb-6">
+        {parsed.map(file => (
+          <div key={file.fileName} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-card/40 border border-border/50">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-foreground truncate">{file.fileName}</p>
+              <p className="text-xs text-muted-foreground">
+                {file.messages.length} messages · {dateRange(file)}
+                {file.skipped > 0 && ` · ${file.skipped} skipped`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className="text-xs">{IMPORT_FORMATS[file.format].label}</Badge>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={!!progress}
+                onClick={() => setParsed(prev => prev.filter(existing => existing.fileName !== file.fileName))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        {parsed.length === 0 && (
+          <div className="p-4 rounded-lg bg-primary/5 border border-primary/20">
+            <p className="text-sm text-muted-foreground">
+              Add a Slack workspace export (.zip), email archives (.mbox, .eml), Teams chat exports (.json)
+              or meeting transcripts (.vtt, .srt). Files are read in the browser; names, emails and phone
+              numbers are masked and authors are replaced with anonymous ids before anything is stored.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {expiredCount > 0 && !progress && (
+        <div className="mb-6 p-4 rounded-lg bg-destructive/5 border border-destructive/20">
+          <p className="text-sm text-muted-foreground">
+            {expiredCount} of {messageCount} messages are older than {formatDate(retentionCutoff)}, the
+            {' '}{signalStore.getRetentionDays()}-day retention cutoff, and will be skipped. Lengthen the retention
+            period in Analysis Models to keep them.
+          </p>
+        </div>
+      )}
+
+      {progress ? (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>{STAGE_LABELS[progress.stage]} {progress.completed}/{progress.total}</span>
+            <Button variant="ghost" size="sm" className="text-xs" onClick={() => abortRef.current?.abort()}>
+              Cancel
+            </Button>
+          </div>
+          <Progress value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0} className="h-2" />
+        </div>
+      ) : (
+        <Button onClick={runImport} disabled={messageCount === 0 || !team}>
+          Import & Analyze {messageCount > 0 && `${messageCount} Messages`}
+        </Button>
+      )}
+    </Card>
+  );
+};
+
+export default BulkImporter;
@@ -1,20 +1,59 @@
+import { useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Brain, TrendingUp, TrendingDown, AlertTriangle } from "lucide-react";
+import { signalStore } from "@/lib/signal-store";
+import { BASELINE_WINDOWS, windowStart, type BaselineWindow } from "@/lib/baseline-statistics";
+import { aggregateCoherence, coherenceThresholdStore, type CoherenceMetric } from "@/lib/coherence-metrics";
+import { nlpEngine } from "@/lib/nlp-engine";
 
-interface CoherenceMetric {
-  label: string;
-  value: number;
-  trend: "up" | "down" | "stable";
-  status: "healthy" | "warning" | "critical";
-}
+const ALL_TEAMS = "all";
 
 const CoherenceEngine = () => {
-  const metrics: CoherenceMetric[] = [
-    { label: "Symbolic Alignment", value: 87, trend: "up", status: "healthy" },
-    { label: "Metaphor Density", value: 62, trend: "down", status: "warning" },
-    { label: "Narrative Coherence", value: 94, trend: "stable", status: "healthy" },
-    { label: "Modal Compression", value: 45, trend: "down", status: "critical" }
-  ];
+  const [metrics, setMetrics] = useState<CoherenceMetric[]>([]);
+  const [teams, setTeams] = useState<string[]>([]);
+  const [selectedTeam, setSelectedTeam] = useState(ALL_TEAMS);
+  const [windowDays, setWindowDays] = useState<BaselineWindow>(nlpEngine.getBaselineWindow());
+
+  useEffect(() => {
+    const loadMetrics = async () => {
+      try {
+        const teamIds = await signalStore.getTeamIds();
+        setTeams(teamIds);
+
+        // Current period and the one before it, of equal length
+        const now = new Date();
+        const currentFrom = windowStart(windowDays, now);
+        const previousFrom = windowStart(windowDays, new Date(currentFrom));
+        const scope = selectedTeam === ALL_TEAMS ? teamIds : [selectedTeam];
+
+        const load = async (from: string, to: string) =>
+          (await Promise.all(scope.map(teamId => signalStore.getAnalyses(teamId, { from, to })))).flat();
+        const current = await load(currentFrom, now.toISOString());
+        // Range bounds are inclusive; drop the shared boundary instant
+        const previous = (await load(previousFrom, currentFrom)).filter(a => a.timestamp < currentFrom);
+
+        setMetrics(aggregateCoherence(current, previous, coherenceThresholdStore.listThresholds()));
+      } catch (error) {
+        console.error('Error loading coherence metrics:', error);
+      }
+    };
+
+    loadMetrics();
+    const interval = setInterval(loadMetrics, 5 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [selectedTeam, windowDays]);
+
+  const critical = metrics.filter(metric => metric.status === "critical" && metric.value !== null);
+  const warnings = metrics.filter(metric => metric.status === "warning" && metric.value !== null);
+  const scopeLabel = selectedTeam === ALL_TEAMS ? "across all teams" : `in the ${selectedTeam} cluster`;
+  const statusSummary = metrics.every(metric => metric.value === null)
+    ? `No analyses in the last ${windowDays} days ${scopeLabel}.`
+    : critical.length > 0
+      ? `${critical.map(m => m.label).join(", ")} below critical threshold ${scopeLabel}.`
+      : warnings.length > 0
+        ? `Coherence engine operating with warnings: ${warnings.map(m => m.label).join(", ")} below target ${scopeLabel}.`
+        : `Coherence engine operating within normal parameters ${scopeLabel}.`;
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -35,20 +74,45 @@ const CoherenceEngine = () => {
 
   return (
     <Card className="p-6 bg-gradient-coherence border-muted shadow-neural">
-      <div className="flex items-center gap-3 mb-6">
-        <div className="p-2 rounded-lg bg-primary/20">
-          <Brain className="h-6 w-6 text-primary" />
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/20">
+            <Brain className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Linguistic Coherence Engine</h3>
+            <p className="text-sm text-muted-foreground">Symbolic alignment analysis</p>
+          </div>
         </div>
-        <div>
-          <h3 className="text-lg font-semibold text-foreground">Linguistic Coherence Engine</h3>
-          <p className="text-sm text-muted-foreground">Symbolic alignment analysis</p>
+        <div className="flex items-center gap-2">
+          <Select value={selectedTeam} onValueChange={setSelectedTeam}>
+            <SelectTrigger className="w-32 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TEAMS}>All teams</SelectItem>
+              {teams.map(teamId => (
+                <SelectItem key={teamId} value={teamId}>{teamId}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={String(windowDays)} onValueChange={(value) => setWindowDays(Number(value) as BaselineWindow)}>
+            <SelectTrigger className="w-24 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BASELINE_WINDOWS.map(days => (
+                <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
       </div>
 
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 md:gap-4">
         {metrics.map((metric, index) => (
           <div 
-            key={metric.label}
+            key={metric.metric}
             className="p-4 rounded-lg bg-card/50 border border-border/50 animate-pulse-glow"
             style={{ animationDelay: `${index * 0.2}s` }}
           >
@@ -57,9 +121,14 @@ const CoherenceEngine = () => {
               {getTrendIcon(metric.trend)}
             </div>
             <div className="flex items-end gap-2">
-              <span className={`text-2xl font-bold ${getStatusColor(metric.status)}`}>
-                {metric.value}%
+              <span className={`text-2xl font-bold ${metric.value !== null ? getStatusColor(metric.status) : 'text-muted-foreground'}`}>
+                {metric.value !== null ? `${metric.value.toFixed(1)}${metric.threshold.unit}` : '—'}
               </span>
+              {metric.change !== null && (
+                <span className="text-xs text-muted-foreground mb-1">
+                  {metric.change >= 0 ? '+' : ''}{metric.change.toFixed(1)}% vs prior {windowDays}d
+                </span>
+              )}
             </div>
             <div className="mt-2 w-full bg-muted/30 rounded-full h-2">
               <div 
@@ -67,7 +136,7 @@ const CoherenceEngine = () => {
                   metric.status === "healthy" ? "bg-success" :
                   metric.status === "warning" ? "bg-warning" : "bg-destructive"
                 }`}
-                style={{ width: `${metric.value}%` }}
+                style={{ width: `${Math.min(100, ((metric.value ?? 0) / metric.threshold.max) * 100)}%` }}
               />
             </div>
           </div>
@@ -80,7 +149,7 @@ const CoherenceEngine = () => {
           <span className="text-sm font-medium text-primary">System Status</span>
         </div>
         <p className="text-sm text-muted-foreground">
-          Coherence engine operating within normal parameters. Metaphor density showing minor degradation in Engineering cluster.
+          {statusSummary}
         </p>
       </div>
     </Card>
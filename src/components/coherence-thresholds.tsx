@@ -0,0 +1,125 @@
+import { useState, useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Gauge, RotateCcw } from "lucide-react";
+import { coherenceThresholdStore, type CoherenceThreshold } from "@/lib/coherence-metrics";
+import { DRIFT_METRICS } from "@/lib/baseline-statistics";
+import { useToast } from "@/hooks/use-toast";
+
+type ThresholdDraft = Record<string, { warning: string; critical: string }>;
+
+const toDrafts = (thresholds: CoherenceThreshold[]): ThresholdDraft =>
+  Object.fromEntries(thresholds.map(t => [t.metric, { warning: t.warning.toString(), critical: t.critical.toString() }]));
+
+const CoherenceThresholds = () => {
+  const [thresholds, setThresholds] = useState<CoherenceThreshold[]>([]);
+  const [drafts, setDrafts] = useState<ThresholdDraft>({});
+  const { toast } = useToast();
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const refresh = () => {
+    const current = coherenceThresholdStore.listThresholds();
+    setThresholds(current);
+    setDrafts(toDrafts(current));
+  };
+
+  const updateDraft = (metric: string, changes: Partial<ThresholdDraft[string]>) => {
+    setDrafts(prev => ({ ...prev, [metric]: { ...prev[metric], ...changes } }));
+  };
+
+  const saveThresholds = () => {
+    try {
+      thresholds.forEach(threshold => {
+        const draft = drafts[threshold.metric];
+        coherenceThresholdStore.saveThreshold({
+          ...threshold,
+          warning: Number(draft.warning),
+          critical: Number(draft.critical)
+        });
+      });
+      refresh();
+      toast({
+        title: "Thresholds Saved",
+        description: "Coherence statuses will use the new thresholds",
+      });
+    } catch (error) {
+      toast({
+        title: "Invalid Thresholds",
+        description: error instanceof Error ? error.message : 'Could not save thresholds',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const resetThresholds = () => {
+    coherenceThresholdStore.resetToDefaults();
+    refresh();
+    toast({
+      title: "Thresholds Reset",
+      description: "Default coherence thresholds restored",
+    });
+  };
+
+  return (
+    <Card className="p-6 bg-gradient-coherence border-muted shadow-neural">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/20">
+            <Gauge className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Coherence Thresholds</h3>
+            <p className="text-sm text-muted-foreground">Values below a threshold mark a coherence metric as warning or critical</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={resetThresholds}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset
+          </Button>
+          <Button size="sm" onClick={saveThresholds}>
+            Save
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {thresholds.map(threshold => (
+          <div key={threshold.metric} className="p-4 rounded-lg bg-card/40 border border-border/50">
+            <p className="text-sm font-medium text-foreground mb-3">
+              {DRIFT_METRICS[threshold.metric].label}
+              <span className="text-xs text-muted-foreground ml-2">0–{threshold.max}{threshold.unit}</span>
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor={`${threshold.metric}-warning`} className="text-xs">Warning below</Label>
+                <Input
+                  id={`${threshold.metric}-warning`}
+                  type="number"
+                  value={drafts[threshold.metric]?.warning ?? ''}
+                  onChange={(e) => updateDraft(threshold.metric, { warning: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`${threshold.metric}-critical`} className="text-xs">Critical below</Label>
+                <Input
+                  id={`${threshold.metric}-critical`}
+                  type="number"
+                  value={drafts[threshold.metric]?.critical ?? ''}
+                  onChange={(e) => updateDraft(threshold.metric, { critical: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
+
+export default CoherenceThresholds;
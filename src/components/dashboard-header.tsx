@@ -1,16 +1,19 @@
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Shield, Activity, Settings } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Shield, Activity, Settings, BellRing } from "lucide-react";
 
 const DashboardHeader = () => {
   return (
     <div className="flex items-center justify-between p-4 md:p-6 border-b border-border bg-background">
       <div className="flex items-center gap-3 md:gap-4">
-        <img 
-          src="/lovable-uploads/974d6a5c-c6b9-436c-887b-d79c72b2a72a.png" 
-          alt="SignalVault" 
-          className="h-8 w-8 md:h-10 md:w-10 object-contain"
-        />
+        <Link to="/">
+          <img 
+            src="/lovable-uploads/974d6a5c-c6b9-436c-887b-d79c72b2a72a.png" 
+            alt="SignalVault" 
+            className="h-8 w-8 md:h-10 md:w-10 object-contain"
+          />
+        </Link>
         <div className="min-w-0">
           <h1 className="text-lg md:text-2xl font-semibold text-foreground tracking-tight truncate">
             SignalVault
@@ -19,7 +22,7 @@ const DashboardHeader = () => {
         </div>
       </div>
 
-      <div className="flex items-center gap-2 md:gap-4">
+      <div className="flex items-center gap-2 md:gap-4 print:hidden">
         <div className="hidden sm:flex items-center gap-3">
           <div className="flex items-center gap-2">
             <div className="h-2 w-2 rounded-full bg-accent animate-pulse" />
@@ -38,8 +41,16 @@ const DashboardHeader = () => {
             <span className="hidden md:inline">Security</span>
           </Button>
           
-          <Button variant="ghost" size="sm">
-            <Settings className="h-4 w-4" />
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/alerts" aria-label="Alerts">
+              <BellRing className="h-4 w-4" />
+            </Link>
+          </Button>
+
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/settings" aria-label="Settings">
+              <Settings className="h-4 w-4" />
+            </Link>
           </Button>
         </div>
       </div>
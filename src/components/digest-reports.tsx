@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileText, Download, Send, RefreshCw } from "lucide-react";
+import {
+  DIGEST_PERIODS,
+  digestSummary,
+  generateDigest,
+  renderDigestHtml,
+  renderDigestMarkdown,
+  type Digest,
+  type DigestPeriod
+} from "@/lib/digest-report";
+import { notificationDispatcher } from "@/lib/notification-dispatcher";
+import { downloadFile, setReportFilters } from "@/lib/export-service";
+import { useToast } from "@/hooks/use-toast";
+
+const DUE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const DigestReports = () => {
+  const [period, setPeriod] = useState<DigestPeriod>('weekly');
+  const [digest, setDigest] = useState<Digest | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const { toast } = useToast();
+
+  const loadDigest = useCallback(async () => {
+    setLoading(true);
+    try {
+      setDigest(await generateDigest(period));
+    } catch (error) {
+      console.error('Error generating digest:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [period]);
+
+  useEffect(() => {
+    loadDigest();
+    setReportFilters('Digest Reports', { Period: DIGEST_PERIODS[period].label });
+  }, [loadDigest, period]);
+
+  // Subscribed channels get each digest once per period while the dashboard is open
+  useEffect(() => {
+    const sendDue = () => notificationDispatcher.dispatchDueDigests(generateDigest);
+
+    sendDue();
+    const interval = setInterval(sendDue, DUE_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const filename = (extension: string) => `signalvault-${digest?.period}-digest-${digest?.to.slice(0, 10)}.${extension}`;
+
+  const sendNow = async () => {
+    if (!digest) return;
+
+    setSending(true);
+    try {
+      const records = await notificationDispatcher.dispatchDigest(digest);
+      const failed = records.filter(record => record.status === 'failed').length;
+      toast({
+        title: records.length === 0 ? "No Subscribed Webhooks" : failed > 0 ? "Digest Partly Sent" : "Digest Sent",
+        description: records.length === 0
+          ? `Subscribe a webhook to the ${DIGEST_PERIODS[digest.period].label.toLowerCase()} digest in Settings`
+          : `Delivered to ${records.length - failed} of ${records.length} webhook${records.length === 1 ? '' : 's'}`,
+        variant: failed > 0 ? "destructive" : undefined
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 bg-gradient-neural border-muted shadow-neural">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/20">
+            <FileText className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Digest Reports</h3>
+            <p className="text-sm text-muted-foreground">Resonance, drift alerts and recommended prompts per team</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 print:hidden">
+          <Select value={period} onValueChange={(value) => setPeriod(value as DigestPeriod)}>
+            <SelectTrigger className="h-8 w-[120px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DIGEST_PERIODS) as DigestPeriod[]).map(option => (
+                <SelectItem key={option} value={option}>{DIGEST_PERIODS[option].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="sm" onClick={loadDigest} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!digest}
+            onClick={() => digest && downloadFile(renderDigestMarkdown(digest), 'text/markdown', filename('md'))}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Markdown
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!digest}
+            onClick={() => digest && downloadFile(renderDigestHtml(digest), 'text/html', filename('html'))}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            HTML
+          </Button>
+          <Button size="sm" disabled={!digest || sending} onClick={sendNow}>
+            <Send className="h-4 w-4 mr-2" />
+            Send to Webhooks
+          </Button>
+        </div>
+      </div>
+
+      {digest ? (
+        <div className="space-y-3">
+          <p className="text-xs text-muted-foreground">{digestSummary(digest)}</p>
+          {/* Sandboxed so the standalone report's styles stay out of the app */}
+          <iframe
+            title="Digest preview"
+            sandbox=""
+            srcDoc={renderDigestHtml(digest)}
+            className="w-full h-96 rounded-lg border border-border/50 bg-white"
+          />
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          {loading ? 'Compiling digest…' : 'No digest available yet.'}
+        </p>
+      )}
+    </Card>
+  );
+};
+
+export default DigestReports;
@@ -0,0 +1,308 @@
+import { useState, useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SlidersHorizontal, Plus, Trash2, RotateCcw } from "lucide-react";
+import {
+  driftRuleStore,
+  RULE_COMPARISONS,
+  RULE_SEVERITIES,
+  type DriftRule,
+  type RuleComparison,
+  type RuleDirection,
+  type RuleSeverity
+} from "@/lib/drift-rules";
+import { BASELINE_WINDOWS, DRIFT_METRICS, type BaselineWindow, type DriftMetric } from "@/lib/baseline-statistics";
+import type { DriftAlert } from "@/lib/nlp-engine";
+import { ALERT_TYPE_LABELS } from "@/lib/alert-store";
+import { useToast } from "@/hooks/use-toast";
+
+const DIRECTIONS: Record<RuleDirection, string> = {
+  above: 'At or above',
+  below: 'At or below',
+  either: 'Either direction'
+};
+
+type RuleDraft = Omit<DriftRule, 'bands' | 'teams' | 'createdAt' | 'updatedAt'> & {
+  bands: Record<RuleSeverity, string>;
+  teams: string;
+};
+
+const toDraft = (rule: DriftRule): RuleDraft => ({
+  ...rule,
+  bands: {
+    medium: rule.bands.medium?.toString() ?? '',
+    high: rule.bands.high?.toString() ?? '',
+    critical: rule.bands.critical?.toString() ?? ''
+  },
+  teams: rule.teams.join(', ')
+});
+
+const emptyDraft = (): RuleDraft => ({
+  id: `rule_${Date.now()}`,
+  name: 'New Rule',
+  enabled: true,
+  metric: 'symbolAlignment',
+  comparison: 'z_score',
+  direction: 'below',
+  bands: { medium: '-2', high: '-3', critical: '' },
+  alertType: 'symbolic_decay',
+  teams: ''
+});
+
+const DriftRulesManager = () => {
+  const [rules, setRules] = useState<DriftRule[]>([]);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const refresh = () => {
+    setRules(driftRuleStore.listRules());
+  };
+
+  const updateDraft = (changes: Partial<RuleDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const saveRule = () => {
+    if (!draft) return;
+
+    const bands = Object.fromEntries(
+      RULE_SEVERITIES
+        .filter(level => draft.bands[level].trim() !== '')
+        .map(level => [level, Number(draft.bands[level])])
+    ) as DriftRule['bands'];
+
+    try {
+      const rule = driftRuleStore.saveRule({
+        ...draft,
+        bands,
+        teams: draft.teams.split(',').map(t => t.trim()).filter(t => t.length > 0)
+      });
+      refresh();
+      setDraft(toDraft(rule));
+      toast({
+        title: "Rule Saved",
+        description: `${rule.name} will apply on the next drift analysis`,
+      });
+    } catch (error) {
+      toast({
+        title: "Invalid Rule",
+        description: error instanceof Error ? error.message : 'Could not save rule',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const toggleRule = (rule: DriftRule, enabled: boolean) => {
+    driftRuleStore.saveRule({ ...rule, enabled });
+    refresh();
+  };
+
+  const deleteRule = (id: string) => {
+    driftRuleStore.deleteRule(id);
+    if (draft?.id === id) setDraft(null);
+    refresh();
+  };
+
+  const resetRules = () => {
+    driftRuleStore.resetToDefaults();
+    setDraft(null);
+    refresh();
+    toast({
+      title: "Rules Reset",
+      description: "Default drift rules restored",
+    });
+  };
+
+  return (
+    <Card className="p-6 bg-gradient-neural border-muted shadow-neural">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-warning/20">
+            <SlidersHorizontal className="h-6 w-6 text-warning" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Drift Alert Rules</h3>
+            <p className="text-sm text-muted-foreground">Conditions that raise drift alerts, evaluated per team</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setDraft(emptyDraft())}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Rule
+          </Button>
+          <Button variant="ghost" size="sm" onClick={resetRules}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          {rules.map(rule => (
+            <div
+              key={rule.id}
+              className={`flex items-center justify-between gap-3 p-3 rounded-lg border transition-all duration-300 cursor-pointer ${
+                draft?.id === rule.id ? 'bg-primary/10 border-primary/30' : 'bg-card/40 border-border/50 hover:bg-card/60'
+              }`}
+              onClick={() => setDraft(toDraft(rule))}
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{rule.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {DRIFT_METRICS[rule.metric].label} · {RULE_COMPARISONS[rule.comparison].label}
+                  {rule.teams.length > 0 && ` · ${rule.teams.join(', ')}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                <Badge variant="outline" className="text-xs">
+                  {ALERT_TYPE_LABELS[rule.alertType]}
+                </Badge>
+                <Switch checked={rule.enabled} onCheckedChange={(checked) => toggleRule(rule, checked)} />
+                <Button variant="ghost" size="sm" onClick={() => deleteRule(rule.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          {rules.length === 0 && (
+            <p className="text-sm text-muted-foreground">No rules configured. Drift will not raise alerts.</p>
+          )}
+        </div>
+
+        {draft ? (
+          <div className="space-y-4 p-4 rounded-lg bg-card/40 border border-border/50">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input id="rule-name" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-metric">Metric</Label>
+                <Select value={draft.metric} onValueChange={(value) => updateDraft({ metric: value as DriftMetric })}>
+                  <SelectTrigger id="rule-metric">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DRIFT_METRICS) as DriftMetric[]).map(metric => (
+                      <SelectItem key={metric} value={metric}>{DRIFT_METRICS[metric].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-comparison">Comparison</Label>
+                <Select value={draft.comparison} onValueChange={(value) => updateDraft({ comparison: value as RuleComparison })}>
+                  <SelectTrigger id="rule-comparison">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RULE_COMPARISONS) as RuleComparison[]).map(comparison => (
+                      <SelectItem key={comparison} value={comparison}>{RULE_COMPARISONS[comparison].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-direction">Fires When</Label>
+                <Select value={draft.direction} onValueChange={(value) => updateDraft({ direction: value as RuleDirection })}>
+                  <SelectTrigger id="rule-direction">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DIRECTIONS) as RuleDirection[]).map(direction => (
+                      <SelectItem key={direction} value={direction}>{DIRECTIONS[direction]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-window">Baseline Window</Label>
+                <Select
+                  value={draft.window ? String(draft.window) : 'default'}
+                  onValueChange={(value) => updateDraft({ window: value === 'default' ? undefined : Number(value) as BaselineWindow })}
+                >
+                  <SelectTrigger id="rule-window">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Default window</SelectItem>
+                    {BASELINE_WINDOWS.map(days => (
+                      <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Severity Thresholds ({RULE_COMPARISONS[draft.comparison].unit || 'metric units'})</Label>
+              <div className="grid grid-cols-3 gap-2">
+                {RULE_SEVERITIES.map(level => (
+                  <div key={level} className="space-y-1">
+                    <span className="text-xs text-muted-foreground capitalize">{level}</span>
+                    <Input
+                      type="number"
+                      step="any"
+                      placeholder="off"
+                      value={draft.bands[level]}
+                      onChange={(e) => updateDraft({ bands: { ...draft.bands, [level]: e.target.value } })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-alert-type">Alert Type</Label>
+                <Select value={draft.alertType} onValueChange={(value) => updateDraft({ alertType: value as DriftAlert['type'] })}>
+                  <SelectTrigger id="rule-alert-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.entries(ALERT_TYPE_LABELS) as [DriftAlert['type'], string][]).map(([type, label]) => (
+                      <SelectItem key={type} value={type}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-teams">Teams</Label>
+                <Input
+                  id="rule-teams"
+                  placeholder="All teams"
+                  value={draft.teams}
+                  onChange={(e) => updateDraft({ teams: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <Button onClick={saveRule}>
+              Save Rule
+            </Button>
+          </div>
+        ) : (
+          <div className="p-4 rounded-lg bg-primary/5 border border-primary/20">
+            <p className="text-sm text-muted-foreground">
+              Select a rule to edit it. Z-score and percent change compare against the team's rolling baseline;
+              trend slope is the change per day across the window. Negative thresholds catch declines.
+            </p>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default DriftRulesManager;
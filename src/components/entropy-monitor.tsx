@@ -1,6 +1,25 @@
+import { useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Activity, AlertCircle, TrendingUp, Zap } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChartContainer, type ChartConfig } from "@/components/ui/chart";
+import { Line, LineChart, YAxis } from "recharts";
+import { Activity, AlertCircle, Info, TrendingUp, Zap } from "lucide-react";
+import { nlpEngine, type DriftAlert } from "@/lib/nlp-engine";
+import { signalStore } from "@/lib/signal-store";
+import { setReportFilters } from "@/lib/export-service";
+import { alertStore, ALERT_STATES, type AlertState, type TrackedAlert } from "@/lib/alert-store";
+import { EMOTION_LABELS, EMOTIONS, type EmotionDistribution } from "@/lib/emotion-classification";
+import {
+  FRAGMENTATION_BANDS,
+  FRAGMENTATION_COMPONENT_LABELS,
+  FRAGMENTATION_FORMULA,
+  FRAGMENTATION_SCALE,
+  fragmentationBand,
+  type FragmentationComponents,
+  type FragmentationIndex
+} from "@/lib/fragmentation-index";
 
 interface EntropyAlert {
   id: string;
@@ -9,35 +28,112 @@ interface EntropyAlert {
   message: string;
   timestamp: string;
   cluster: string;
+  state: AlertState;
 }
 
+// Drift alert types that signal linguistic entropy, with their monitor labels
+const ENTROPY_ALERT_TYPES: Partial<Record<DriftAlert['type'], string>> = {
+  tone_concealment: "Tone Concealment",
+  tone_collapse: "Tone Collapse",
+  symbolic_decay: "Narrative Disruption",
+  pronoun_fragmentation: "Pronoun Distribution"
+};
+
+const MAX_ALERTS = 5;
+
+const timeAgo = (timestamp: string) => {
+  const minutes = Math.max(0, Math.round((Date.now() - new Date(timestamp).getTime()) / 60000));
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)} h ago`;
+  return `${Math.round(minutes / (24 * 60))} d ago`;
+};
+
+const toEntropyAlert = (alert: TrackedAlert): EntropyAlert => ({
+  id: alert.id,
+  severity: alert.severity === "critical" ? "high" : alert.severity,
+  type: ENTROPY_ALERT_TYPES[alert.type] || alert.type,
+  message: alert.message,
+  timestamp: timeAgo(alert.lastSeenAt),
+  cluster: alert.cluster || "Organization",
+  state: alert.state
+});
+
+const EMOTION_COLORS: Record<keyof typeof EMOTION_LABELS, string> = {
+  anger: "bg-destructive",
+  fear: "bg-warning",
+  joy: "bg-success",
+  sadness: "bg-secondary",
+  trust: "bg-primary",
+  anticipation: "bg-accent",
+  surprise: "bg-muted-foreground",
+  disgust: "bg-destructive/60"
+};
+
+const BAND_STYLES = {
+  stable: "text-success",
+  elevated: "text-warning",
+  critical: "text-destructive"
+};
+
+const HISTORY_DAYS = 30;
+
+const historyChartConfig = {
+  value: { label: "Fragmentation Index", color: "hsl(var(--warning))" }
+} satisfies ChartConfig;
+
 const EntropyMonitor = () => {
-  const alerts: EntropyAlert[] = [
-    {
-      id: "1",
-      severity: "high",
-      type: "Tone Concealment",
-      message: "Passive voice usage increased 340% in leadership communications",
-      timestamp: "2 min ago",
-      cluster: "Executive"
-    },
-    {
-      id: "2",
-      severity: "medium",
-      type: "Narrative Disruption",
-      message: "Mission-critical terminology fragments detected",
-      timestamp: "8 min ago",
-      cluster: "Product"
-    },
-    {
-      id: "3",
-      severity: "low",
-      type: "Pronoun Distribution",
-      message: "Individual vs collective pronoun imbalance emerging",
-      timestamp: "15 min ago",
-      cluster: "Engineering"
-    }
-  ];
+  const [distributions, setDistributions] = useState<EmotionDistribution[]>([]);
+  const [selectedTeam, setSelectedTeam] = useState('');
+  const [alerts, setAlerts] = useState<EntropyAlert[]>([]);
+  const [teams, setTeams] = useState<string[]>([]);
+  const [fragmentationHistory, setFragmentationHistory] = useState<FragmentationIndex[]>([]);
+  const [refreshedAt, setRefreshedAt] = useState(0);
+
+  useEffect(() => {
+    const loadSignals = async () => {
+      try {
+        const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+        const tracked = await alertStore.list({
+          states: ['new', 'acknowledged', 'assigned'],
+          types: Object.keys(ENTROPY_ALERT_TYPES) as DriftAlert['type'][],
+          range: { from: since }
+        });
+        setAlerts(tracked.slice(0, MAX_ALERTS).map(toEntropyAlert));
+
+        const teamIds = await signalStore.getTeamIds();
+        setTeams(teamIds);
+        setSelectedTeam(current => (teamIds.includes(current) ? current : teamIds[0] || ''));
+
+        const results = (await Promise.all(teamIds.map(teamId => nlpEngine.getEmotionDistribution(teamId))))
+          .filter(distribution => distribution.messageCount > 0);
+        setDistributions(results);
+        setRefreshedAt(Date.now());
+      } catch (error) {
+        console.error('Error loading entropy signals:', error);
+      }
+    };
+
+    loadSignals();
+    const interval = setInterval(loadSignals, 5 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (!selectedTeam) return;
+
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    signalStore.getFragmentationHistory(selectedTeam, { from: since })
+      .then(setFragmentationHistory)
+      .catch(error => console.error('Error loading fragmentation history:', error));
+  }, [selectedTeam, refreshedAt]);
+
+  useEffect(() => {
+    if (selectedTeam) setReportFilters('Entropy Monitor', { Cluster: selectedTeam });
+  }, [selectedTeam]);
+
+  const distribution = distributions.find(d => d.teamId === selectedTeam);
+  const fragmentation = fragmentationHistory[fragmentationHistory.length - 1];
+  const fragmentationPercent = fragmentation ? Math.min(100, (fragmentation.value / FRAGMENTATION_SCALE) * 100) : 0;
 
   const getSeverityColor = (severity: string) => {
     switch (severity) {
@@ -59,17 +155,34 @@ const EntropyMonitor = () => {
 
   return (
     <Card className="p-6 bg-gradient-neural border-muted shadow-neural">
-      <div className="flex items-center gap-3 mb-6">
-        <div className="p-2 rounded-lg bg-destructive/20">
-          <Activity className="h-6 w-6 text-destructive" />
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold text-foreground">Entropy Monitor</h3>
-          <p className="text-sm text-muted-foreground">Real-time linguistic fragmentation detection</p>
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-destructive/20">
+            <Activity className="h-6 w-6 text-destructive" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Entropy Monitor</h3>
+            <p className="text-sm text-muted-foreground">Real-time linguistic fragmentation detection</p>
+          </div>
         </div>
+        {teams.length > 0 && (
+          <Select value={selectedTeam} onValueChange={setSelectedTeam}>
+            <SelectTrigger className="w-36 h-8 text-xs">
+              <SelectValue placeholder="Cluster" />
+            </SelectTrigger>
+            <SelectContent>
+              {teams.map(teamId => (
+                <SelectItem key={teamId} value={teamId}>{teamId}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
 
       <div className="space-y-4">
+        {alerts.length === 0 && (
+          <p className="text-sm text-muted-foreground">No open entropy alerts in the last 7 days.</p>
+        )}
         {alerts.map((alert, index) => (
           <div 
             key={alert.id}
@@ -93,33 +206,109 @@ const EntropyMonitor = () => {
                 {alert.cluster} Cluster
               </Badge>
               <div className="flex items-center gap-1">
-                <div className={`h-2 w-2 rounded-full animate-pulse ${
+                <div className={`h-2 w-2 rounded-full ${alert.state === "new" ? "animate-pulse" : ""} ${
                   alert.severity === "high" ? "bg-destructive" :
                   alert.severity === "medium" ? "bg-warning" : "bg-secondary"
                 }`} />
-                <span className="text-xs text-muted-foreground">Active</span>
+                <span className="text-xs text-muted-foreground">{ALERT_STATES[alert.state]}</span>
               </div>
             </div>
           </div>
         ))}
       </div>
 
+      <div className="mt-6">
+        <div className="flex items-center justify-between mb-3">
+          <span className="text-sm font-medium text-foreground">Team Emotion Distribution</span>
+        </div>
+
+        {distribution ? (
+          <div className="space-y-2">
+            {EMOTIONS.map(emotion => (
+              <div key={emotion} className="flex items-center gap-3">
+                <span className="w-24 text-xs text-muted-foreground">{EMOTION_LABELS[emotion].label}</span>
+                <div className="flex-1 bg-muted/30 rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full ${EMOTION_COLORS[emotion]}`}
+                    style={{ width: `${Math.min(100, distribution.mean[emotion] * 100)}%` }}
+                  />
+                </div>
+                <span className="w-20 text-right text-xs text-muted-foreground">
+                  {(distribution.prevalence[emotion] * 100).toFixed(0)}% of msgs
+                </span>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2 pt-2">
+              {distribution.dominant && (
+                <Badge variant="outline" className="text-xs">
+                  Dominant: {EMOTION_LABELS[distribution.dominant].label}
+                </Badge>
+              )}
+              <Badge variant="outline" className="text-xs">Stability {distribution.stability.toFixed(0)}</Badge>
+              <Badge variant="outline" className="text-xs">Spread {distribution.spread.toFixed(0)}</Badge>
+              <Badge variant="outline" className="text-xs">{distribution.messageCount} messages</Badge>
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            No classified messages yet. Emotion distributions appear after the next drift analysis.
+          </p>
+        )}
+      </div>
+
       <div className="mt-6">
         <div className="flex items-center justify-between mb-3">
           <span className="text-sm font-medium text-foreground">Fragmentation Index</span>
-          <span className="text-lg font-bold text-warning">2.34</span>
+          <span className={`text-lg font-bold ${fragmentation ? BAND_STYLES[fragmentationBand(fragmentation.value)] : 'text-muted-foreground'}`}>
+            {fragmentation ? fragmentation.value.toFixed(2) : '—'}
+          </span>
         </div>
         <div className="relative w-full bg-muted/30 rounded-full h-3">
           <div 
             className="absolute inset-0 bg-gradient-to-r from-success via-warning to-destructive rounded-full"
-            style={{ width: '70%' }}
+            style={{ width: `${fragmentationPercent}%` }}
           />
-          <div className="absolute right-[30%] top-0 h-3 w-1 bg-foreground rounded-full" />
+          {fragmentation && (
+            <div
+              className="absolute top-0 h-3 w-1 bg-foreground rounded-full"
+              style={{ left: `calc(${fragmentationPercent}% - 2px)` }}
+            />
+          )}
         </div>
         <div className="flex justify-between text-xs text-muted-foreground mt-1">
           <span>Stable</span>
           <span>Critical</span>
         </div>
+
+        {fragmentationHistory.length > 1 && (
+          <ChartContainer config={historyChartConfig} className="aspect-auto h-[60px] w-full mt-3">
+            <LineChart data={fragmentationHistory} margin={{ top: 4, right: 4, bottom: 4, left: 4 }}>
+              <YAxis hide domain={[0, FRAGMENTATION_SCALE]} />
+              <Line dataKey="value" type="monotone" stroke="var(--color-value)" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ChartContainer>
+        )}
+
+        <Collapsible className="mt-3">
+          <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+            <Info className="h-3 w-3" />
+            How is this computed?
+          </CollapsibleTrigger>
+          <CollapsibleContent className="mt-2 p-3 rounded-lg bg-card/40 border border-border/50 space-y-2">
+            <p className="text-xs font-mono text-foreground">{FRAGMENTATION_FORMULA}</p>
+            {(Object.keys(FRAGMENTATION_COMPONENT_LABELS) as (keyof FragmentationComponents)[]).map(key => (
+              <p key={key} className="text-xs text-muted-foreground">
+                <span className="text-foreground">{FRAGMENTATION_COMPONENT_LABELS[key].label}</span>
+                {fragmentation && ` = ${fragmentation.components[key].toFixed(2)}`}: {FRAGMENTATION_COMPONENT_LABELS[key].definition}
+              </p>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Computed per cluster over the baseline window. Below {FRAGMENTATION_BANDS.stable} is stable,
+              below {FRAGMENTATION_BANDS.elevated} elevated, otherwise critical.
+              {fragmentation && ` Latest: ${fragmentation.userCount} members, ${fragmentation.messageCount} messages, ${new Date(fragmentation.computedAt).toLocaleString()}.`}
+            </p>
+          </CollapsibleContent>
+        </Collapsible>
       </div>
     </Card>
   );
@@ -0,0 +1,157 @@
+import { useState, useEffect } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Microscope } from "lucide-react";
+import type { AnalysisResult } from "@/lib/nlp-engine";
+import { EVIDENCE_CATEGORIES, type EvidenceCategory, type EvidenceSpan } from "@/lib/analysis-evidence";
+
+interface EvidenceDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  text: string | null;
+  // The stored analysis of text, with the evidence collected when it was analyzed
+  analysis: AnalysisResult | null;
+  title?: string;
+  focusMetric?: string;
+}
+
+const CATEGORY_STYLES: Record<EvidenceCategory, string> = {
+  metaphor: 'bg-primary/30 rounded-sm',
+  individualPronouns: 'bg-warning/30 rounded-sm',
+  collectivePronouns: 'bg-success/30 rounded-sm',
+  modal: 'bg-secondary/30 rounded-sm',
+  negative: 'bg-destructive/30 rounded-sm',
+  passive: 'bg-accent/30 rounded-sm',
+  hedge: 'underline decoration-warning underline-offset-4',
+  nominalization: 'italic',
+  intensifier: 'font-semibold',
+  symbol: 'underline decoration-dotted decoration-primary underline-offset-4',
+  sentiment: 'underline decoration-wavy decoration-destructive underline-offset-4'
+};
+
+interface Segment {
+  text: string;
+  categories: EvidenceCategory[];
+}
+
+/**
+ * Split text at every span boundary so overlapping spans can be styled together.
+ */
+const toSegments = (text: string, spans: EvidenceSpan[]): Segment[] => {
+  const boundaries = Array.from(new Set([0, text.length, ...spans.flatMap(s => [s.start, s.end])]))
+    .filter(offset => offset >= 0 && offset <= text.length)
+    .sort((a, b) => a - b);
+
+  return boundaries.slice(0, -1).map((start, i) => {
+    const end = boundaries[i + 1];
+    return {
+      text: text.slice(start, end),
+      categories: spans.filter(s => s.start <= start && s.end >= end).map(s => s.category)
+    };
+  });
+};
+
+const EvidenceDrawer = ({ open, onOpenChange, text, analysis, title, focusMetric }: EvidenceDrawerProps) => {
+  const [activeMetric, setActiveMetric] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) setActiveMetric(focusMetric ?? null);
+  }, [open, analysis, focusMetric]);
+
+  const evidence = analysis?.evidence;
+  const activeExplanation = evidence?.explanations.find(e => e.metric === activeMetric);
+  const activeCategories = activeExplanation
+    ? activeExplanation.categories
+    : (Object.keys(EVIDENCE_CATEGORIES) as EvidenceCategory[]);
+  const visibleSpans = evidence?.spans.filter(span => activeCategories.includes(span.category)) ?? [];
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Microscope className="h-5 w-5 text-primary" />
+            {title || 'Analysis Evidence'}
+          </SheetTitle>
+          <SheetDescription>
+            Tokens and sentences behind each metric. Select a metric to highlight its evidence.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-8rem)] pr-4 mt-4">
+          {text && !evidence && (
+            <p className="text-sm text-muted-foreground">No evidence was recorded when this message was analyzed.</p>
+          )}
+
+          {text && evidence && (
+            <div className="space-y-6">
+              <div className="p-4 rounded-lg bg-card/40 border border-border/50">
+                <p className="text-sm text-foreground leading-7 whitespace-pre-wrap">
+                  {toSegments(text, visibleSpans).map((segment, i) => (
+                    <span
+                      key={i}
+                      title={segment.categories.map(c => EVIDENCE_CATEGORIES[c]).join(', ') || undefined}
+                      className={segment.categories.map(c => CATEGORY_STYLES[c]).join(' ')}
+                    >
+                      {segment.text}
+                    </span>
+                  ))}
+                </p>
+                <div className="flex flex-wrap gap-2 mt-4">
+                  {activeCategories.map(category => (
+                    <span key={category} className={`text-xs px-1 ${CATEGORY_STYLES[category]}`}>
+                      {EVIDENCE_CATEGORIES[category]}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {evidence.explanations.map(explanation => (
+                  <button
+                    key={explanation.metric}
+                    type="button"
+                    onClick={() => setActiveMetric(activeMetric === explanation.metric ? null : explanation.metric)}
+                    className={`w-full text-left p-3 rounded-lg border transition-all duration-300 ${
+                      activeExplanation === explanation
+                        ? 'bg-primary/10 border-primary/30'
+                        : 'bg-card/40 border-border/50 hover:bg-card/60'
+                    }`}
+                  >
+                    <span className="text-sm font-medium text-foreground">{explanation.label}</span>
+                    <p className="text-xs text-muted-foreground mt-1">{explanation.summary}</p>
+                  </button>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-foreground">Sentences</h4>
+                {evidence.sentences.map(sentence => (
+                  <div key={sentence.start} className="p-3 rounded-lg bg-card/40 border border-border/50">
+                    <p className="text-xs text-foreground mb-2">{sentence.text}</p>
+                    <div className="flex flex-wrap gap-2">
+                      <Badge variant="outline" className="text-xs">{sentence.wordCount} words</Badge>
+                      {sentence.symbol && (
+                        <Badge variant="outline" className="text-xs">
+                          {sentence.symbol.closest} · {sentence.symbol.score.toFixed(1)}
+                        </Badge>
+                      )}
+                      {sentence.sentiment && (
+                        <Badge variant={sentence.sentiment.label === 'NEGATIVE' ? 'destructive' : 'secondary'} className="text-xs">
+                          {sentence.sentiment.label.toLowerCase()} {(sentence.sentiment.score * 100).toFixed(0)}%
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default EvidenceDrawer;
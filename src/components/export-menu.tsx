@@ -0,0 +1,45 @@
+import { Fragment } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+import { downloadDataset, EXPORT_FORMATS, type ExportDataset, type ExportFormat } from "@/lib/export-service";
+
+export interface PanelExport {
+  title: string;
+  // Built on demand so the export reflects the panel's state when chosen
+  build: () => ExportDataset;
+}
+
+const ExportMenu = ({ exports }: { exports: PanelExport[] }) => {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" aria-label="Export" className="print:hidden">
+          <Download className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {exports.map(({ title, build }, index) => (
+          <Fragment key={title}>
+            {index > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel className="text-xs">{title}</DropdownMenuLabel>
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+              <DropdownMenuItem key={format} className="text-xs" onClick={() => downloadDataset(build(), format)}>
+                Export {EXPORT_FORMATS[format].label}
+              </DropdownMenuItem>
+            ))}
+          </Fragment>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,268 @@
+import { useState, useEffect, useRef } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BookOpen, Download, Upload, Plus, Users } from "lucide-react";
+import {
+  lexiconRegistry,
+  LEXICON_CATEGORIES,
+  DEFAULT_LEXICON_ID,
+  type Lexicon,
+  type LexiconCategory,
+  type LexiconWordLists
+} from "@/lib/lexicon-registry";
+import { SUPPORTED_LANGUAGES, DEFAULT_LANGUAGE, type LanguageCode } from "@/lib/language-detector";
+import { downloadFile } from "@/lib/export-service";
+import { useToast } from "@/hooks/use-toast";
+
+const CATEGORY_LABELS: Record<LexiconCategory, string> = {
+  metaphor: 'Metaphor Words',
+  individualPronouns: 'Individual Pronouns',
+  collectivePronouns: 'Collective Pronouns',
+  modal: 'Modal Words',
+  negative: 'Negativity Words'
+};
+
+const LexiconManager = () => {
+  const [lexicons, setLexicons] = useState<Lexicon[]>([]);
+  const [selectedId, setSelectedId] = useState(DEFAULT_LEXICON_ID);
+  const [name, setName] = useState('');
+  const [language, setLanguage] = useState<LanguageCode>(DEFAULT_LANGUAGE);
+  const [draft, setDraft] = useState<Record<LexiconCategory, string>>({
+    metaphor: '',
+    individualPronouns: '',
+    collectivePronouns: '',
+    modal: '',
+    negative: ''
+  });
+  const [assignments, setAssignments] = useState<Record<string, string>>({});
+  const [teamId, setTeamId] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  useEffect(() => {
+    loadDraft(selectedId);
+  }, [selectedId]);
+
+  const refresh = () => {
+    setLexicons(lexiconRegistry.listLexicons());
+    setAssignments(lexiconRegistry.getAssignments());
+  };
+
+  const loadDraft = (id: string) => {
+    const lexicon = lexiconRegistry.getLexicon(id);
+    if (!lexicon) return;
+
+    setName(lexicon.name);
+    setLanguage(lexicon.language);
+    setDraft({
+      metaphor: lexicon.words.metaphor.join(', '),
+      individualPronouns: lexicon.words.individualPronouns.join(', '),
+      collectivePronouns: lexicon.words.collectivePronouns.join(', '),
+      modal: lexicon.words.modal.join(', '),
+      negative: lexicon.words.negative.join(', ')
+    });
+  };
+
+  const parseDraft = (): LexiconWordLists => {
+    const split = (value: string) => value.split(/[,\n]/).map(w => w.trim()).filter(w => w.length > 0);
+    return {
+      metaphor: split(draft.metaphor),
+      individualPronouns: split(draft.individualPronouns),
+      collectivePronouns: split(draft.collectivePronouns),
+      modal: split(draft.modal),
+      negative: split(draft.negative)
+    };
+  };
+
+  const saveLexicon = () => {
+    const lexicon = lexiconRegistry.saveLexicon(selectedId, name || selectedId, parseDraft(), language);
+    refresh();
+    toast({
+      title: "Lexicon Saved",
+      description: `${lexicon.name} saved as version ${lexicon.version}`,
+    });
+  };
+
+  const createLexicon = () => {
+    const id = `lexicon_${Date.now()}`;
+    lexiconRegistry.saveLexicon(id, 'New Lexicon', parseDraft(), language);
+    refresh();
+    setSelectedId(id);
+  };
+
+  const exportLexicon = () => {
+    downloadFile(lexiconRegistry.exportLexicon(selectedId), 'application/json', `${selectedId}.lexicon.json`);
+  };
+
+  const importLexicon = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const lexicon = lexiconRegistry.importLexicon(await file.text());
+      refresh();
+      setSelectedId(lexicon.id);
+      loadDraft(lexicon.id);
+      toast({
+        title: "Lexicon Imported",
+        description: `${lexicon.name} imported as version ${lexicon.version}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : 'Could not read lexicon file',
+        variant: "destructive"
+      });
+    } finally {
+      event.target.value = '';
+    }
+  };
+
+  const assignTeam = () => {
+    if (!teamId.trim()) return;
+    lexiconRegistry.assignToTeam(teamId.trim(), selectedId);
+    setTeamId('');
+    refresh();
+  };
+
+  const selected = lexicons.find(l => l.id === selectedId);
+
+  return (
+    <Card className="p-6 bg-gradient-coherence border-muted shadow-neural">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/20">
+            <BookOpen className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Lexicon Registry</h3>
+            <p className="text-sm text-muted-foreground">Word lists driving linguistic metrics per team</p>
+          </div>
+        </div>
+        {selected && (
+          <Badge variant="outline" className="text-xs">
+            v{selected.version}
+          </Badge>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <Select value={selectedId} onValueChange={setSelectedId}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Select lexicon" />
+          </SelectTrigger>
+          <SelectContent>
+            {lexicons.map(lexicon => (
+              <SelectItem key={lexicon.id} value={lexicon.id}>
+                {lexicon.name} · {lexicon.language.toUpperCase()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={createLexicon}>
+          <Plus className="h-4 w-4 mr-2" />
+          New
+        </Button>
+        <Button variant="outline" size="sm" onClick={exportLexicon}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json"
+          className="hidden"
+          onChange={importLexicon}
+        />
+      </div>
+
+      <div className="space-y-4 p-4 rounded-lg bg-card/40 border border-border/50">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="lexicon-name">Name</Label>
+            <Input
+              id="lexicon-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="lexicon-language">Language</Label>
+            <Select value={language} onValueChange={(value) => setLanguage(value as LanguageCode)}>
+              <SelectTrigger id="lexicon-language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.entries(SUPPORTED_LANGUAGES) as [LanguageCode, string][]).map(([code, label]) => (
+                  <SelectItem key={code} value={code}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {LEXICON_CATEGORIES.map(category => (
+          <div key={category} className="space-y-2">
+            <Label htmlFor={`lexicon-${category}`}>{CATEGORY_LABELS[category]}</Label>
+            <Textarea
+              id={`lexicon-${category}`}
+              value={draft[category]}
+              onChange={(e) => setDraft(prev => ({ ...prev, [category]: e.target.value }))}
+              className="min-h-[60px]"
+            />
+          </div>
+        ))}
+
+        <Button onClick={saveLexicon}>
+          Save New Version
+        </Button>
+      </div>
+
+      <div className="mt-6 p-4 rounded-lg bg-primary/5 border border-primary/20">
+        <div className="flex items-center gap-2 mb-3">
+          <Users className="h-4 w-4 text-primary" />
+          <span className="text-sm font-medium text-primary">Team Assignments</span>
+        </div>
+        <div className="flex gap-2 mb-3">
+          <Input
+            placeholder="Team id (e.g. engineering)"
+            value={teamId}
+            onChange={(e) => setTeamId(e.target.value)}
+          />
+          <Button variant="secondary" onClick={assignTeam}>
+            Assign Selected
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(assignments).map(([key, lexiconId]) => (
+            <Badge key={key} variant="outline" className="text-xs">
+              {key} → {lexicons.find(l => l.id === lexiconId)?.name || lexiconId}
+            </Badge>
+          ))}
+          {Object.keys(assignments).length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              All teams use the built-in lexicon for each language.
+            </p>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default LexiconManager;
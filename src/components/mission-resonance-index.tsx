@@ -5,8 +5,12 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Target, TrendingDown, TrendingUp, AlertCircle, Edit3 } from "lucide-react";
-import { nlpEngine } from "@/lib/nlp-engine";
+import { nlpEngine, type MissionAlert } from "@/lib/nlp-engine";
 import { dataIntegrationManager } from "@/lib/data-integrations";
+import { alertStore, missionToAlert } from "@/lib/alert-store";
+import { notificationDispatcher } from "@/lib/notification-dispatcher";
+import { createDataset, MISSION_ALERTS_EXPORT, MISSION_RESONANCE_EXPORT } from "@/lib/export-service";
+import ExportMenu from "@/components/export-menu";
 
 interface ResonanceScore {
   teamId: string;
@@ -18,16 +22,6 @@ interface ResonanceScore {
   status: 'aligned' | 'drifting' | 'critical';
 }
 
-interface MissionAlert {
-  teamId: string;
-  teamName: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  message: string;
-  score: number;
-  threshold: number;
-  timestamp: string;
-}
-
 const MissionResonanceIndex = () => {
   const [missionStatement, setMissionStatement] = useState('');
   const [resonanceScores, setResonanceScores] = useState<ResonanceScore[]>([]);
@@ -38,7 +32,7 @@ const MissionResonanceIndex = () => {
 
   useEffect(() => {
     // Load saved mission statement
-    const savedMission = localStorage.getItem('signalvault_mission');
+    const savedMission = nlpEngine.getMissionStatement();
     if (savedMission) {
       setMissionStatement(savedMission);
       analyzeMissionResonance(savedMission);
@@ -60,7 +54,7 @@ const MissionResonanceIndex = () => {
   }, []);
 
   const saveMissionStatement = () => {
-    localStorage.setItem('signalvault_mission', missionStatement);
+    nlpEngine.setMissionStatement(missionStatement);
     setIsEditingMission(false);
     analyzeMissionResonance(missionStatement);
   };
@@ -89,17 +83,14 @@ const MissionResonanceIndex = () => {
       for (const [teamId, messages] of Object.entries(messagesByTeam)) {
         if (messages.length === 0) continue;
 
-        // Combine recent messages for team analysis
-        const teamText = messages
-          .slice(0, 10) // Analyze last 10 messages
-          .map(m => m.text)
-          .join(' ');
-
-        // Calculate mission resonance
-        const resonanceScore = await nlpEngine.calculateMissionResonance(teamText, mission);
+        // Score the last 10 messages individually, like the baseline samples
+        const recentTexts = messages.slice(0, 10).map(m => m.text);
+        const resonanceScore = await nlpEngine.calculateMeanMissionResonance(recentTexts, mission);
+        if (resonanceScore === null) continue;
         
-        // Simulate historical data for trend analysis
-        const historicalScore = resonanceScore + (Math.random() - 0.5) * 10;
+        // Compare with the team's own resonance history
+        const history = await nlpEngine.getRollingBaseline(teamId);
+        const historicalScore = history.metrics.missionResonance?.count ? history.metrics.missionResonance.mean : resonanceScore;
         const deviation = Math.abs(resonanceScore - 75); // 75% is ideal baseline
         
         const trend: 'up' | 'down' | 'stable' = 
@@ -152,6 +143,13 @@ const MissionResonanceIndex = () => {
       }));
       setOverallMRI(avgScore);
 
+      // Track mission alerts alongside drift alerts and notify webhooks of new or escalated ones
+      const { opened, escalated } = await alertStore.record(alerts.map(missionToAlert));
+      const notifyTeams = new Set([...opened, ...escalated].map(alert => alert.cluster));
+      notificationDispatcher.dispatch(
+        alerts.filter(alert => notifyTeams.has(alert.teamId)).map(alert => ({ kind: 'mission', alert }))
+      ).catch(error => console.error('Error dispatching mission notifications:', error));
+
     } catch (error) {
       console.error('Error analyzing mission resonance:', error);
     } finally {
@@ -206,6 +204,8 @@ const MissionResonanceIndex = () => {
     }
   };
 
+  const exportFilters = () => ({ mission: nlpEngine.getMissionStatement() || missionStatement });
+
   return (
     <Card className="p-6 bg-gradient-coherence border-muted shadow-neural">
       <div className="flex items-center justify-between mb-6">
@@ -229,6 +229,10 @@ const MissionResonanceIndex = () => {
           >
             <Edit3 className="h-4 w-4" />
           </Button>
+          <ExportMenu exports={[
+            { title: 'Team resonance', build: () => createDataset(MISSION_RESONANCE_EXPORT, resonanceScores, exportFilters()) },
+            { title: 'Mission alerts', build: () => createDataset(MISSION_ALERTS_EXPORT, missionAlerts, exportFilters()) }
+          ]} />
         </div>
       </div>
 
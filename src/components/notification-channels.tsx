@@ -0,0 +1,309 @@
+import { useState, useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Webhook, Plus, Trash2, Send } from "lucide-react";
+import {
+  notificationDispatcher,
+  NOTIFICATION_SEVERITIES,
+  SIGNATURE_HEADER,
+  WEBHOOK_FORMATS,
+  type DeliveryRecord,
+  type WebhookChannel,
+  type WebhookFormat
+} from "@/lib/notification-dispatcher";
+import { DIGEST_PERIODS, type DigestPeriod } from "@/lib/digest-report";
+import type { DriftAlert } from "@/lib/nlp-engine";
+import { useToast } from "@/hooks/use-toast";
+
+type ChannelDraft = Omit<WebhookChannel, 'secret' | 'createdAt' | 'updatedAt'> & { secret: string };
+
+const NO_DIGEST = "none";
+
+const toDraft = (channel: WebhookChannel): ChannelDraft => ({ ...channel, secret: channel.secret ?? '' });
+
+const emptyDraft = (): ChannelDraft => ({
+  id: `webhook_${Date.now()}`,
+  name: 'New Webhook',
+  url: '',
+  format: 'generic',
+  enabled: true,
+  minSeverity: 'high',
+  secret: ''
+});
+
+const NotificationChannels = () => {
+  const [channels, setChannels] = useState<WebhookChannel[]>([]);
+  const [deliveries, setDeliveries] = useState<DeliveryRecord[]>([]);
+  const [draft, setDraft] = useState<ChannelDraft | null>(null);
+  const [testing, setTesting] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const refresh = () => {
+    setChannels(notificationDispatcher.listChannels());
+    setDeliveries(notificationDispatcher.getDeliveryLog());
+  };
+
+  const updateDraft = (changes: Partial<ChannelDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const saveChannel = () => {
+    if (!draft) return;
+
+    try {
+      const channel = notificationDispatcher.saveChannel(draft);
+      refresh();
+      setDraft(toDraft(channel));
+      toast({
+        title: "Webhook Saved",
+        description: `${channel.name} will receive ${channel.minSeverity} and more severe alerts`,
+      });
+    } catch (error) {
+      toast({
+        title: "Invalid Webhook",
+        description: error instanceof Error ? error.message : 'Could not save webhook',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const toggleChannel = (channel: WebhookChannel, enabled: boolean) => {
+    notificationDispatcher.saveChannel({ ...channel, enabled });
+    refresh();
+  };
+
+  const deleteChannel = (id: string) => {
+    notificationDispatcher.deleteChannel(id);
+    if (draft?.id === id) setDraft(null);
+    refresh();
+  };
+
+  const testChannel = async (channel: WebhookChannel) => {
+    setTesting(channel.id);
+    try {
+      const record = await notificationDispatcher.testChannel(channel);
+      toast({
+        title: record.status === 'delivered' ? "Test Delivered" : "Test Failed",
+        description: record.status === 'delivered'
+          ? (record.statusCode
+            ? `${channel.name} responded with HTTP ${record.statusCode}`
+            : `Sent to ${channel.name}; check the channel for the message`)
+          : `${record.error} after ${record.attempts} attempt${record.attempts === 1 ? '' : 's'}`,
+        variant: record.status === 'delivered' ? undefined : "destructive"
+      });
+    } finally {
+      setTesting(null);
+      refresh();
+    }
+  };
+
+  const clearLog = () => {
+    notificationDispatcher.clearDeliveryLog();
+    refresh();
+  };
+
+  return (
+    <Card className="p-6 bg-gradient-neural border-muted shadow-neural">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/20">
+            <Webhook className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Alert Notifications</h3>
+            <p className="text-sm text-muted-foreground">Push new drift and mission alerts to webhooks</p>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setDraft(emptyDraft())}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Webhook
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          {channels.map(channel => (
+            <div
+              key={channel.id}
+              className={`flex items-center justify-between gap-3 p-3 rounded-lg border transition-all duration-300 cursor-pointer ${
+                draft?.id === channel.id ? 'bg-primary/10 border-primary/30' : 'bg-card/40 border-border/50 hover:bg-card/60'
+              }`}
+              onClick={() => setDraft(toDraft(channel))}
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{channel.name}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {WEBHOOK_FORMATS[channel.format].label} · {channel.minSeverity}+
+                  {channel.secret && WEBHOOK_FORMATS[channel.format].signed && ' · signed'}
+                  {channel.digest && ` · ${DIGEST_PERIODS[channel.digest].label.toLowerCase()} digest`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                <Button variant="ghost" size="sm" onClick={() => testChannel(channel)} disabled={testing === channel.id}>
+                  <Send className="h-4 w-4" />
+                </Button>
+                <Switch checked={channel.enabled} onCheckedChange={(checked) => toggleChannel(channel, checked)} />
+                <Button variant="ghost" size="sm" onClick={() => deleteChannel(channel.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          {channels.length === 0 && (
+            <p className="text-sm text-muted-foreground">No webhooks configured. Alerts stay in SignalVault.</p>
+          )}
+        </div>
+
+        {draft ? (
+          <div className="space-y-4 p-4 rounded-lg bg-card/40 border border-border/50">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-name">Name</Label>
+              <Input id="webhook-name" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">URL</Label>
+              <Input
+                id="webhook-url"
+                placeholder="https://hooks.example.com/signalvault"
+                value={draft.url}
+                onChange={(e) => updateDraft({ url: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="webhook-format">Format</Label>
+                <Select value={draft.format} onValueChange={(value) => updateDraft({ format: value as WebhookFormat })}>
+                  <SelectTrigger id="webhook-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(WEBHOOK_FORMATS) as WebhookFormat[]).map(format => (
+                      <SelectItem key={format} value={format}>{WEBHOOK_FORMATS[format].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="webhook-severity">Minimum Severity</Label>
+                <Select
+                  value={draft.minSeverity}
+                  onValueChange={(value) => updateDraft({ minSeverity: value as DriftAlert['severity'] })}
+                >
+                  <SelectTrigger id="webhook-severity">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {NOTIFICATION_SEVERITIES.map(severity => (
+                      <SelectItem key={severity} value={severity} className="capitalize">{severity}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="webhook-digest">Digest</Label>
+              <Select
+                value={draft.digest ?? NO_DIGEST}
+                onValueChange={(value) => updateDraft({ digest: value === NO_DIGEST ? undefined : value as DigestPeriod })}
+              >
+                <SelectTrigger id="webhook-digest">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_DIGEST}>No digest</SelectItem>
+                  {(Object.keys(DIGEST_PERIODS) as DigestPeriod[]).map(period => (
+                    <SelectItem key={period} value={period}>{DIGEST_PERIODS[period].label} digest</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {WEBHOOK_FORMATS[draft.format].signed ? (
+              <div className="space-y-2">
+                <Label htmlFor="webhook-secret">Signing Secret</Label>
+                <Input
+                  id="webhook-secret"
+                  type="password"
+                  placeholder="Unsigned"
+                  value={draft.secret}
+                  onChange={(e) => updateDraft({ secret: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {WEBHOOK_FORMATS[draft.format].description}. With a secret, requests carry an HMAC-SHA256 signature
+                  in the {SIGNATURE_HEADER} header. The endpoint must answer CORS preflights.
+                </p>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                {WEBHOOK_FORMATS[draft.format].description}. {WEBHOOK_FORMATS[draft.format].label} rejects
+                cross-origin preflights, so messages are sent unsigned and the browser cannot read the response:
+                a delivery is logged as sent once the request leaves, and a wrong URL only shows up as a missing message.
+              </p>
+            )}
+
+            <Button onClick={saveChannel}>
+              Save Webhook
+            </Button>
+          </div>
+        ) : (
+          <div className="p-4 rounded-lg bg-primary/5 border border-primary/20">
+            <p className="text-sm text-muted-foreground">
+              Select a webhook to edit it. Failed deliveries are retried with exponential backoff on
+              timeouts, rate limits and server errors. Generic JSON endpoints must accept cross-origin requests
+              from this app; Slack and Teams messages are sent without a preflight.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-6">
+        <div className="flex items-center justify-between mb-3">
+          <span className="text-sm font-medium text-foreground">Delivery Log</span>
+          {deliveries.length > 0 && (
+            <Button variant="ghost" size="sm" className="text-xs" onClick={clearLog}>
+              Clear
+            </Button>
+          )}
+        </div>
+        {deliveries.length > 0 ? (
+          <ScrollArea className="h-64 pr-4">
+            <div className="space-y-2">
+              {deliveries.map(delivery => (
+                <div key={delivery.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-card/40 border border-border/50">
+                  <div className="min-w-0">
+                    <p className="text-xs font-medium text-foreground truncate">{delivery.summary}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {delivery.channelName} · {new Date(delivery.timestamp).toLocaleString()} · {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  <Badge variant={delivery.status === 'delivered' ? 'secondary' : 'destructive'} className="text-xs shrink-0">
+                    {delivery.status === 'delivered'
+                      ? (delivery.statusCode ? `HTTP ${delivery.statusCode}` : 'Sent')
+                      : delivery.error}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        ) : (
+          <p className="text-xs text-muted-foreground">No deliveries yet.</p>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default NotificationChannels;
@@ -0,0 +1,67 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Printer } from "lucide-react";
+import { getReportFilters } from "@/lib/export-service";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * "Export PDF" for the dashboard: prints the page through the browser's print
+ * dialog, where it can be saved as PDF. The report header listing each
+ * panel's selected filters only appears on paper.
+ */
+const PrintReport = () => {
+  const [filters, setFilters] = useState(getReportFilters());
+  const [printedAt, setPrintedAt] = useState(new Date());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    // Browser print menus bypass the button, so refresh on every print
+    const refresh = () => {
+      setFilters(getReportFilters());
+      setPrintedAt(new Date());
+    };
+    window.addEventListener('beforeprint', refresh);
+    return () => window.removeEventListener('beforeprint', refresh);
+  }, []);
+
+  const exportPdf = () => {
+    toast({
+      title: "Export PDF",
+      description: "Choose \"Save as PDF\" as the destination in the print dialog",
+    });
+    // Let the toast render before the print dialog blocks the page
+    setTimeout(() => window.print(), 100);
+  };
+
+  return (
+    <>
+      <div className="flex justify-end print:hidden">
+        <Button variant="outline" size="sm" onClick={exportPdf}>
+          <Printer className="h-4 w-4 mr-2" />
+          Export PDF
+        </Button>
+      </div>
+
+      <div className="hidden print:block">
+        <h2 className="text-xl font-semibold">SignalVault Dashboard Report</h2>
+        <p className="text-sm text-muted-foreground mb-3">Generated {printedAt.toLocaleString()}</p>
+        {filters.length > 0 && (
+          <table className="text-xs border-collapse">
+            <tbody>
+              {filters.map(([panel, values]) => (
+                <tr key={panel}>
+                  <td className="pr-4 py-0.5 font-medium align-top">{panel}</td>
+                  <td className="py-0.5">
+                    {Object.entries(values).map(([name, value]) => `${name}: ${value}`).join(' · ')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default PrintReport;
@@ -1,89 +1,186 @@
+import { Fragment, useState, useEffect, useMemo } from "react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Thermometer, Users, Clock, Target } from "lucide-react";
+import BucketDetailDrawer from "@/components/bucket-detail-drawer";
+import ExportMenu from "@/components/export-menu";
+import { signalStore } from "@/lib/signal-store";
+import {
+  BUCKET_GRANULARITIES,
+  HEATMAP_METRICS,
+  bucketLabel,
+  bucketRange,
+  buildHeatmap,
+  heatmapBand,
+  recentBuckets,
+  type BucketGranularity,
+  type HeatmapCell,
+  type HeatmapMetric
+} from "@/lib/period-buckets";
+import { createDataset, setReportFilters, HEATMAP_EXPORT } from "@/lib/export-service";
 
-interface HeatmapCell {
-  cluster: string;
-  period: string;
-  coherence: number;
-  intensity: number;
-}
+const BAND_STYLES = {
+  high: "bg-success",
+  moderate: "bg-warning",
+  low: "bg-destructive"
+};
 
 const ResonanceHeatmap = () => {
-  const clusters = ["Executive", "Product", "Engineering", "Marketing", "Sales", "Operations"];
-  const timePeriods = ["Week 1", "Week 2", "Week 3", "Week 4"];
-  
-  // Generate sample heatmap data
-  const heatmapData: HeatmapCell[] = [];
-  clusters.forEach(cluster => {
-    timePeriods.forEach(period => {
-      heatmapData.push({
-        cluster,
-        period,
-        coherence: Math.floor(Math.random() * 40) + 60, // 60-100 range
-        intensity: Math.random()
-      });
+  const [metric, setMetric] = useState<HeatmapMetric>("coherence");
+  const [granularity, setGranularity] = useState<BucketGranularity>("week");
+  const [teams, setTeams] = useState<string[]>([]);
+  const [buckets, setBuckets] = useState<string[]>([]);
+  const [heatmapData, setHeatmapData] = useState<HeatmapCell[]>([]);
+  const [selectedCell, setSelectedCell] = useState<HeatmapCell | null>(null);
+
+  useEffect(() => {
+    const loadHeatmap = async () => {
+      try {
+        const periods = recentBuckets(granularity, BUCKET_GRANULARITIES[granularity].count);
+        const from = bucketRange(periods[0], granularity).from;
+        const teamIds = await signalStore.getTeamIds();
+        const analysesByTeam = Object.fromEntries(await Promise.all(
+          teamIds.map(async teamId => [teamId, await signalStore.getAnalyses(teamId, { from })] as const)
+        ));
+
+        setTeams(teamIds);
+        setBuckets(periods);
+        setHeatmapData(buildHeatmap(analysesByTeam, metric, periods, granularity));
+      } catch (error) {
+        console.error('Error loading resonance heatmap:', error);
+      }
+    };
+
+    loadHeatmap();
+    const interval = setInterval(loadHeatmap, 5 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [metric, granularity]);
+
+  useEffect(() => {
+    setReportFilters('Resonance Heatmap', {
+      Metric: HEATMAP_METRICS[metric].label,
+      Period: BUCKET_GRANULARITIES[granularity].label
     });
-  });
+  }, [metric, granularity]);
 
-  const getCoherenceColor = (coherence: number) => {
-    if (coherence >= 85) return "bg-success opacity-80";
-    if (coherence >= 70) return "bg-warning opacity-60";
-    return "bg-destructive opacity-70";
+  const selectedRange = useMemo(
+    () => (selectedCell ? bucketRange(selectedCell.bucket, granularity) : null),
+    [selectedCell, granularity]
+  );
+
+  const definition = HEATMAP_METRICS[metric];
+  const maxCount = Math.max(1, ...heatmapData.map(cell => cell.count));
+  const latestBucket = buckets[buckets.length - 1];
+  const activeTeams = heatmapData.filter(cell => cell.bucket === latestBucket && cell.count > 0).length;
+
+  const getCellColor = (cell?: HeatmapCell) => {
+    if (!cell || cell.value === null) return "bg-muted/30";
+    return BAND_STYLES[heatmapBand(cell.value, metric)];
   };
 
-  const getIntensityOpacity = (intensity: number) => {
-    return Math.max(0.3, intensity);
+  // More messages behind a cell make it more opaque
+  const getIntensityOpacity = (cell?: HeatmapCell) => {
+    if (!cell || cell.value === null) return 1;
+    return Math.max(0.3, cell.count / maxCount);
   };
 
+  const formatValue = (value: number) => `${value.toFixed(metric === "pronounRatio" ? 2 : 0)}${definition.unit}`;
+
+  const { high, moderate } = definition.bands;
+  const [better, worse] = definition.lowerIsBetter ? ["≤", ">"] : ["≥", "<"];
+
   return (
     <Card className="p-6 bg-gradient-coherence border-muted shadow-deep">
-      <div className="flex items-center gap-3 mb-6">
-        <div className="p-2 rounded-lg bg-secondary/20">
-          <Thermometer className="h-6 w-6 text-secondary" />
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-secondary/20">
+            <Thermometer className="h-6 w-6 text-secondary" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Resonance Heatmap</h3>
+            <p className="text-sm text-muted-foreground">{definition.label} across organizational clusters</p>
+          </div>
         </div>
-        <div>
-          <h3 className="text-lg font-semibold text-foreground">Resonance Heatmap</h3>
-          <p className="text-sm text-muted-foreground">Symbolic coherence across organizational clusters</p>
+        <div className="flex items-center gap-2">
+          <Select value={metric} onValueChange={(value) => setMetric(value as HeatmapMetric)}>
+            <SelectTrigger className="w-40 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(HEATMAP_METRICS) as HeatmapMetric[]).map(key => (
+                <SelectItem key={key} value={key}>{HEATMAP_METRICS[key].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={granularity} onValueChange={(value) => setGranularity(value as BucketGranularity)}>
+            <SelectTrigger className="w-28 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(BUCKET_GRANULARITIES) as BucketGranularity[]).map(key => (
+                <SelectItem key={key} value={key}>{BUCKET_GRANULARITIES[key].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ExportMenu exports={[{
+            title: definition.label,
+            build: () => createDataset(
+              HEATMAP_EXPORT,
+              heatmapData.map(cell => ({ ...cell, label: bucketLabel(cell.bucket, granularity) })),
+              { metric, granularity, unit: definition.unit }
+            )
+          }]} />
         </div>
       </div>
 
-      <div className="grid grid-cols-5 gap-1 mb-4">
-        <div></div>
-        {timePeriods.map(period => (
-          <div key={period} className="text-center text-xs font-medium text-muted-foreground p-2">
-            {period}
-          </div>
-        ))}
-        
-        {clusters.map(cluster => (
-          <>
-            <div key={cluster} className="text-xs font-medium text-foreground flex items-center p-2">
-              {cluster}
+      {teams.length === 0 ? (
+        <p className="text-sm text-muted-foreground mb-4">No stored analyses yet. Clusters appear after the first drift analysis.</p>
+      ) : (
+        <div
+          className="grid gap-1 mb-4"
+          style={{ gridTemplateColumns: `minmax(5rem, auto) repeat(${buckets.length}, minmax(0, 1fr))` }}
+        >
+          <div></div>
+          {buckets.map(bucket => (
+            <div key={bucket} className="text-center text-xs font-medium text-muted-foreground p-2">
+              {bucketLabel(bucket, granularity)}
             </div>
-            {timePeriods.map(period => {
-              const cell = heatmapData.find(d => d.cluster === cluster && d.period === period);
-              return (
-                <div 
-                  key={`${cluster}-${period}`}
-                  className={`aspect-square rounded-lg border border-border/30 flex items-center justify-center text-xs font-bold text-foreground hover:scale-105 transition-all duration-300 cursor-pointer ${getCoherenceColor(cell?.coherence || 0)}`}
-                  style={{ opacity: getIntensityOpacity(cell?.intensity || 0) }}
-                  title={`${cluster} - ${period}: ${cell?.coherence}% coherence`}
-                >
-                  {cell?.coherence}%
-                </div>
-              );
-            })}
-          </>
-        ))}
-      </div>
+          ))}
+
+          {teams.map(teamId => (
+            <Fragment key={teamId}>
+              <div className="text-xs font-medium text-foreground flex items-center p-2">
+                {teamId}
+              </div>
+              {buckets.map(bucket => {
+                const cell = heatmapData.find(d => d.teamId === teamId && d.bucket === bucket);
+                return (
+                  <button
+                    type="button"
+                    key={`${teamId}-${bucket}`}
+                    className={`aspect-square rounded-lg border border-border/30 flex items-center justify-center text-xs font-bold text-foreground hover:scale-105 transition-all duration-300 cursor-pointer ${getCellColor(cell)}`}
+                    style={{ opacity: getIntensityOpacity(cell) }}
+                    title={cell && cell.value !== null
+                      ? `${teamId} - ${bucket}: ${formatValue(cell.value)} ${definition.label.toLowerCase()} (${cell.count} messages)`
+                      : `${teamId} - ${bucket}: no data`}
+                    onClick={() => cell && setSelectedCell(cell)}
+                  >
+                    {cell && cell.value !== null ? formatValue(cell.value) : '–'}
+                  </button>
+                );
+              })}
+            </Fragment>
+          ))}
+        </div>
+      )}
 
       <div className="grid grid-cols-3 gap-4 mt-6">
         <div className="flex items-center gap-2">
           <Users className="h-4 w-4 text-primary" />
           <div>
             <p className="text-sm font-medium text-foreground">Active Clusters</p>
-            <p className="text-xs text-muted-foreground">6 of 8 monitored</p>
+            <p className="text-xs text-muted-foreground">{activeTeams} of {teams.length} monitored</p>
           </div>
         </div>
         
@@ -99,33 +196,42 @@ const ResonanceHeatmap = () => {
           <Target className="h-4 w-4 text-warning" />
           <div>
             <p className="text-sm font-medium text-foreground">Resolution</p>
-            <p className="text-xs text-muted-foreground">Team-level mapping</p>
+            <p className="text-xs text-muted-foreground">Team × {BUCKET_GRANULARITIES[granularity].label.toLowerCase()}</p>
           </div>
         </div>
       </div>
 
       <div className="mt-6 p-4 rounded-lg bg-card/30 border border-border/50">
         <div className="flex items-center justify-between mb-2">
-          <span className="text-sm font-medium text-foreground">Coherence Legend</span>
+          <span className="text-sm font-medium text-foreground">{definition.label} Legend</span>
           <Badge variant="outline" className="text-xs">Live Data</Badge>
         </div>
-        <div className="flex items-center gap-4 text-xs">
+        <div className="flex flex-wrap items-center gap-4 text-xs">
           <div className="flex items-center gap-2">
-            <div className="w-4 h-4 rounded bg-success opacity-80" />
-            <span className="text-muted-foreground">85%+ High Coherence</span>
+            <div className={`w-4 h-4 rounded ${BAND_STYLES.high}`} />
+            <span className="text-muted-foreground">{better} {high}{definition.unit} High</span>
           </div>
           <div className="flex items-center gap-2">
-            <div className="w-4 h-4 rounded bg-warning opacity-60" />
-            <span className="text-muted-foreground">70-84% Moderate</span>
+            <div className={`w-4 h-4 rounded ${BAND_STYLES.moderate}`} />
+            <span className="text-muted-foreground">{better} {moderate}{definition.unit} Moderate</span>
           </div>
           <div className="flex items-center gap-2">
-            <div className="w-4 h-4 rounded bg-destructive opacity-70" />
-            <span className="text-muted-foreground">Below 70% Critical</span>
+            <div className={`w-4 h-4 rounded ${BAND_STYLES.low}`} />
+            <span className="text-muted-foreground">{worse} {moderate}{definition.unit} Critical</span>
           </div>
+          <span className="text-muted-foreground">Opacity: message volume</span>
         </div>
       </div>
+
+      <BucketDetailDrawer
+        open={selectedCell !== null}
+        onOpenChange={(open) => !open && setSelectedCell(null)}
+        teamId={selectedCell?.teamId ?? null}
+        range={selectedRange}
+        title={selectedCell ? `${selectedCell.teamId} · ${selectedCell.bucket}` : ''}
+      />
     </Card>
   );
 };
 
-export default ResonanceHeatmap;
\ No newline at end of file
+export default ResonanceHeatmap;
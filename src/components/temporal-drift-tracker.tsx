@@ -1,142 +1,287 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Link } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { TrendingDown, TrendingUp, AlertTriangle, Clock, Target } from "lucide-react";
-import { nlpEngine, type DriftAlert } from "@/lib/nlp-engine";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { TrendingDown, TrendingUp, AlertTriangle, Clock, Target, Activity } from "lucide-react";
+import {
+  nlpEngine,
+  type AnalysisResult,
+  type ChangePointReport,
+  type DriftAlert,
+  type DriftEvidenceCandidate
+} from "@/lib/nlp-engine";
 import { dataIntegrationManager } from "@/lib/data-integrations";
+import { signalStore } from "@/lib/signal-store";
+import { alertStore, ALERT_STATES, dedupKey, isActive, type TrackedAlert } from "@/lib/alert-store";
+import { notificationDispatcher } from "@/lib/notification-dispatcher";
+import EvidenceDrawer from "@/components/evidence-drawer";
+import ExportMenu from "@/components/export-menu";
+import { createDataset, setReportFilters, DRIFT_ALERTS_EXPORT, DRIFT_METRICS_EXPORT } from "@/lib/export-service";
+import { DEFAULT_LANGUAGE, type LanguageCode } from "@/lib/language-detector";
+import {
+  BASELINE_WINDOWS,
+  DRIFT_METRICS,
+  MIN_BASELINE_SAMPLES,
+  zScore,
+  type BaselineWindow,
+  type DriftMetric as DriftMetricKey,
+  type RollingBaseline
+} from "@/lib/baseline-statistics";
+
+const TRACKED_METRICS: DriftMetricKey[] = [
+  'symbolAlignment',
+  'metaphorDensity',
+  'narrativeCoherence',
+  'discourseCoherence',
+  'modalCompression',
+  'emotionalStability'
+];
 
 interface DriftMetric {
+  key: DriftMetricKey;
   name: string;
   current: number;
   baseline: number;
+  range: [number, number] | null; // p10–p90 of the rolling baseline
   deviation: number;
+  zScore: number | null;
   trend: 'up' | 'down' | 'stable';
   severity: 'low' | 'medium' | 'high' | 'critical';
 }
 
+// Mean of each metric, ignoring analyses where the metric is unavailable
+const meanMetricValues = (analyses: AnalysisResult[]): Record<DriftMetricKey, number> =>
+  Object.fromEntries(
+    (Object.keys(DRIFT_METRICS) as DriftMetricKey[]).map(metric => {
+      const values = analyses.map(DRIFT_METRICS[metric].extract).filter(value => Number.isFinite(value));
+      return [metric, values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : NaN];
+    })
+  ) as Record<DriftMetricKey, number>;
+
+interface MessageSample {
+  text: string;
+  teamId: string;
+  analysis: AnalysisResult;
+}
+
+const SEVERITY_ORDER: DriftAlert['severity'][] = ['critical', 'high', 'medium'];
+
+const AlertStateLabel = ({ alert }: { alert?: TrackedAlert }) => alert ? (
+  <span className="text-xs text-muted-foreground">
+    {ALERT_STATES[alert.state]}
+    {alert.occurrences > 1 && ` · seen ${alert.occurrences}×`}
+  </span>
+) : null;
+
+const chartConfig = {
+  value: { label: 'Daily mean', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
 const TemporalDriftTracker = () => {
   const [driftMetrics, setDriftMetrics] = useState<DriftMetric[]>([]);
   const [alerts, setAlerts] = useState<DriftAlert[]>([]);
+  const [tracked, setTracked] = useState<Record<string, TrackedAlert>>({});
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<string>('');
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [windowDays, setWindowDays] = useState<BaselineWindow>(nlpEngine.getBaselineWindow());
+  const [baseline, setBaseline] = useState<RollingBaseline | null>(null);
+  const [changeReports, setChangeReports] = useState<Record<string, ChangePointReport>>({});
+  const [chartTeam, setChartTeam] = useState<string>('');
+  const [chartMetric, setChartMetric] = useState<DriftMetricKey>('symbolAlignment');
+  const [samples, setSamples] = useState<Map<string, MessageSample>>(new Map());
+  const [explaining, setExplaining] = useState<{ sample: MessageSample; metric?: DriftMetricKey } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  useEffect(() => {
-    analyzeTemporalDrift();
-    const interval = setInterval(analyzeTemporalDrift, 5 * 60 * 1000); // Every 5 minutes
-    return () => clearInterval(interval);
-  }, []);
+  const analyzeTemporalDrift = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-  const analyzeTemporalDrift = async () => {
     setIsAnalyzing(true);
     try {
       // Get recent messages from all integrated platforms
       const mockMessages = dataIntegrationManager.generateMockMessages(20);
       
-      // Analyze each message
-      const analyses = await Promise.all(
-        mockMessages.slice(0, 10).map(msg => nlpEngine.analyzeText(msg.text, msg.teamId))
-      );
-
-      // Calculate current averages
-      const currentMetrics = {
-        symbolAlignment: analyses.reduce((sum, a) => sum + a.symbolAlignment, 0) / analyses.length,
-        metaphorDensity: analyses.reduce((sum, a) => sum + a.metaphorDensity, 0) / analyses.length,
-        narrativeCoherence: analyses.reduce((sum, a) => sum + a.narrativeCoherence, 0) / analyses.length,
-        modalCompression: analyses.reduce((sum, a) => sum + a.modalCompression, 0) / analyses.length,
-        emotionalStability: analyses.reduce((sum, a) => sum + a.emotionalTone.stability, 0) / analyses.length
-      };
-
-      // Simulate baseline comparison (in real implementation, this would compare to stored baselines)
-      const baselines = {
-        symbolAlignment: 85,
-        metaphorDensity: 45,
-        narrativeCoherence: 78,
-        modalCompression: 62,
-        emotionalStability: 73
-      };
-
-      const metrics: DriftMetric[] = [
-        {
-          name: 'Symbolic Alignment',
-          current: currentMetrics.symbolAlignment,
-          baseline: baselines.symbolAlignment,
-          deviation: Math.abs(currentMetrics.symbolAlignment - baselines.symbolAlignment),
-          trend: currentMetrics.symbolAlignment > baselines.symbolAlignment ? 'up' : 'down',
-          severity: Math.abs(currentMetrics.symbolAlignment - baselines.symbolAlignment) > 20 ? 'high' : 
-                   Math.abs(currentMetrics.symbolAlignment - baselines.symbolAlignment) > 10 ? 'medium' : 'low'
-        },
-        {
-          name: 'Metaphor Density',
-          current: currentMetrics.metaphorDensity,
-          baseline: baselines.metaphorDensity,
-          deviation: Math.abs(currentMetrics.metaphorDensity - baselines.metaphorDensity),
-          trend: currentMetrics.metaphorDensity > baselines.metaphorDensity ? 'up' : 'down',
-          severity: Math.abs(currentMetrics.metaphorDensity - baselines.metaphorDensity) > 15 ? 'high' : 
-                   Math.abs(currentMetrics.metaphorDensity - baselines.metaphorDensity) > 8 ? 'medium' : 'low'
-        },
-        {
-          name: 'Narrative Coherence',
-          current: currentMetrics.narrativeCoherence,
-          baseline: baselines.narrativeCoherence,
-          deviation: Math.abs(currentMetrics.narrativeCoherence - baselines.narrativeCoherence),
-          trend: currentMetrics.narrativeCoherence > baselines.narrativeCoherence ? 'up' : 'down',
-          severity: Math.abs(currentMetrics.narrativeCoherence - baselines.narrativeCoherence) > 20 ? 'high' : 
-                   Math.abs(currentMetrics.narrativeCoherence - baselines.narrativeCoherence) > 12 ? 'medium' : 'low'
-        },
-        {
-          name: 'Modal Compression',
-          current: currentMetrics.modalCompression,
-          baseline: baselines.modalCompression,
-          deviation: Math.abs(currentMetrics.modalCompression - baselines.modalCompression),
-          trend: currentMetrics.modalCompression > baselines.modalCompression ? 'up' : 'down',
-          severity: Math.abs(currentMetrics.modalCompression - baselines.modalCompression) > 25 ? 'high' : 
-                   Math.abs(currentMetrics.modalCompression - baselines.modalCompression) > 15 ? 'medium' : 'low'
-        },
-        {
-          name: 'Emotional Stability',
-          current: currentMetrics.emotionalStability,
-          baseline: baselines.emotionalStability,
-          deviation: Math.abs(currentMetrics.emotionalStability - baselines.emotionalStability),
-          trend: currentMetrics.emotionalStability > baselines.emotionalStability ? 'up' : 'down',
-          severity: Math.abs(currentMetrics.emotionalStability - baselines.emotionalStability) > 20 ? 'high' : 
-                   Math.abs(currentMetrics.emotionalStability - baselines.emotionalStability) > 10 ? 'medium' : 'low'
-        }
-      ];
+      // Analyze messages off the main thread
+      // Threads are reconstructed from reply metadata; results come back oldest first.
+      // Evidence is stored with each analysis so the drawer explains the same numbers
+      const { messages: recentMessages, analyses } = await nlpEngine.analyzeConversations(mockMessages.slice(0, 10), {
+        evidence: true,
+        signal: controller.signal,
+        onProgress: (completed, total) => setProgress({ completed, total })
+      });
+      const messageTeams = new Map(recentMessages.map(message => [message.id, message.teamId]));
 
-      setDriftMetrics(metrics);
+      // Persist messages and their analyses for historical queries
+      await signalStore.saveMessages(recentMessages);
+      await signalStore.saveAnalyses(analyses.map((analysis, i) => ({
+        ...analysis,
+        id: `analysis_${recentMessages[i].id}`,
+        teamId: recentMessages[i].teamId,
+        messageId: recentMessages[i].id,
+        timestamp: recentMessages[i].timestamp
+      })));
 
-      // Generate drift alerts
-      const newAlerts: DriftAlert[] = [];
-      metrics.forEach(metric => {
-        if (metric.severity === 'high' || metric.severity === 'critical') {
-          newAlerts.push({
-            type: metric.name.toLowerCase().includes('symbol') ? 'symbolic_decay' : 
-                  metric.name.toLowerCase().includes('emotional') ? 'tone_collapse' : 'mission_drift',
-            severity: metric.severity as any,
-            message: `${metric.name} shows ${metric.deviation.toFixed(1)}% deviation from multi-week baseline`,
-            deviation: metric.deviation,
-            timestamp: new Date().toISOString(),
-            cluster: 'Organization'
-          });
-        }
+      // Compare the dominant language only; metrics are not comparable across languages
+      const languageCounts = analyses.reduce((acc, a) => {
+        acc[a.language] = (acc[a.language] || 0) + 1;
+        return acc;
+      }, {} as Partial<Record<LanguageCode, number>>);
+      const language = (Object.entries(languageCounts) as [LanguageCode, number][])
+        .sort((a, b) => b[1] - a[1])[0]?.[0] ?? DEFAULT_LANGUAGE;
+      const candidates: DriftEvidenceCandidate[] = analyses
+        .map((analysis, i) => ({ messageId: recentMessages[i].id, analysis }))
+        .filter(candidate => candidate.analysis.language === language);
+      const comparable = candidates.map(candidate => candidate.analysis);
+
+      const rolling = await nlpEngine.getRollingBaseline('organization', language, windowDays);
+      const hasBaseline = rolling.sampleSize >= MIN_BASELINE_SAMPLES;
+      setBaseline(rolling);
+
+      // Regime shifts per team over the last 90 days
+      const teamIds = await signalStore.getTeamIds();
+      const reports = Object.fromEntries(await Promise.all(
+        teamIds.map(async teamId => [teamId, await nlpEngine.detectChangePoints(teamId, language)] as const)
+      ));
+      setChangeReports(reports);
+      setChartTeam(current => (current && reports[current] ? current : teamIds[0] || ''));
+
+      const currentValues = meanMetricValues(comparable);
+
+      // Alerts come from the configured drift rules, organization-wide and per team
+      const orgAlerts = await nlpEngine.evaluateDriftRules('organization', currentValues, language, windowDays, candidates);
+      const byTeam = candidates.reduce((acc, candidate) => {
+        const teamId = messageTeams.get(candidate.messageId) || 'unknown';
+        acc[teamId] = [...(acc[teamId] || []), candidate];
+        return acc;
+      }, {} as Record<string, DriftEvidenceCandidate[]>);
+      const teamAlerts = (await Promise.all(
+        Object.entries(byTeam).map(([teamId, teamCandidates]) => nlpEngine.evaluateDriftRules(
+          teamId,
+          meanMetricValues(teamCandidates.map(candidate => candidate.analysis)),
+          language,
+          windowDays,
+          teamCandidates
+        ))
+      )).flat();
+
+      const metrics: DriftMetric[] = TRACKED_METRICS.map(metric => {
+        const current = currentValues[metric];
+        const stats = rolling.metrics[metric];
+        const z = hasBaseline && stats ? zScore(current, stats) : null;
+        const baselineMean = stats && hasBaseline ? stats.mean : current;
+        const metricAlerts = orgAlerts.filter(alert => alert.metric === metric);
+
+        return {
+          key: metric,
+          name: DRIFT_METRICS[metric].label,
+          current,
+          baseline: baselineMean,
+          range: hasBaseline && stats ? [stats.p10, stats.p90] : null,
+          deviation: Math.abs(current - baselineMean),
+          zScore: z,
+          trend: current > baselineMean ? 'up' : current < baselineMean ? 'down' : 'stable',
+          severity: SEVERITY_ORDER.find(level => metricAlerts.some(alert => alert.severity === level)) ?? 'low'
+        };
       });
 
-      setAlerts(newAlerts);
+      setDriftMetrics(metrics);
+
+      const changePointAlerts = Object.values(reports).flatMap(report => report.alerts);
+
+      const newAlerts = [...orgAlerts, ...teamAlerts];
+      setSamples(new Map(recentMessages.map((message, i) => [
+        message.id,
+        { text: message.text, teamId: message.teamId, analysis: analyses[i] }
+      ])));
+      await signalStore.saveAlerts([
+        ...newAlerts.map((alert, i) => ({
+          ...alert,
+          id: `alert_${alert.cluster}_${alert.ruleId}_${alert.timestamp}_${i}`
+        })),
+        // Keyed by onset so re-detecting the same shift updates rather than duplicates
+        ...changePointAlerts.map(alert => ({
+          ...alert,
+          id: `alert_${alert.cluster}_${alert.metric}_changepoint_${alert.onset}`
+        }))
+      ]);
+
+      // Repeats of an open alert are folded into it; acknowledged and snoozed ones keep their state
+      const { alerts: trackedAlerts, opened, escalated } = await alertStore.record([...newAlerts, ...changePointAlerts]);
+      setTracked(Object.fromEntries(trackedAlerts.map(alert => [alert.dedupKey, alert])));
+
+      // Push newly opened and escalated alerts to configured webhooks without holding up the analysis
+      notificationDispatcher.dispatch([...opened, ...escalated].map(alert => ({ kind: 'drift', alert })))
+        .catch(error => console.error('Error dispatching alert notifications:', error));
+      setAlerts([...newAlerts, ...changePointAlerts]);
       setLastUpdate(new Date().toLocaleTimeString());
 
-      // Save current analysis as part of temporal baseline
+      // Save current analysis as part of the organization and team baselines
       if (analyses.length > 0) {
         await nlpEngine.saveBaseline('organization', analyses);
+        for (const [teamId, teamCandidates] of Object.entries(byTeam)) {
+          await nlpEngine.saveBaseline(teamId, teamCandidates.map(candidate => candidate.analysis));
+          await nlpEngine.updateFragmentationIndex(teamId, windowDays);
+        }
       }
 
     } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
       console.error('Error analyzing temporal drift:', error);
     } finally {
-      setIsAnalyzing(false);
+      if (abortRef.current === controller) {
+        setIsAnalyzing(false);
+        setProgress(null);
+      }
     }
+  }, [windowDays]);
+
+  useEffect(() => {
+    analyzeTemporalDrift();
+    const interval = setInterval(analyzeTemporalDrift, 5 * 60 * 1000); // Every 5 minutes
+    return () => {
+      clearInterval(interval);
+      abortRef.current?.abort();
+    };
+  }, [analyzeTemporalDrift]);
+
+  useEffect(() => {
+    setReportFilters('Temporal Drift Tracker', {
+      'Baseline window': `${windowDays} days`,
+      ...(chartTeam && { 'Change-point timeline': `${chartTeam} · ${DRIFT_METRICS[chartMetric].label}` })
+    });
+  }, [windowDays, chartTeam, chartMetric]);
+
+  const changeWindow = (value: string) => {
+    const next = Number(value) as BaselineWindow;
+    nlpEngine.setBaselineWindow(next);
+    setWindowDays(next);
+  };
+
+  // Open the evidence drawer on the message furthest from the baseline for this metric
+  const explainMetric = (metric: DriftMetric) => {
+    const extract = DRIFT_METRICS[metric.key].extract;
+    const sample = Array.from(samples.values())
+      .filter(candidate => Number.isFinite(extract(candidate.analysis)))
+      .sort((a, b) => Math.abs(extract(b.analysis) - metric.baseline) - Math.abs(extract(a.analysis) - metric.baseline))[0];
+    if (sample) setExplaining({ sample, metric: metric.key });
   };
 
+  // One alert per tracked alert, hiding snoozed and closed ones
+  const activeAlerts = alerts.filter((alert, i) => {
+    const key = dedupKey(alert, 'drift');
+    const trackedAlert = tracked[key];
+    return (!trackedAlert || isActive(trackedAlert)) &&
+      alerts.findIndex(other => dedupKey(other, 'drift') === key) === i;
+  });
+
+  const exportFilters = () => ({ baselineWindow: `${windowDays} days`, lastUpdate });
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'critical': return 'destructive';
@@ -169,6 +314,18 @@ const TemporalDriftTracker = () => {
           </div>
         </div>
         <div className="flex items-center gap-2">
+          <Select value={String(windowDays)} onValueChange={changeWindow}>
+            <SelectTrigger className="h-8 w-[110px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BASELINE_WINDOWS.map(days => (
+                <SelectItem key={days} value={String(days)}>
+                  {days}-day baseline
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Badge variant="outline" className="text-xs">
             Last: {lastUpdate}
           </Badge>
@@ -178,8 +335,21 @@ const TemporalDriftTracker = () => {
             onClick={analyzeTemporalDrift}
             disabled={isAnalyzing}
           >
-            {isAnalyzing ? 'Analyzing...' : 'Refresh'}
+            {isAnalyzing ? 
+              (progress ? `Analyzing ${progress.completed}/${progress.total}...` : 'Analyzing...') : 
+              'Refresh'}
           </Button>
+          <ExportMenu exports={[
+            { title: 'Drift metrics', build: () => createDataset(DRIFT_METRICS_EXPORT, driftMetrics, exportFilters()) },
+            {
+              title: 'Drift alerts',
+              build: () => createDataset(
+                DRIFT_ALERTS_EXPORT,
+                activeAlerts.map(alert => ({ ...alert, state: tracked[dedupKey(alert, 'drift')]?.state })),
+                exportFilters()
+              )
+            }
+          ]} />
         </div>
       </div>
 
@@ -201,7 +371,9 @@ const TemporalDriftTracker = () => {
                 {metric.current.toFixed(1)}%
               </span>
               <span className="text-sm text-muted-foreground mb-1">
-                (±{metric.deviation.toFixed(1)})
+                {metric.zScore !== null ?
+                  `(${metric.zScore >= 0 ? '+' : ''}${metric.zScore.toFixed(1)}σ)` :
+                  `(±${metric.deviation.toFixed(1)})`}
               </span>
             </div>
 
@@ -210,6 +382,12 @@ const TemporalDriftTracker = () => {
                 <span className="text-muted-foreground">Baseline</span>
                 <span className="text-foreground">{metric.baseline.toFixed(1)}%</span>
               </div>
+              {metric.range && (
+                <div className="flex justify-between text-xs">
+                  <span className="text-muted-foreground">Normal range (p10–p90)</span>
+                  <span className="text-foreground">{metric.range[0].toFixed(1)}–{metric.range[1].toFixed(1)}%</span>
+                </div>
+              )}
               <div className="w-full bg-muted/30 rounded-full h-2">
                 <div 
                   className={`h-2 rounded-full transition-all duration-1000 ${
@@ -221,27 +399,98 @@ const TemporalDriftTracker = () => {
               </div>
             </div>
 
-            <Badge 
-              variant={getSeverityColor(metric.severity) as any} 
-              className="text-xs mt-2"
-            >
-              {metric.severity} deviation
-            </Badge>
+            <div className="flex items-center justify-between mt-2">
+              <Badge 
+                variant={getSeverityColor(metric.severity) as any} 
+                className="text-xs"
+              >
+                {metric.severity} deviation
+              </Badge>
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => explainMetric(metric)}>
+                Why?
+              </Button>
+            </div>
           </div>
         ))}
       </div>
 
+      {/* Change-Point Timeline */}
+      {chartTeam && changeReports[chartTeam] && (
+        <div className="mb-6 p-4 rounded-lg bg-card/40 border border-border/50">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <div className="flex items-center gap-2">
+              <Activity className="h-4 w-4 text-primary" />
+              <span className="text-sm font-medium text-foreground">Change-Point Timeline</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={chartTeam} onValueChange={setChartTeam}>
+                <SelectTrigger className="h-8 w-[140px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(changeReports).map(teamId => (
+                    <SelectItem key={teamId} value={teamId}>{teamId}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={chartMetric} onValueChange={(value) => setChartMetric(value as DriftMetricKey)}>
+                <SelectTrigger className="h-8 w-[170px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DRIFT_METRICS) as DriftMetricKey[]).map(metric => (
+                    <SelectItem key={metric} value={metric}>{DRIFT_METRICS[metric].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {changeReports[chartTeam].series[chartMetric].length > 1 ? (
+            <ChartContainer config={chartConfig} className="aspect-auto h-[200px] w-full">
+              <LineChart data={changeReports[chartTeam].series[chartMetric]} margin={{ top: 16, right: 8, left: -16 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={48} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line dataKey="value" type="monotone" stroke="var(--color-value)" strokeWidth={2} dot={false} />
+                {changeReports[chartTeam].changePoints
+                  .filter(point => point.metric === chartMetric)
+                  .map(point => (
+                    <ReferenceLine
+                      key={point.onset}
+                      x={point.onset}
+                      stroke="hsl(var(--destructive))"
+                      strokeDasharray="4 4"
+                      label={{ value: point.direction === 'increase' ? '▲' : '▼', position: 'top', fill: 'hsl(var(--destructive))' }}
+                    />
+                  ))}
+              </LineChart>
+            </ChartContainer>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Not enough daily history for {chartTeam} yet. Change points are detected once a week of data has been collected.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Active Alerts */}
-      {alerts.length > 0 && (
+      {activeAlerts.length > 0 && (
         <div className="space-y-3">
-          <div className="flex items-center gap-2 mb-3">
-            <AlertTriangle className="h-5 w-5 text-destructive" />
-            <h4 className="text-md font-semibold text-foreground">Active Drift Alerts</h4>
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              <h4 className="text-md font-semibold text-foreground">Active Drift Alerts</h4>
+            </div>
+            <Button variant="ghost" size="sm" className="text-xs" asChild>
+              <Link to="/alerts">Manage alerts</Link>
+            </Button>
           </div>
           
-          {alerts.map((alert, index) => (
+          {activeAlerts.map((alert) => (
             <div 
-              key={`${alert.type}_${alert.timestamp}`}
+              key={`${alert.cluster}_${alert.metric}_${alert.type}_${alert.timestamp}`}
               className="p-4 rounded-lg bg-destructive/10 border border-destructive/30 hover:bg-destructive/20 transition-all duration-300"
             >
               <div className="flex items-start justify-between mb-2">
@@ -250,6 +499,7 @@ const TemporalDriftTracker = () => {
                   <Badge variant="destructive" className="text-xs">
                     {alert.severity.toUpperCase()}
                   </Badge>
+                  <AlertStateLabel alert={tracked[dedupKey(alert, 'drift')]} />
                 </div>
                 <span className="text-xs text-muted-foreground">
                   {new Date(alert.timestamp).toLocaleTimeString()}
@@ -257,13 +507,35 @@ const TemporalDriftTracker = () => {
               </div>
               
               <p className="text-sm text-foreground mb-2">{alert.message}</p>
+
+              {alert.evidenceMessageIds && alert.evidenceMessageIds.length > 0 && (
+                <div className="space-y-1 mb-2">
+                  {alert.evidenceMessageIds
+                    .filter(id => samples.has(id))
+                    .map(id => (
+                      <button
+                        key={id}
+                        type="button"
+                        onClick={() => setExplaining({ sample: samples.get(id) as MessageSample, metric: alert.metric })}
+                        className="block w-full text-left text-xs text-muted-foreground italic border-l-2 border-destructive/40 pl-2 line-clamp-2 hover:text-foreground"
+                      >
+                        "{samples.get(id)?.text}"
+                      </button>
+                    ))}
+                </div>
+              )}
               
               <div className="flex items-center justify-between">
-                <Badge variant="outline" className="text-xs">
-                  {alert.cluster}
-                </Badge>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="text-xs">
+                    {alert.cluster}
+                  </Badge>
+                  {alert.onset && (
+                    <span className="text-xs text-muted-foreground">Onset: {alert.onset}</span>
+                  )}
+                </div>
                 <span className="text-xs text-destructive font-medium">
-                  Drift: {alert.deviation.toFixed(1)}%
+                  Deviation: {alert.deviation.toFixed(1)}
                 </span>
               </div>
             </div>
@@ -271,6 +543,15 @@ const TemporalDriftTracker = () => {
         </div>
       )}
 
+      <EvidenceDrawer
+        open={explaining !== null}
+        onOpenChange={(open) => !open && setExplaining(null)}
+        text={explaining?.sample.text ?? null}
+        analysis={explaining?.sample.analysis ?? null}
+        title={explaining?.metric ? `Why ${DRIFT_METRICS[explaining.metric].label}?` : undefined}
+        focusMetric={explaining?.metric}
+      />
+
       {/* Baseline Status */}
       <div className="mt-6 p-4 rounded-lg bg-primary/5 border border-primary/20">
         <div className="flex items-center gap-2 mb-2">
@@ -278,9 +559,12 @@ const TemporalDriftTracker = () => {
           <span className="text-sm font-medium text-primary">Temporal Baseline Status</span>
         </div>
         <p className="text-sm text-muted-foreground">
-          Tracking organizational symbolic patterns across {driftMetrics.length} linguistic dimensions. 
-          {alerts.length > 0 ? 
-            ` ${alerts.length} significant deviation${alerts.length === 1 ? '' : 's'} detected requiring attention.` :
+          Tracking organizational symbolic patterns across {driftMetrics.length} linguistic dimensions
+          against a {windowDays}-day rolling baseline of {baseline?.sampleSize ?? 0} messages.
+          {baseline && baseline.sampleSize < MIN_BASELINE_SAMPLES ?
+            ` Collecting history; deviations are reported once ${MIN_BASELINE_SAMPLES} messages are available.` :
+            activeAlerts.length > 0 ? 
+            ` ${activeAlerts.length} significant deviation${activeAlerts.length === 1 ? '' : 's'} detected requiring attention.` :
             ' All metrics within acceptable variance ranges.'
           }
         </p>
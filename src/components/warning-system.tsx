@@ -1,52 +1,77 @@
+import { useState, useEffect, useMemo } from "react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Shield, AlertTriangle, Clock, ArrowRight } from "lucide-react";
+import BucketDetailDrawer from "@/components/bucket-detail-drawer";
+import { nlpEngine } from "@/lib/nlp-engine";
+import { signalStore } from "@/lib/signal-store";
+import { FORECAST_HORIZON_DAYS, type Warning } from "@/lib/metric-forecasting";
+import { alertStore, ALERT_STATES, isActive, warningToAlert, type TrackedAlert } from "@/lib/alert-store";
+import { useToast } from "@/hooks/use-toast";
 
-interface Warning {
-  id: string;
-  title: string;
-  description: string;
-  severity: "critical" | "high" | "medium";
-  cluster: string;
-  predictedImpact: string;
-  timeToSurface: string;
-  confidence: number;
-}
+const SCAN_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_WARNINGS = 5;
+const INVESTIGATE_DAYS = 14;
+
+const SEVERITY_RANK: Record<Warning["severity"], number> = { critical: 0, high: 1, medium: 2 };
 
 const WarningSystem = () => {
-  const warnings: Warning[] = [
-    {
-      id: "1",
-      title: "Cultural Drift Detection",
-      description: "Mission alignment degradation detected in cross-functional communications. Linguistic markers suggest emerging value misalignment.",
-      severity: "critical",
-      cluster: "Product-Engineering Interface",
-      predictedImpact: "Sprint velocity decrease, decision paralysis",
-      timeToSurface: "5-7 days",
-      confidence: 94
-    },
-    {
-      id: "2", 
-      title: "Leadership Resonance Gap",
-      description: "Metaphorical language patterns diverging between executive and mid-management communications.",
-      severity: "high",
-      cluster: "Leadership Cascade",
-      predictedImpact: "Strategic message dilution",
-      timeToSurface: "2-3 weeks",
-      confidence: 87
-    },
-    {
-      id: "3",
-      title: "Emotional Entropy Spike",
-      description: "Sentiment variance increasing across customer-facing team communications.",
-      severity: "medium",
-      cluster: "Customer Success",
-      predictedImpact: "Customer experience inconsistency",
-      timeToSurface: "1-2 weeks",
-      confidence: 76
+  const [warnings, setWarnings] = useState<Warning[]>([]);
+  const [nextScanAt, setNextScanAt] = useState<Date | null>(null);
+  const [selectedWarning, setSelectedWarning] = useState<Warning | null>(null);
+  // Tracked forecast alert behind each warning, by warning id
+  const [tracked, setTracked] = useState<Record<string, TrackedAlert>>({});
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const scan = async () => {
+      try {
+        const teamIds = await signalStore.getTeamIds();
+        const forecasts = await Promise.all(teamIds.map(teamId => nlpEngine.forecastWarnings(teamId)));
+
+        const projected = forecasts.flat().sort((a, b) =>
+          SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || a.surfacesAt.localeCompare(b.surfacesAt)
+        );
+        const { alerts: trackedAlerts } = await alertStore.record(projected.map(warning => warningToAlert(warning)), 'forecast');
+
+        setTracked(Object.fromEntries(projected.map((warning, i) => [warning.id, trackedAlerts[i]])));
+        setWarnings(projected);
+      } catch (error) {
+        console.error('Error forecasting warnings:', error);
+      } finally {
+        setNextScanAt(new Date(Date.now() + SCAN_INTERVAL_MS));
+      }
+    };
+
+    scan();
+    const interval = setInterval(scan, SCAN_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const investigateRange = useMemo(() => {
+    if (!selectedWarning) return null;
+    const to = new Date();
+    return { from: new Date(to.getTime() - INVESTIGATE_DAYS * 24 * 60 * 60 * 1000).toISOString(), to: to.toISOString() };
+  }, [selectedWarning]);
+
+  // Snoozed and closed warnings stay out of the list until they reopen
+  const activeWarnings = warnings.filter(warning => !tracked[warning.id] || isActive(tracked[warning.id]));
+
+  const acknowledge = async (warning: Warning) => {
+    try {
+      const updated = await alertStore.transition(tracked[warning.id].id, 'acknowledged');
+      setTracked(prev => Object.fromEntries(
+        Object.entries(prev).map(([id, alert]) => [id, alert.id === updated.id ? updated : alert])
+      ));
+    } catch (error) {
+      toast({
+        title: "Could not acknowledge",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
     }
-  ];
+  };
 
   const getSeverityColor = (severity: string) => {
     switch (severity) {
@@ -76,7 +101,7 @@ const WarningSystem = () => {
       </div>
 
       <div className="space-y-4">
-        {warnings.map((warning, index) => (
+        {activeWarnings.slice(0, MAX_WARNINGS).map((warning, index) => (
           <div 
             key={warning.id}
             className="p-5 rounded-lg bg-card/40 border border-border/50 hover:bg-card/60 transition-all duration-500"
@@ -103,6 +128,7 @@ const WarningSystem = () => {
                   <span className="text-xs text-muted-foreground">Time to Surface</span>
                 </div>
                 <p className="text-sm font-medium text-foreground">{warning.timeToSurface}</p>
+                <p className="text-xs text-muted-foreground">Projected {new Date(`${warning.surfacesAt}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC' })}</p>
               </div>
 
               <div className="space-y-2">
@@ -124,9 +150,18 @@ const WarningSystem = () => {
                 </span>
               </div>
               
-              <Button variant="outline" size="sm" className="text-xs">
-                Investigate
-              </Button>
+              <div className="flex items-center gap-2">
+                {tracked[warning.id]?.state === "new" ? (
+                  <Button variant="ghost" size="sm" className="text-xs" onClick={() => acknowledge(warning)}>
+                    Acknowledge
+                  </Button>
+                ) : tracked[warning.id] && (
+                  <span className="text-xs text-muted-foreground">{ALERT_STATES[tracked[warning.id].state]}</span>
+                )}
+                <Button variant="outline" size="sm" className="text-xs" onClick={() => setSelectedWarning(warning)}>
+                  Investigate
+                </Button>
+              </div>
             </div>
 
             <div className="mt-3 w-full bg-muted/30 rounded-full h-1">
@@ -140,13 +175,21 @@ const WarningSystem = () => {
             </div>
           </div>
         ))}
+        {activeWarnings.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No threshold crossings projected in the next {FORECAST_HORIZON_DAYS} days
+          </p>
+        )}
       </div>
 
       <div className="mt-6 p-4 rounded-lg bg-primary/5 border border-primary/20">
         <div className="flex items-center justify-between">
           <div>
             <p className="text-sm font-medium text-primary">System Status</p>
-            <p className="text-xs text-muted-foreground">3 active warnings • Next scan in 47 seconds</p>
+            <p className="text-xs text-muted-foreground">
+              {activeWarnings.length} active warning{activeWarnings.length === 1 ? '' : 's'}
+              {nextScanAt && ` • Next scan at ${nextScanAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+            </p>
           </div>
           <div className="flex items-center gap-2">
             <div className="h-3 w-3 rounded-full bg-warning animate-pulse" />
@@ -154,6 +197,14 @@ const WarningSystem = () => {
           </div>
         </div>
       </div>
+
+      <BucketDetailDrawer
+        open={selectedWarning !== null}
+        onOpenChange={(open) => !open && setSelectedWarning(null)}
+        teamId={selectedWarning?.cluster ?? null}
+        range={investigateRange}
+        title={selectedWarning ? `${selectedWarning.title} · ${selectedWarning.cluster}` : ''}
+      />
     </Card>
   );
 };
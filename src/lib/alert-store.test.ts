@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { DriftAlert } from "./nlp-engine";
+import type { TrackedAlert } from "./alert-store";
+
+// Tracked alerts live in IndexedDB; an in-memory map stands in for it
+const tracked = vi.hoisted(() => new Map<string, TrackedAlert>());
+
+vi.mock("./signal-store", () => ({
+  signalStore: {
+    getTrackedAlert: async (id: string) => tracked.get(id),
+    getTrackedAlerts: async (teamId?: string) =>
+      Array.from(tracked.values()).filter(alert => !teamId || alert.cluster === teamId),
+    getTrackedAlertsByKey: async (key: string) =>
+      Array.from(tracked.values()).filter(alert => alert.dedupKey === key),
+    saveTrackedAlerts: async (alerts: TrackedAlert[]) => {
+      alerts.forEach(alert => tracked.set(alert.id, alert));
+    }
+  }
+}));
+
+import { AlertStore, dedupKey } from "./alert-store";
+
+// No actor configured in this browser
+vi.stubGlobal("localStorage", { getItem: () => null, setItem: () => undefined });
+
+const alert = (overrides: Partial<DriftAlert> = {}): DriftAlert => ({
+  type: 'tone_collapse',
+  severity: 'medium',
+  message: 'Emotional fragmentation spike',
+  deviation: 2.1,
+  timestamp: '2024-03-01T09:00:00.000Z',
+  cluster: 'engineering',
+  ...overrides
+});
+
+describe("AlertStore.record", () => {
+  beforeEach(() => tracked.clear());
+
+  it("opens a new alert with a raised event", async () => {
+    const { alerts, opened, escalated } = await new AlertStore().record([alert()]);
+
+    expect(opened).toHaveLength(1);
+    expect(escalated).toEqual([]);
+    expect(alerts[0]).toMatchObject({
+      dedupKey: dedupKey(alert(), 'drift'),
+      source: 'drift',
+      state: 'new',
+      occurrences: 1,
+      firstSeenAt: '2024-03-01T09:00:00.000Z'
+    });
+    expect(alerts[0].history).toEqual([expect.objectContaining({ from: null, to: 'new', actor: 'system' })]);
+  });
+
+  it("folds repeats of an open alert into it", async () => {
+    const store = new AlertStore();
+    const first = await store.record([alert()]);
+    const repeat = await store.record([alert({ message: 'Still fragmented', timestamp: '2024-03-02T09:00:00.000Z' })]);
+
+    expect(repeat.opened).toEqual([]);
+    expect(repeat.alerts[0]).toMatchObject({
+      id: first.alerts[0].id,
+      message: 'Still fragmented',
+      occurrences: 2,
+      firstSeenAt: '2024-03-01T09:00:00.000Z',
+      lastSeenAt: '2024-03-02T09:00:00.000Z'
+    });
+    expect(tracked.size).toBe(1);
+  });
+
+  it("folds repeats within a single call", async () => {
+    const { alerts, opened } = await new AlertStore().record([alert(), alert({ severity: 'high' })]);
+
+    expect(opened).toHaveLength(1);
+    expect(alerts[1]).toMatchObject({ occurrences: 2, severity: 'high' });
+    expect(tracked.size).toBe(1);
+  });
+
+  it("keeps separate alerts per team, type and source", async () => {
+    const store = new AlertStore();
+    await store.record([alert(), alert({ cluster: 'sales' }), alert({ type: 'tone_concealment' })]);
+    await store.record([alert()], 'forecast');
+
+    expect(tracked.size).toBe(4);
+  });
+
+  it("reports escalations but never lowers severity", async () => {
+    const store = new AlertStore();
+    await store.record([alert()]);
+
+    const raised = await store.record([alert({ severity: 'critical' })]);
+    expect(raised.escalated.map(a => a.severity)).toEqual(['critical']);
+
+    const lowered = await store.record([alert({ severity: 'medium' })]);
+    expect(lowered.escalated).toEqual([]);
+    expect(lowered.alerts[0].severity).toBe('critical');
+  });
+
+  it("opens a new alert once the previous one is closed", async () => {
+    const store = new AlertStore();
+    const { alerts: [first] } = await store.record([alert()]);
+    await store.transition(first.id, 'resolved', { actor: 'dana' });
+
+    const { opened } = await store.record([alert()]);
+    expect(opened).toHaveLength(1);
+    expect(opened[0].id).not.toBe(first.id);
+  });
+});
+
+describe("AlertStore.transition", () => {
+  beforeEach(() => tracked.clear());
+
+  const raise = async (store: AlertStore) => (await store.record([alert()])).alerts[0];
+
+  it("records who changed the state in the audit trail", async () => {
+    const store = new AlertStore();
+    const updated = await store.transition((await raise(store)).id, 'acknowledged', { actor: 'dana', note: 'Looking' });
+
+    expect(updated.state).toBe('acknowledged');
+    expect(updated.history[1]).toMatchObject({ from: 'new', to: 'acknowledged', actor: 'dana', note: 'Looking' });
+  });
+
+  it("requires an assignee to assign and a future end to snooze", async () => {
+    const store = new AlertStore();
+    const { id } = await raise(store);
+
+    await expect(store.transition(id, 'assigned')).rejects.toThrow('An assignee is required');
+    await expect(store.transition(id, 'snoozed', { snoozedUntil: '2000-01-01T00:00:00.000Z' }))
+      .rejects.toThrow('Snooze must end in the future');
+
+    const assigned = await store.transition(id, 'assigned', { assignee: ' lee ' });
+    expect(assigned).toMatchObject({ state: 'assigned', assignee: 'lee' });
+    expect(assigned.history[1].note).toBe('Assigned to lee');
+  });
+
+  it("rejects transitions the lifecycle does not allow", async () => {
+    const store = new AlertStore();
+    const { id } = await raise(store);
+    await store.transition(id, 'false_positive');
+
+    await expect(store.transition(id, 'acknowledged'))
+      .rejects.toThrow('Cannot move an alert from False positive to Acknowledged');
+    await expect(store.transition('missing', 'resolved')).rejects.toThrow('Alert missing not found');
+  });
+
+  it("reopens snoozes that have run out", async () => {
+    const store = new AlertStore();
+    const { id } = await raise(store);
+    await store.transition(id, 'snoozed', { snoozedUntil: new Date(Date.now() + 60_000).toISOString() });
+    tracked.set(id, { ...tracked.get(id)!, snoozedUntil: new Date(Date.now() - 1000).toISOString() });
+
+    const [reopened] = await store.list({ states: ['new'] });
+    expect(reopened).toMatchObject({ id, state: 'new', snoozedUntil: undefined });
+    expect(reopened.history[reopened.history.length - 1]).toMatchObject({ from: 'snoozed', to: 'new', note: 'Snooze expired' });
+  });
+});
@@ -0,0 +1,301 @@
+import type { DriftAlert, MissionAlert } from '@/lib/nlp-engine';
+import type { Warning } from '@/lib/metric-forecasting';
+import { signalStore, type TimeRange } from '@/lib/signal-store';
+
+/**
+ * Central store of alerts with a lifecycle. Repeats of an open alert for the
+ * same team, type and source are folded into it instead of piling up, and
+ * every state change is kept in the alert's audit trail.
+ */
+
+export type AlertState = 'new' | 'acknowledged' | 'snoozed' | 'assigned' | 'resolved' | 'false_positive';
+
+// Observed drift, or a forecast of drift that has not surfaced yet
+export type AlertSource = 'drift' | 'forecast';
+
+export interface AlertEvent {
+  at: string;
+  from: AlertState | null; // null when the alert was raised
+  to: AlertState;
+  actor: string;
+  note?: string;
+}
+
+export interface TrackedAlert extends DriftAlert {
+  id: string;
+  dedupKey: string;
+  source: AlertSource;
+  state: AlertState;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  occurrences: number;
+  assignee?: string;
+  snoozedUntil?: string;
+  history: AlertEvent[];
+}
+
+export interface AlertFilters {
+  teamId?: string;
+  states?: AlertState[];
+  severities?: DriftAlert['severity'][];
+  types?: DriftAlert['type'][];
+  sources?: AlertSource[];
+  range?: TimeRange; // on lastSeenAt
+}
+
+export interface RecordResult {
+  alerts: TrackedAlert[]; // the tracked alert for each recorded alert, in order
+  opened: TrackedAlert[]; // alerts opened by this call rather than repeated
+  escalated: TrackedAlert[]; // open alerts whose severity a repeat raised
+}
+
+export interface TransitionOptions {
+  actor?: string; // defaults to the configured actor
+  note?: string;
+  assignee?: string;    // required to assign
+  snoozedUntil?: string; // required to snooze
+}
+
+export const ALERT_STATES: Record<AlertState, string> = {
+  new: 'New',
+  acknowledged: 'Acknowledged',
+  snoozed: 'Snoozed',
+  assigned: 'Assigned',
+  resolved: 'Resolved',
+  false_positive: 'False positive'
+};
+
+export const ALERT_TYPE_LABELS: Record<DriftAlert['type'], string> = {
+  symbolic_decay: 'Symbolic Decay',
+  pronoun_fragmentation: 'Pronoun Fragmentation',
+  tone_collapse: 'Tone Collapse',
+  tone_concealment: 'Tone Concealment',
+  mission_drift: 'Mission Drift'
+};
+
+export const ALERT_SOURCES: Record<AlertSource, string> = {
+  drift: 'Observed drift',
+  forecast: 'Forecast'
+};
+
+// Closed alerts no longer absorb repeats; a repeat opens a new alert
+export const CLOSED_STATES: AlertState[] = ['resolved', 'false_positive'];
+
+// Allowed transitions; any open state may be closed
+export const ALERT_TRANSITIONS: Record<AlertState, AlertState[]> = {
+  new: ['acknowledged', 'snoozed', 'assigned', 'resolved', 'false_positive'],
+  acknowledged: ['snoozed', 'assigned', 'resolved', 'false_positive'],
+  snoozed: ['new', 'acknowledged', 'assigned', 'resolved', 'false_positive'],
+  assigned: ['acknowledged', 'snoozed', 'assigned', 'resolved', 'false_positive'],
+  resolved: ['new'],
+  false_positive: ['new']
+};
+
+const SEVERITY_RANK: Record<DriftAlert['severity'], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+const SYSTEM_ACTOR = 'system';
+
+const ACTOR_KEY = 'signalvault_alert_actor';
+
+export const dedupKey = (alert: DriftAlert, source: AlertSource) =>
+  `${source}:${alert.cluster}:${alert.type}`;
+
+export const isOpen = (alert: TrackedAlert) => !CLOSED_STATES.includes(alert.state);
+
+export const isSnoozeExpired = (alert: TrackedAlert, now: Date = new Date()) =>
+  alert.state === 'snoozed' && !!alert.snoozedUntil && new Date(alert.snoozedUntil) <= now;
+
+/**
+ * Whether an alert needs attention now: open and not snoozed, or snoozed
+ * past its end but not yet reopened.
+ */
+export const isActive = (alert: TrackedAlert) =>
+  isOpen(alert) && (alert.state !== 'snoozed' || isSnoozeExpired(alert));
+
+/**
+ * A forecast warning as a drift alert, so it can be tracked like one.
+ */
+export function warningToAlert(warning: Warning, now: Date = new Date()): DriftAlert {
+  return {
+    type: warning.alertType,
+    severity: warning.severity,
+    message: `${warning.title}: ${warning.description}`,
+    deviation: warning.confidence / 100,
+    timestamp: now.toISOString(),
+    cluster: warning.cluster,
+    metric: warning.metric
+  };
+}
+
+/**
+ * A mission alert as a drift alert, so it can be tracked like one.
+ */
+export function missionToAlert(alert: MissionAlert): DriftAlert {
+  return {
+    type: 'mission_drift',
+    severity: alert.severity,
+    message: alert.message,
+    deviation: alert.score - alert.threshold,
+    timestamp: alert.timestamp,
+    cluster: alert.teamId,
+    metric: 'missionResonance'
+  };
+}
+
+export class AlertStore {
+  // Serializes read-modify-write cycles against IndexedDB
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Name recorded in the audit trail for changes made from this browser.
+   */
+  getActor(): string {
+    return localStorage.getItem(ACTOR_KEY)?.trim() || '';
+  }
+
+  setActor(actor: string) {
+    localStorage.setItem(ACTOR_KEY, actor);
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Track newly raised alerts. A repeat of an open alert bumps its count,
+   * refreshes its message and escalates its severity, keeping its state;
+   * otherwise a new alert is opened. Expired snoozes are reopened first, so
+   * returned states are current. Opened and escalated alerts are returned
+   * separately, so callers can notify on both.
+   */
+  record(alerts: DriftAlert[], source: AlertSource = 'drift'): Promise<RecordResult> {
+    return this.enqueue(async () => {
+      await this.reopenExpiredSnoozes();
+
+      const touched = new Map<string, TrackedAlert>();
+      const opened = new Set<string>();
+      const escalated = new Set<string>();
+      const results: TrackedAlert[] = [];
+
+      for (const alert of alerts) {
+        const key = dedupKey(alert, source);
+        const open = touched.get(key) ??
+          (await signalStore.getTrackedAlertsByKey(key)).find(isOpen);
+
+        const tracked: TrackedAlert = open ? {
+          ...open,
+          message: alert.message,
+          deviation: alert.deviation,
+          timestamp: alert.timestamp,
+          metric: alert.metric ?? open.metric,
+          ruleId: alert.ruleId ?? open.ruleId,
+          evidenceMessageIds: alert.evidenceMessageIds ?? open.evidenceMessageIds,
+          onset: alert.onset ?? open.onset,
+          severity: SEVERITY_RANK[alert.severity] > SEVERITY_RANK[open.severity] ? alert.severity : open.severity,
+          lastSeenAt: alert.timestamp > open.lastSeenAt ? alert.timestamp : open.lastSeenAt,
+          occurrences: open.occurrences + 1
+        } : {
+          ...alert,
+          id: `tracked_${key}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+          dedupKey: key,
+          source,
+          state: 'new',
+          firstSeenAt: alert.timestamp,
+          lastSeenAt: alert.timestamp,
+          occurrences: 1,
+          history: [{ at: new Date().toISOString(), from: null, to: 'new', actor: SYSTEM_ACTOR, note: alert.message }]
+        };
+
+        if (!open) opened.add(key);
+        else if (!opened.has(key) && tracked.severity !== open.severity) escalated.add(key);
+        touched.set(key, tracked);
+        results.push(tracked);
+      }
+
+      await signalStore.saveTrackedAlerts(Array.from(touched.values()));
+      return {
+        alerts: results.map(result => touched.get(result.dedupKey) as TrackedAlert),
+        opened: Array.from(opened, key => touched.get(key) as TrackedAlert),
+        escalated: Array.from(escalated, key => touched.get(key) as TrackedAlert)
+      };
+    });
+  }
+
+  /**
+   * Move an alert to another state, recording who did it in the audit trail.
+   */
+  transition(id: string, to: AlertState, options: TransitionOptions = {}): Promise<TrackedAlert> {
+    return this.enqueue(async () => {
+      await this.reopenExpiredSnoozes();
+
+      const alert = await signalStore.getTrackedAlert(id);
+      if (!alert) {
+        throw new Error(`Alert ${id} not found`);
+      }
+      if (!ALERT_TRANSITIONS[alert.state].includes(to)) {
+        throw new Error(`Cannot move an alert from ${ALERT_STATES[alert.state]} to ${ALERT_STATES[to]}`);
+      }
+      if (to === 'assigned' && !options.assignee?.trim()) {
+        throw new Error('An assignee is required');
+      }
+      if (to === 'snoozed' && !(options.snoozedUntil && new Date(options.snoozedUntil).getTime() > Date.now())) {
+        throw new Error('Snooze must end in the future');
+      }
+
+      const updated: TrackedAlert = {
+        ...alert,
+        state: to,
+        assignee: to === 'assigned' ? options.assignee?.trim() : alert.assignee,
+        snoozedUntil: to === 'snoozed' ? options.snoozedUntil : undefined,
+        history: [...alert.history, {
+          at: new Date().toISOString(),
+          from: alert.state,
+          to,
+          actor: options.actor?.trim() || this.getActor() || SYSTEM_ACTOR,
+          note: options.note?.trim() || (to === 'assigned' ? `Assigned to ${options.assignee?.trim()}` : undefined)
+        }]
+      };
+
+      await signalStore.saveTrackedAlerts([updated]);
+      return updated;
+    });
+  }
+
+  /**
+   * Alerts matching the filters, most recently seen first. Snoozes that have
+   * run out are reopened as new before filtering.
+   */
+  async list(filters: AlertFilters = {}): Promise<TrackedAlert[]> {
+    await this.wakeSnoozed();
+    const alerts = await signalStore.getTrackedAlerts(filters.teamId, filters.range);
+
+    return alerts
+      .filter(alert =>
+        (!filters.states?.length || filters.states.includes(alert.state)) &&
+        (!filters.severities?.length || filters.severities.includes(alert.severity)) &&
+        (!filters.types?.length || filters.types.includes(alert.type)) &&
+        (!filters.sources?.length || filters.sources.includes(alert.source))
+      )
+      .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+  }
+
+  private wakeSnoozed(now: Date = new Date()): Promise<void> {
+    return this.enqueue(() => this.reopenExpiredSnoozes(now));
+  }
+
+  // Must run inside a queued task; use wakeSnoozed from outside the queue
+  private async reopenExpiredSnoozes(now: Date = new Date()): Promise<void> {
+    const expired = (await signalStore.getTrackedAlerts()).filter(alert => isSnoozeExpired(alert, now));
+
+    await signalStore.saveTrackedAlerts(expired.map(alert => ({
+      ...alert,
+      state: 'new',
+      snoozedUntil: undefined,
+      history: [...alert.history, { at: now.toISOString(), from: 'snoozed', to: 'new', actor: SYSTEM_ACTOR, note: 'Snooze expired' }]
+    })));
+  }
+}
+
+export const alertStore = new AlertStore();
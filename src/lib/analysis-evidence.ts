@@ -0,0 +1,253 @@
+import type { AnalysisResult } from '@/lib/nlp-engine';
+import type { Lexicon, LexiconCategory } from '@/lib/lexicon-registry';
+import { isWordToken, segmentSentences } from '@/lib/tokenizer';
+import { activeEmotions, EMOTION_LABELS, EMOTION_THRESHOLD } from '@/lib/emotion-classification';
+import type { GrammaticalFeature } from '@/lib/grammatical-features';
+
+/**
+ * Evidence explaining an analysis: which tokens matched each lexicon
+ * category, how each sentence scored, and a plain-language summary per
+ * metric. Offsets refer to the analyzed text.
+ */
+
+export type EvidenceCategory = LexiconCategory | GrammaticalFeature | 'symbol' | 'sentiment';
+
+export interface EvidenceSpan {
+  start: number;
+  end: number;
+  text: string;
+  category: EvidenceCategory;
+}
+
+export interface SentenceEvidence {
+  start: number;
+  end: number;
+  text: string;
+  wordCount: number;
+  symbol?: { closest: string; score: number }; // score 0-100
+  sentiment?: AnalysisResult['sentiment'];
+}
+
+export interface MetricExplanation {
+  metric: string;
+  label: string;
+  summary: string;
+  categories: EvidenceCategory[]; // span categories to highlight
+}
+
+export interface AnalysisEvidence {
+  spans: EvidenceSpan[];
+  sentences: SentenceEvidence[];
+  explanations: MetricExplanation[];
+}
+
+export const EVIDENCE_CATEGORIES: Record<EvidenceCategory, string> = {
+  metaphor: 'Metaphor',
+  individualPronouns: 'Individual pronoun',
+  collectivePronouns: 'Collective pronoun',
+  modal: 'Modal',
+  negative: 'Negative',
+  passive: 'Passive voice',
+  hedge: 'Hedge',
+  nominalization: 'Nominalization',
+  intensifier: 'Intensifier',
+  symbol: 'Symbol match',
+  sentiment: 'Sentiment'
+};
+
+const LEXICAL_CATEGORIES: LexiconCategory[] = ['metaphor', 'individualPronouns', 'collectivePronouns', 'modal', 'negative'];
+
+/**
+ * Token spans matching each lexicon category, plus per-sentence word counts.
+ * Uses the same tokenization as the metrics so counts agree.
+ */
+export function collectLexicalEvidence(text: string, lexicon: Lexicon): Pick<AnalysisEvidence, 'spans' | 'sentences'> {
+  const spans: EvidenceSpan[] = [];
+  const sentences: SentenceEvidence[] = segmentSentences(text).map(sentence => {
+    const wordTokens = sentence.tokens.filter(isWordToken);
+
+    wordTokens.forEach(token => {
+      LEXICAL_CATEGORIES.forEach(category => {
+        if (lexicon.words[category].includes(token.normalized)) {
+          spans.push({ start: token.start, end: token.end, text: token.text, category });
+        }
+      });
+    });
+
+    return {
+      start: sentence.start,
+      end: sentence.end,
+      text: sentence.text,
+      wordCount: wordTokens.length
+    };
+  });
+
+  return { spans, sentences };
+}
+
+/**
+ * Summaries for each metric of a result, built from its evidence.
+ */
+export function explainMetrics(
+  result: AnalysisResult,
+  spans: EvidenceSpan[],
+  sentences: SentenceEvidence[]
+): MetricExplanation[] {
+  const totalWords = sentences.reduce((sum, s) => sum + s.wordCount, 0);
+  const matches = (category: EvidenceCategory) => spans.filter(span => span.category === category);
+  const list = (category: EvidenceCategory) => {
+    const unique = Array.from(new Set(matches(category).map(span => span.text.toLowerCase())));
+    return unique.length > 0 ? ` (${unique.slice(0, 8).join(', ')}${unique.length > 8 ? ', …' : ''})` : '';
+  };
+
+  const explanations: MetricExplanation[] = [];
+
+  const scored = sentences.filter(s => s.symbol);
+  if (scored.length > 0) {
+    const weakest = scored.reduce((min, s) => (s.symbol!.score < min.symbol!.score ? s : min));
+    explanations.push({
+      metric: 'symbolAlignment',
+      label: 'Symbolic Alignment',
+      summary: `Average of each sentence's closest symbol (${result.symbolAlignment.toFixed(1)}). ` +
+        `Weakest: "${truncate(weakest.text)}" → ${weakest.symbol!.closest} (${weakest.symbol!.score.toFixed(1)})`,
+      categories: ['symbol']
+    });
+  }
+
+  explanations.push({
+    metric: 'metaphorDensity',
+    label: 'Metaphor Density',
+    summary: `${matches('metaphor').length} of ${totalWords} words are metaphor terms${list('metaphor')}`,
+    categories: ['metaphor']
+  });
+
+  const { individual, collective, ratio } = result.pronounDistribution;
+  explanations.push({
+    metric: 'pronounRatio',
+    label: 'Pronoun Ratio',
+    summary: `${individual} individual vs ${collective} collective pronouns, ratio ${ratio.toFixed(2)}` +
+      `${list('individualPronouns')}${list('collectivePronouns')}`,
+    categories: ['individualPronouns', 'collectivePronouns']
+  });
+
+  explanations.push({
+    metric: 'modalCompression',
+    label: 'Modal Compression',
+    summary: `${matches('modal').length} modal words reduce certainty to ${result.modalCompression.toFixed(1)}${list('modal')}`,
+    categories: ['modal']
+  });
+
+  if (sentences.length > 0) {
+    const longest = sentences.reduce((max, s) => (s.wordCount > max.wordCount ? s : max));
+    explanations.push({
+      metric: 'narrativeCoherence',
+      label: 'Narrative Coherence',
+      summary: `${sentences.length} sentences averaging ${(totalWords / sentences.length).toFixed(1)} words; ` +
+        `scores peak at 15 words. Longest: ${longest.wordCount} words`,
+      categories: []
+    });
+  }
+
+  if (result.discourseCoherence) {
+    const { score, semanticContinuity, entityContinuity, connectiveUsage, messageCount } = result.discourseCoherence;
+    explanations.push({
+      metric: 'discourseCoherence',
+      label: 'Discourse Coherence',
+      summary: `${score.toFixed(1)} across a thread of ${messageCount} message${messageCount === 1 ? '' : 's'}: ` +
+        `semantic continuity ${semanticContinuity.toFixed(0)}, entity continuity ${entityContinuity.toFixed(0)}, ` +
+        `connectives ${connectiveUsage.toFixed(0)}`,
+      categories: []
+    });
+  }
+
+  if (result.emotions) {
+    const present = activeEmotions(result.emotions)
+      .sort((a, b) => result.emotions![b] - result.emotions![a])
+      .map(emotion => `${EMOTION_LABELS[emotion].label.toLowerCase()} ${result.emotions![emotion].toFixed(2)}`);
+    const detected = present.length > 0 ? present.join(', ') : 'no emotion above threshold';
+
+    explanations.push({
+      metric: 'emotionalStability',
+      label: 'Emotional Stability',
+      summary: `Share of detected emotion (score ≥ ${EMOTION_THRESHOLD}) that is not negative; 100 when none is detected (${result.emotionalTone.stability.toFixed(1)}). Detected: ${detected}`,
+      categories: []
+    });
+
+    explanations.push({
+      metric: 'emotionalFragmentation',
+      label: 'Emotional Fragmentation',
+      summary: `Share of detected emotion (score ≥ ${EMOTION_THRESHOLD}) that is anger, fear, sadness or disgust (${result.emotionalTone.fragmentation.toFixed(1)})`,
+      categories: []
+    });
+  } else {
+    explanations.push({
+      metric: 'emotionalStability',
+      label: 'Emotional Stability',
+      summary: `${matches('negative').length} negative words lower stability to ${result.emotionalTone.stability.toFixed(1)}${list('negative')}`,
+      categories: ['negative']
+    });
+
+    explanations.push({
+      metric: 'emotionalFragmentation',
+      label: 'Emotional Fragmentation',
+      summary: `Fragmentation is the inverse of stability (${result.emotionalTone.fragmentation.toFixed(1)}), driven by the same negative words`,
+      categories: ['negative']
+    });
+  }
+
+  if (result.grammar) {
+    const { passiveCount, passiveRate, hedgeCount, hedgeDensity, nominalizationCount, nominalizationDensity, intensifierCount, intensifierDensity } = result.grammar;
+    explanations.push({
+      metric: 'passiveVoice',
+      label: 'Passive Voice',
+      summary: `${passiveCount} passive construction${passiveCount === 1 ? '' : 's'}; ${passiveRate.toFixed(0)}% of sentences${list('passive')}`,
+      categories: ['passive']
+    });
+    explanations.push({
+      metric: 'hedging',
+      label: 'Hedging',
+      summary: `${hedgeCount} hedges, ${hedgeDensity.toFixed(1)} per 100 words${list('hedge')}`,
+      categories: ['hedge']
+    });
+    explanations.push({
+      metric: 'nominalization',
+      label: 'Nominalization',
+      summary: `${nominalizationCount} nominalizations, ${nominalizationDensity.toFixed(1)} per 100 words${list('nominalization')}`,
+      categories: ['nominalization']
+    });
+    explanations.push({
+      metric: 'intensifiers',
+      label: 'Intensifiers',
+      summary: `${intensifierCount} intensifiers, ${intensifierDensity.toFixed(1)} per 100 words${list('intensifier')}`,
+      categories: ['intensifier']
+    });
+  }
+
+  if (result.missionResonance !== undefined) {
+    explanations.push({
+      metric: 'missionResonance',
+      label: 'Mission Resonance',
+      summary: `Embedding similarity between the whole message and the mission statement: ${result.missionResonance.toFixed(1)}`,
+      categories: []
+    });
+  }
+
+  const withSentiment = sentences.filter(s => s.sentiment);
+  if (withSentiment.length > 0) {
+    const polarity = (s: SentenceEvidence) => (s.sentiment!.label === 'NEGATIVE' ? -1 : s.sentiment!.label === 'POSITIVE' ? 1 : 0) * s.sentiment!.score;
+    const mostNegative = withSentiment.reduce((min, s) => (polarity(s) < polarity(min) ? s : min));
+    explanations.push({
+      metric: 'sentiment',
+      label: 'Sentiment',
+      summary: `Overall ${result.sentiment.label.toLowerCase()} (${(result.sentiment.score * 100).toFixed(0)}%). ` +
+        `Most negative sentence: "${truncate(mostNegative.text)}"`,
+      categories: ['sentiment']
+    });
+  }
+
+  return explanations;
+}
+
+function truncate(text: string, length = 80): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
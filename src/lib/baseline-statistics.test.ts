@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeStatistics,
+  linearSlope,
+  percentile,
+  severityForZScore,
+  windowStart,
+  zScore
+} from "./baseline-statistics";
+
+describe("percentile", () => {
+  it("interpolates between neighbouring values", () => {
+    expect(percentile([10, 20, 30, 40, 50], 50)).toBe(30);
+    expect(percentile([10, 20, 30, 40, 50], 10)).toBeCloseTo(14);
+    expect(percentile([10, 20], 75)).toBeCloseTo(17.5);
+  });
+
+  it("returns 0 for an empty array", () => {
+    expect(percentile([], 90)).toBe(0);
+  });
+});
+
+describe("computeStatistics", () => {
+  it("computes mean, sample deviation and percentiles", () => {
+    const stats = computeStatistics([2, 4, 4, 4, 5, 5, 7, 9]);
+    expect(stats.count).toBe(8);
+    expect(stats.mean).toBe(5);
+    expect(stats.stdDev).toBeCloseTo(Math.sqrt(32 / 7));
+    expect(stats.p50).toBe(4.5);
+  });
+
+  it("skips non-finite values", () => {
+    const stats = computeStatistics([1, NaN, 3, Infinity]);
+    expect(stats.count).toBe(2);
+    expect(stats.mean).toBe(2);
+  });
+
+  it("returns zeros without values and no deviation for one value", () => {
+    expect(computeStatistics([]).count).toBe(0);
+    expect(computeStatistics([NaN]).mean).toBe(0);
+    expect(computeStatistics([3]).stdDev).toBe(0);
+  });
+});
+
+describe("zScore", () => {
+  it("measures distance from the mean in standard deviations", () => {
+    const stats = computeStatistics([1, 2, 3, 4, 5]);
+    expect(zScore(3, stats)).toBe(0);
+    expect(zScore(3 + 2 * stats.stdDev, stats)).toBeCloseTo(2);
+  });
+
+  it("is null without variance or enough samples", () => {
+    expect(zScore(5, computeStatistics([4, 4, 4]))).toBeNull();
+    expect(zScore(5, computeStatistics([4]))).toBeNull();
+  });
+});
+
+describe("linearSlope", () => {
+  it("fits a least-squares slope", () => {
+    expect(linearSlope([{ x: 0, y: 1 }, { x: 1, y: 3 }, { x: 2, y: 5 }])).toBeCloseTo(2);
+  });
+
+  it("is null without two distinct x values", () => {
+    expect(linearSlope([{ x: 1, y: 1 }])).toBeNull();
+    expect(linearSlope([{ x: 1, y: 1 }, { x: 1, y: 4 }])).toBeNull();
+  });
+});
+
+describe("severityForZScore", () => {
+  it("maps magnitudes to severities in either direction", () => {
+    expect(severityForZScore(1.9)).toBe('low');
+    expect(severityForZScore(-2)).toBe('medium');
+    expect(severityForZScore(3.5)).toBe('high');
+    expect(severityForZScore(-4)).toBe('critical');
+  });
+});
+
+describe("windowStart", () => {
+  it("goes back the window length from the reference date", () => {
+    expect(windowStart(7, new Date('2024-03-10T12:00:00.000Z'))).toBe('2024-03-03T12:00:00.000Z');
+  });
+});
@@ -0,0 +1,161 @@
+import type { AnalysisResult } from '@/lib/nlp-engine';
+import type { LanguageCode } from '@/lib/language-detector';
+
+export type DriftMetric =
+  | 'symbolAlignment'
+  | 'metaphorDensity'
+  | 'narrativeCoherence'
+  | 'modalCompression'
+  | 'pronounRatio'
+  | 'emotionalStability'
+  | 'emotionalFragmentation'
+  | 'missionResonance'
+  | 'discourseCoherence'
+  | 'passiveVoice'
+  | 'hedging'
+  | 'nominalization'
+  | 'intensifiers';
+
+export type BaselineWindow = 7 | 30 | 90;
+
+export const BASELINE_WINDOWS: BaselineWindow[] = [7, 30, 90];
+
+export interface MetricStatistics {
+  count: number;
+  mean: number;
+  stdDev: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface RollingBaseline {
+  teamId: string;
+  language: LanguageCode;
+  windowDays: BaselineWindow;
+  from: string;
+  to: string;
+  sampleSize: number;
+  metrics: Partial<Record<DriftMetric, MetricStatistics>>;
+  // Least-squares slope of snapshot means per day across the window
+  trend: Partial<Record<DriftMetric, number>>;
+}
+
+export const DRIFT_METRICS: Record<DriftMetric, { label: string; extract: (analysis: AnalysisResult) => number }> = {
+  symbolAlignment: { label: 'Symbolic Alignment', extract: a => a.symbolAlignment },
+  metaphorDensity: { label: 'Metaphor Density', extract: a => a.metaphorDensity },
+  narrativeCoherence: { label: 'Narrative Coherence', extract: a => a.narrativeCoherence },
+  modalCompression: { label: 'Modal Compression', extract: a => a.modalCompression },
+  pronounRatio: { label: 'Pronoun Ratio', extract: a => a.pronounDistribution.ratio },
+  emotionalStability: { label: 'Emotional Stability', extract: a => a.emotionalTone.stability },
+  emotionalFragmentation: { label: 'Emotional Fragmentation', extract: a => a.emotionalTone.fragmentation },
+  // NaN when no mission statement was set; statistics skip non-finite values
+  missionResonance: { label: 'Mission Resonance', extract: a => a.missionResonance ?? NaN },
+  discourseCoherence: { label: 'Discourse Coherence', extract: a => a.discourseCoherence?.score ?? NaN },
+  passiveVoice: { label: 'Passive Voice', extract: a => a.grammar?.passiveRate ?? NaN },
+  hedging: { label: 'Hedging', extract: a => a.grammar?.hedgeDensity ?? NaN },
+  nominalization: { label: 'Nominalization', extract: a => a.grammar?.nominalizationDensity ?? NaN },
+  intensifiers: { label: 'Intensifiers', extract: a => a.grammar?.intensifierDensity ?? NaN }
+};
+
+// Fewer samples than this make z-scores meaningless
+export const MIN_BASELINE_SAMPLES = 5;
+
+/**
+ * Linear-interpolated percentile of an ascending sorted array, p in [0, 100].
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function computeStatistics(values: number[]): MetricStatistics {
+  const finite = values.filter(v => Number.isFinite(v));
+  const count = finite.length;
+  if (count === 0) {
+    return { count: 0, mean: 0, stdDev: 0, p10: 0, p25: 0, p50: 0, p75: 0, p90: 0 };
+  }
+
+  const mean = finite.reduce((sum, v) => sum + v, 0) / count;
+  // Sample standard deviation
+  const variance = count > 1
+    ? finite.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (count - 1)
+    : 0;
+  const sorted = [...finite].sort((a, b) => a - b);
+
+  return {
+    count,
+    mean,
+    stdDev: Math.sqrt(variance),
+    p10: percentile(sorted, 10),
+    p25: percentile(sorted, 25),
+    p50: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p90: percentile(sorted, 90)
+  };
+}
+
+/**
+ * Every drift metric of a single analysis.
+ */
+export function metricValues(analysis: AnalysisResult): Record<DriftMetric, number> {
+  return Object.fromEntries(
+    (Object.keys(DRIFT_METRICS) as DriftMetric[]).map(metric => [metric, DRIFT_METRICS[metric].extract(analysis)])
+  ) as Record<DriftMetric, number>;
+}
+
+/**
+ * Statistics for every drift metric over a set of analyses.
+ */
+export function computeMetricStatistics(analyses: AnalysisResult[]): Record<DriftMetric, MetricStatistics> {
+  return Object.fromEntries(
+    (Object.keys(DRIFT_METRICS) as DriftMetric[]).map(metric => [
+      metric,
+      computeStatistics(analyses.map(DRIFT_METRICS[metric].extract))
+    ])
+  ) as Record<DriftMetric, MetricStatistics>;
+}
+
+/**
+ * Standard score of a value against a baseline. Returns null when the
+ * baseline has no variance to measure against.
+ */
+export function zScore(value: number, stats: MetricStatistics): number | null {
+  if (stats.count < 2 || stats.stdDev < 1e-6) return null;
+  return (value - stats.mean) / stats.stdDev;
+}
+
+/**
+ * Ordinary least-squares slope of y over x. Null with fewer than two
+ * distinct x values.
+ */
+export function linearSlope(points: { x: number; y: number }[]): number | null {
+  if (points.length < 2) return null;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  if (sxx < 1e-12) return null;
+  const sxy = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+  return sxy / sxx;
+}
+
+export function windowStart(windowDays: BaselineWindow, asOf: Date = new Date()): string {
+  return new Date(asOf.getTime() - windowDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Map a z-score to an alert severity: within 2σ is normal variation,
+ * 2σ medium, 3σ high and 4σ or more critical.
+ */
+export function severityForZScore(z: number): 'low' | 'medium' | 'high' | 'critical' {
+  const magnitude = Math.abs(z);
+  if (magnitude >= 4) return 'critical';
+  if (magnitude >= 3) return 'high';
+  if (magnitude >= 2) return 'medium';
+  return 'low';
+}
@@ -0,0 +1,212 @@
+import { describe, expect, it, vi } from "vitest";
+
+// The parsers only need the anonymizers; the engine and store load models and IndexedDB
+vi.hoisted(() => {
+  Object.assign(globalThis, { localStorage: { getItem: () => null, setItem: () => undefined } });
+});
+vi.mock("./nlp-engine", () => ({ nlpEngine: {} }));
+vi.mock("./signal-store", () => ({ signalStore: {} }));
+
+import {
+  detectFormat,
+  htmlToText,
+  parseCues,
+  parseEmails,
+  parseSlackExport,
+  parseTeamsExport,
+  parseTranscript,
+  splitMbox
+} from "./bulk-import";
+
+const options = { teamId: 'engineering' };
+
+describe("detectFormat", () => {
+  it("maps extensions to formats", () => {
+    expect(detectFormat('workspace.ZIP')).toBe('slack');
+    expect(detectFormat('inbox.mbox')).toBe('email');
+    expect(detectFormat('chat.json')).toBe('teams');
+    expect(detectFormat('standup.vtt')).toBe('transcript');
+    expect(() => detectFormat('notes.txt')).toThrow('Unsupported file type: notes.txt');
+  });
+});
+
+describe("htmlToText", () => {
+  it("drops markup, scripts and entities", () => {
+    expect(htmlToText('<p>Ship &amp; <b>test</b></p><script>x()</script><div>Next&#33;</div>')).toBe('Ship & test\nNext!');
+  });
+});
+
+describe("parseSlackExport", () => {
+  const files = new Map([
+    ['users.json', JSON.stringify([{ id: 'U1', real_name: 'Jane Doe' }, { id: 'U2', profile: { display_name: 'Sam' } }])],
+    ['general/2024-03-01.json', JSON.stringify([
+      { type: 'message', user: 'U1', text: 'Kickoff with <@U2> in <#C1|eng>', ts: '1709283600.000100', thread_ts: '1709283600.000100' },
+      { type: 'message', user: 'U2', text: 'Jane, call 555-123-4567', ts: '1709283700.000200', thread_ts: '1709283600.000100' },
+      { type: 'message', subtype: 'channel_join', user: 'U2', text: 'joined', ts: '1709283800.000300' },
+      { type: 'message', user: 'U1', text: '   ', ts: '1709283900.000400' }
+    ])],
+    ['random/2024-03-01.json', JSON.stringify([
+      { type: 'message', user: 'U1', text: 'Same second', ts: '1709283600.000100' }
+    ])]
+  ]);
+
+  it("keeps content messages and counts the rest as skipped", () => {
+    const { messages, skipped } = parseSlackExport(files, options);
+    expect(messages).toHaveLength(3);
+    expect(skipped).toBe(2);
+  });
+
+  it("scopes ids by channel and links replies to the thread root", () => {
+    const [root, reply, other] = parseSlackExport(files, options).messages;
+
+    expect(root).toMatchObject({ id: 'general:1709283600.000100', channel: 'general', teamId: 'engineering' });
+    expect(root.metadata).toMatchObject({ threadId: 'general:1709283600.000100', parentId: undefined });
+    expect(reply.metadata).toMatchObject({ isThread: true, parentId: 'general:1709283600.000100' });
+    expect(other.id).toBe('random:1709283600.000100');
+    expect(root.timestamp).toBe('2024-03-01T09:00:00.000Z');
+  });
+
+  it("masks names, mentions and phone numbers", () => {
+    const [root, reply] = parseSlackExport(files, options).messages;
+
+    expect(root.text).toMatch(/^Kickoff with @user_\d+ in #eng$/);
+    expect(reply.text).toBe('[NAME], call [PHONE]');
+    expect(root.userId).not.toContain('U1');
+  });
+});
+
+describe("parseEmails", () => {
+  const mbox = [
+    'From alice@example.com Fri Mar  1 09:00:00 2024',
+    'From: "Alice Smith" <alice@example.com>',
+    'To: bob@example.com',
+    'Date: Fri, 01 Mar 2024 09:00:00 +0000',
+    'Message-ID: <one@mail.example.com>',
+    'Subject: Plan',
+    '',
+    'Alice here. The plan is ready.',
+    '>From the archive',
+    'From bob@example.com Fri Mar  1 10:00:00 2024',
+    'From: Bob <bob@example.com>',
+    'To: "Alice Smith" <alice@example.com>',
+    'Date: Fri, 01 Mar 2024 10:00:00 +0000',
+    'Message-ID: <two@mail.example.com>',
+    'In-Reply-To: <one@mail.example.com>',
+    'References: <one@mail.example.com>',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: quoted-printable',
+    '',
+    'Looks good to me =E2=9C=93',
+    '',
+    'On Fri, Mar 1, 2024 at 9:00 AM Alice Smith wrote:',
+    '> The plan is ready.',
+    'From nobody Fri Mar  1 11:00:00 2024',
+    'From: nobody@example.com',
+    'Date: not a date',
+    '',
+    'Lost'
+  ].join('\n');
+
+  it("splits mbox archives and unescapes From lines", () => {
+    const raw = splitMbox(mbox);
+    expect(raw).toHaveLength(3);
+    expect(raw[0]).toContain('\nFrom the archive');
+  });
+
+  it("strips quoted replies, decodes bodies and masks participants", () => {
+    const { messages, skipped } = parseEmails(splitMbox(mbox), 'inbox', options);
+
+    expect(skipped).toBe(1);
+    expect(messages[0].text).toBe('[NAME] here. The plan is ready.\nFrom the archive');
+    expect(messages[1].text).toBe('Looks good to me ✓');
+    expect(messages[1].timestamp).toBe('2024-03-01T10:00:00.000Z');
+  });
+
+  it("hashes message ids and links replies to their parents", () => {
+    const [first, reply] = parseEmails(splitMbox(mbox), 'inbox', options).messages;
+
+    expect(first.id).toMatch(/^msg_/);
+    expect(first.id).not.toContain('example.com');
+    expect(reply.metadata).toMatchObject({ isThread: true, parentId: first.id, participants: 2 });
+  });
+});
+
+describe("parseTeamsExport", () => {
+  const message = (id: string, content: string, replyToId?: string) => ({
+    id,
+    createdDateTime: '2024-03-01T09:00:00Z',
+    messageType: 'message',
+    replyToId,
+    body: { contentType: 'html', content },
+    from: { user: { id: `aad-${id}`, displayName: 'Priya Patel' } }
+  });
+
+  it("scopes ids by chat so equal ids in different chats stay apart", () => {
+    const { messages } = parseTeamsExport([
+      { topic: 'Release', messages: [message('1', '<p>Ready?</p>'), message('2', '<p>Priya says yes</p>', '1')] },
+      { topic: 'Design', messages: { value: [message('1', 'Mockups')] } }
+    ], 'teams-export', options);
+
+    expect(messages.map(m => m.id)).toEqual(['Release:1', 'Release:2', 'Design:1']);
+    expect(messages[1].metadata).toMatchObject({ isThread: true, parentId: 'Release:1' });
+    expect(messages[1].text).toBe('[NAME] says yes');
+    expect(messages[2].channel).toBe('Design');
+  });
+
+  it("skips system events and empty bodies", () => {
+    const { messages, skipped } = parseTeamsExport([
+      { ...message('1', 'Added member'), messageType: 'systemEventMessage' },
+      message('2', '<p> </p>'),
+      message('3', 'Real text')
+    ], 'chat', options);
+
+    expect(messages.map(m => m.id)).toEqual(['chat:3']);
+    expect(skipped).toBe(2);
+  });
+});
+
+describe("parseTranscript", () => {
+  const vtt = [
+    'WEBVTT',
+    '',
+    'NOTE exported from Meet',
+    '',
+    '00:00:01.000 --> 00:00:03.000',
+    '<v Dana Lee>Morning all.</v>',
+    '',
+    '00:00:04.000 --> 00:00:06.500',
+    '<v Dana Lee>Dana here, quick update.</v>',
+    '',
+    '00:01:00.000 --> 00:01:02.000',
+    'Omar: Thanks &amp; noted',
+    ''
+  ].join('\n');
+
+  it("reads speakers from voice spans and name prefixes", () => {
+    expect(parseCues(vtt)).toEqual([
+      { start: 1, end: 3, speaker: 'Dana Lee', text: 'Morning all.' },
+      { start: 4, end: 6.5, speaker: 'Dana Lee', text: 'Dana here, quick update.' },
+      { start: 60, end: 62, speaker: 'Omar', text: 'Thanks & noted' }
+    ]);
+  });
+
+  it("reads SubRip timings", () => {
+    expect(parseCues('1\n00:00:02,500 --> 00:00:04,000\nHello\n')).toEqual([
+      { start: 2.5, end: 4, speaker: undefined, text: 'Hello' }
+    ]);
+  });
+
+  it("merges close cues from one speaker into utterances offset from the recording start", () => {
+    const recordedAt = new Date('2024-03-01T09:00:00.000Z');
+    const { messages } = parseTranscript(vtt, 'standup', { ...options, recordedAt });
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0]).toMatchObject({
+      id: `standup:${recordedAt.getTime()}:0`,
+      text: 'Morning all. [NAME] here, quick update.',
+      timestamp: '2024-03-01T09:00:01.000Z'
+    });
+    expect(messages[0].metadata).toMatchObject({ participants: 2, duration: 6, threadId: `standup:${recordedAt.getTime()}` });
+    expect(messages[1].timestamp).toBe('2024-03-01T09:01:00.000Z');
+  });
+});
@@ -0,0 +1,649 @@
+import { anonymizeMessageId, anonymizeText, anonymizeUserId, type CommunicationMessage } from '@/lib/data-integrations';
+import { parseEmailThreadHeaders, reconstructThreads } from '@/lib/thread-reconstruction';
+import { nlpEngine, type AnalysisResult } from '@/lib/nlp-engine';
+import { signalStore, type StoredAnalysis } from '@/lib/signal-store';
+import { readZip } from '@/lib/zip-archive';
+
+/**
+ * Offline import of historical communications: Slack workspace export ZIPs,
+ * mbox/EML email archives, Teams chat export JSON and VTT/SRT meeting
+ * transcripts. Files are parsed in the browser into anonymized
+ * CommunicationMessages, then stored, analyzed and folded into dated
+ * baselines so months of history can be backfilled without network access.
+ */
+
+export type ImportFormat = 'slack' | 'email' | 'teams' | 'transcript';
+
+export const IMPORT_FORMATS: Record<ImportFormat, { label: string; extensions: string[] }> = {
+  slack: { label: 'Slack export', extensions: ['.zip'] },
+  email: { label: 'Email archive', extensions: ['.mbox', '.eml'] },
+  teams: { label: 'Teams chat export', extensions: ['.json'] },
+  transcript: { label: 'Meeting transcript', extensions: ['.vtt', '.srt'] }
+};
+
+export const IMPORT_ACCEPT = Object.values(IMPORT_FORMATS).flatMap(format => format.extensions).join(',');
+
+export interface ImportOptions {
+  teamId: string;
+  // Start of the meeting for transcripts, whose cues only carry offsets
+  recordedAt?: Date;
+}
+
+export interface ParsedImport {
+  fileName: string;
+  format: ImportFormat;
+  messages: CommunicationMessage[];
+  skipped: number; // entries without usable text or timestamp
+}
+
+export interface ImportProgress {
+  stage: 'storing' | 'analyzing' | 'indexing';
+  completed: number;
+  total: number;
+}
+
+export interface ImportSummary {
+  messages: number;
+  teams: string[];
+  from: string | null;
+  to: string | null;
+  baselines: number;
+  expired: number; // older than the retention cutoff, not imported
+}
+
+// Messages analyzed and saved together, so a cancelled import keeps its
+// progress. Chunks hold whole threads, so a chunk may run over
+const ANALYSIS_CHUNK_SIZE = 100;
+
+// Consecutive cues from one speaker closer than this form one utterance
+const MAX_UTTERANCE_GAP_SECONDS = 5;
+
+export function detectFormat(fileName: string): ImportFormat {
+  const name = fileName.toLowerCase();
+  const format = (Object.keys(IMPORT_FORMATS) as ImportFormat[])
+    .find(key => IMPORT_FORMATS[key].extensions.some(extension => name.endsWith(extension)));
+  if (!format) throw new Error(`Unsupported file type: ${fileName}`);
+  return format;
+}
+
+// Shared helpers
+
+const baseName = (fileName: string) => fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '');
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+  });
+
+/**
+ * Plain text of an HTML fragment, without a DOM so parsing also runs off the
+ * main thread.
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>|<\/(p|div|li|tr|h\d)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n')
+    .trim();
+}
+
+/**
+ * Full names plus their parts, so "Jane Doe" is masked when written as "Jane".
+ */
+const nameVariants = (names: Iterable<string>) => {
+  const variants = new Set<string>();
+  for (const name of names) {
+    const trimmed = name.trim();
+    if (trimmed.length < 2) continue;
+    variants.add(trimmed);
+    trimmed.split(/\s+/).filter(part => part.length >= 3).forEach(part => variants.add(part));
+  }
+  return Array.from(variants);
+};
+
+const toMessage = (
+  message: Omit<CommunicationMessage, 'metadata' | 'text' | 'userId'> & { text: string; author?: string },
+  metadata: CommunicationMessage['metadata'],
+  names: string[]
+): CommunicationMessage => ({
+  id: message.id,
+  platform: message.platform,
+  channel: message.channel,
+  text: anonymizeText(message.text, names),
+  timestamp: message.timestamp,
+  userId: anonymizeUserId(message.author),
+  teamId: message.teamId,
+  metadata
+});
+
+// Slack workspace export: users.json plus <channel>/<YYYY-MM-DD>.json per day
+
+interface SlackExportUser {
+  id: string;
+  name?: string;
+  real_name?: string;
+  profile?: { real_name?: string; display_name?: string };
+}
+
+interface SlackExportMessage {
+  type?: string;
+  subtype?: string;
+  user?: string;
+  text?: string;
+  ts?: string;
+  thread_ts?: string;
+}
+
+const SLACK_DAY_FILE = /([^/]+)\/\d{4}-\d{2}-\d{2}\.json$/;
+
+// Joins, topic changes and other system events carry no team language
+const SLACK_CONTENT_SUBTYPES = new Set([undefined, 'thread_broadcast', 'file_share', 'me_message']);
+
+const cleanSlackText = (text: string) =>
+  decodeEntities(
+    text
+      .replace(/<@([A-Z0-9]+)(?:\|[^>]*)?>/g, (_, id: string) => `@${anonymizeUserId(id)}`)
+      .replace(/<#[A-Z0-9]+\|([^>]*)>/g, '#$1')
+      .replace(/<!(here|channel|everyone)[^>]*>/g, '@$1')
+      .replace(/<([^>|]+)\|([^>]+)>/g, '$2')
+      .replace(/<([^>]+)>/g, '$1')
+  ).trim();
+
+export function parseSlackExport(files: Map<string, string>, options: ImportOptions): Omit<ParsedImport, 'fileName' | 'format'> {
+  const usersFile = Array.from(files.keys()).find(name => /(^|\/)users\.json$/.test(name));
+  const users: SlackExportUser[] = usersFile ? JSON.parse(files.get(usersFile) as string) : [];
+  // Handles (user.name) only appear as <@U…> mentions, which cleanSlackText replaces
+  const names = nameVariants(users.flatMap(user => [
+    user.real_name,
+    user.profile?.real_name,
+    user.profile?.display_name
+  ].filter((name): name is string => !!name)));
+
+  const messages: CommunicationMessage[] = [];
+  let skipped = 0;
+
+  for (const [path, content] of files) {
+    const match = path.match(SLACK_DAY_FILE);
+    if (!match) continue;
+    const channel = match[1];
+
+    for (const msg of JSON.parse(content) as SlackExportMessage[]) {
+      const text = msg.text ? cleanSlackText(msg.text) : '';
+      if (msg.type !== 'message' || !SLACK_CONTENT_SUBTYPES.has(msg.subtype) || !msg.ts || !text) {
+        skipped++;
+        continue;
+      }
+
+      // Timestamps repeat across channels, so ids are scoped by channel
+      const threadId = msg.thread_ts ? `${channel}:${msg.thread_ts}` : undefined;
+      messages.push(toMessage({
+        id: `${channel}:${msg.ts}`,
+        platform: 'slack',
+        channel,
+        text,
+        timestamp: new Date(parseFloat(msg.ts) * 1000).toISOString(),
+        author: msg.user,
+        teamId: options.teamId
+      }, {
+        messageType: 'chat',
+        isThread: !!msg.thread_ts,
+        threadId,
+        // Slack threads are flat: every reply answers the root
+        parentId: msg.thread_ts && msg.thread_ts !== msg.ts ? threadId : undefined
+      }, names));
+    }
+  }
+
+  return { messages, skipped };
+}
+
+// Email: RFC 5322 messages, one per .eml file or many per mbox
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+const decodeBytes = (bytes: Uint8Array, charset = 'utf-8') => {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder().decode(bytes);
+  }
+};
+
+const base64Bytes = (data: string) => {
+  try {
+    return Uint8Array.from(atob(data.replace(/[^A-Za-z0-9+/=]/g, '')), char => char.charCodeAt(0));
+  } catch {
+    return new Uint8Array();
+  }
+};
+
+const quotedPrintableBytes = (text: string) => {
+  const encoder = new TextEncoder();
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const hex = text[i] === '=' ? text.slice(i + 1, i + 3) : '';
+    if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...encoder.encode(text[i]));
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+// RFC 2047 encoded words, e.g. =?UTF-8?B?...?=
+const decodeHeader = (value: string) =>
+  value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, data: string) =>
+      decodeBytes(encoding.toUpperCase() === 'B' ? base64Bytes(data) : quotedPrintableBytes(data.replace(/_/g, ' ')), charset)
+    );
+
+const headerParam = (value: string | undefined, name: string) =>
+  value?.match(new RegExp(`;\\s*${name}="?([^";]+)"?`, 'i'))?.[1];
+
+function splitMimePart(raw: string): MimePart {
+  const separator = raw.search(/\r?\n\r?\n/);
+  const head = separator >= 0 ? raw.slice(0, separator) : raw;
+  const body = separator >= 0 ? raw.slice(separator).replace(/^\r?\n\r?\n/, '') : '';
+
+  const headers: Record<string, string> = {};
+  head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) return;
+    const key = line.slice(0, colon).trim().toLowerCase();
+    // Repeated headers such as Received keep their first (most recent) value
+    if (!(key in headers)) headers[key] = line.slice(colon + 1).trim();
+  });
+
+  return { headers, body };
+}
+
+function extractBody({ headers, body }: MimePart): { plain?: string; html?: string } {
+  const contentType = headers['content-type'] || 'text/plain';
+  const type = contentType.toLowerCase();
+  if ((headers['content-disposition'] || '').toLowerCase().startsWith('attachment')) return {};
+
+  if (type.startsWith('multipart/')) {
+    const boundary = headerParam(contentType, 'boundary');
+    if (!boundary) return {};
+    return body.split(`--${boundary}`)
+      .slice(1)
+      .filter(part => !part.startsWith('--'))
+      .map(part => extractBody(splitMimePart(part.replace(/^\r?\n/, ''))))
+      .reduce((found, part) => ({ plain: found.plain ?? part.plain, html: found.html ?? part.html }), {});
+  }
+  if (!type.startsWith('text/')) return {};
+
+  const encoding = (headers['content-transfer-encoding'] || '').toLowerCase();
+  const charset = headerParam(contentType, 'charset');
+  const text = encoding === 'base64' ? decodeBytes(base64Bytes(body), charset) :
+    encoding === 'quoted-printable' ? decodeBytes(quotedPrintableBytes(body.replace(/=\r?\n/g, '')), charset) :
+    body;
+  return type.startsWith('text/html') ? { html: text } : { plain: text };
+}
+
+// Quoted replies and signatures would count earlier messages and boilerplate again
+function stripQuotedText(text: string): string {
+  const kept: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (/^-- ?$/.test(line) || /^-+\s*Original Message\s*-+/i.test(line) || /^On .{0,200}wrote:\s*$/.test(line)) break;
+    if (!line.startsWith('>')) kept.push(line);
+  }
+  return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+interface Address {
+  name?: string;
+  address?: string;
+}
+
+const parseAddresses = (value = ''): Address[] =>
+  (decodeHeader(value).match(/(?:"[^"]*"|[^,])+/g) ?? []).map(entry => {
+    const angle = entry.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>/);
+    if (angle) return { name: angle[1].trim() || undefined, address: angle[2].trim().toLowerCase() };
+    const comment = entry.match(/([^\s(]+@[^\s(]+)\s*\(([^)]+)\)/);
+    if (comment) return { name: comment[2].trim(), address: comment[1].toLowerCase() };
+    return { address: entry.trim().toLowerCase() || undefined };
+  });
+
+/**
+ * Split an mbox archive into raw messages, undoing ">From " escaping.
+ */
+export function splitMbox(mbox: string): string[] {
+  return mbox
+    .split(/^From .*\r?\n/m)
+    .filter(raw => raw.trim())
+    .map(raw => raw.replace(/^>(>*From )/gm, '$1'));
+}
+
+export function parseEmails(rawMessages: string[], channel: string, options: ImportOptions): Omit<ParsedImport, 'fileName' | 'format'> {
+  const parsed = rawMessages.map(splitMimePart);
+  const names = nameVariants(parsed.flatMap(({ headers }) =>
+    ['from', 'to', 'cc'].flatMap(key => parseAddresses(headers[key]).map(address => address.name ?? ''))
+  ));
+
+  // Message-IDs carry sender addresses and hostnames. Hashing every id the
+  // same way keeps replies linked to their parents
+  const hashed = (id?: string) => (id ? anonymizeMessageId(id) : undefined);
+
+  const messages: CommunicationMessage[] = [];
+  let skipped = 0;
+
+  parsed.forEach((part, i) => {
+    const { headers } = part;
+    const date = new Date(headers['date'] ?? '');
+    const { plain, html } = extractBody(part);
+    const text = stripQuotedText(plain ?? (html ? htmlToText(html) : ''));
+    if (Number.isNaN(date.getTime()) || !text) {
+      skipped++;
+      return;
+    }
+
+    const thread = parseEmailThreadHeaders(headers);
+    const from = parseAddresses(headers['from'])[0];
+    const participants = new Set(
+      ['from', 'to', 'cc'].flatMap(key => parseAddresses(headers[key]).map(address => address.address)).filter(Boolean)
+    );
+
+    messages.push(toMessage({
+      id: hashed(thread.messageId) ?? `${channel}:${date.getTime()}:${i}`,
+      platform: 'email',
+      // Mailing list when present; the archive name otherwise
+      channel: headers['list-id']?.match(/<([^>]+)>/)?.[1] ?? channel,
+      text,
+      timestamp: date.toISOString(),
+      author: from?.address,
+      teamId: options.teamId
+    }, {
+      messageType: 'email',
+      participants: participants.size,
+      isThread: !!thread.parentId,
+      threadId: hashed(thread.threadId),
+      parentId: hashed(thread.parentId)
+    }, names));
+  });
+
+  return { messages, skipped };
+}
+
+// Teams: Graph chatMessage objects, bare or wrapped in chats or paged results
+
+interface TeamsExportMessage {
+  id?: string;
+  createdDateTime?: string;
+  messageType?: string;
+  replyToId?: string | null;
+  body?: { content?: string; contentType?: string };
+  from?: { user?: { id?: string; displayName?: string } | null } | null;
+}
+
+const isTeamsMessage = (value: unknown): value is TeamsExportMessage =>
+  typeof value === 'object' && value !== null && 'createdDateTime' in value && 'body' in value;
+
+function collectTeamsMessages(value: unknown, topic: string, found: { topic: string; message: TeamsExportMessage }[]) {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectTeamsMessages(item, topic, found));
+  } else if (isTeamsMessage(value)) {
+    found.push({ topic, message: value });
+  } else if (typeof value === 'object' && value !== null) {
+    const container = value as { topic?: string; displayName?: string; messages?: unknown; value?: unknown };
+    const containerTopic = container.topic || container.displayName || topic;
+    if (container.messages) collectTeamsMessages(container.messages, containerTopic, found);
+    if (container.value) collectTeamsMessages(container.value, containerTopic, found);
+  }
+}
+
+export function parseTeamsExport(json: unknown, channel: string, options: ImportOptions): Omit<ParsedImport, 'fileName' | 'format'> {
+  const found: { topic: string; message: TeamsExportMessage }[] = [];
+  collectTeamsMessages(json, channel, found);
+
+  const names = nameVariants(found.map(({ message }) => message.from?.user?.displayName ?? ''));
+  const messages: CommunicationMessage[] = [];
+  let skipped = 0;
+
+  for (const { topic, message } of found) {
+    const content = message.body?.content ?? '';
+    const text = message.body?.contentType === 'html' || /<[a-z][^>]*>/i.test(content) ? htmlToText(content) : content.trim();
+    const date = new Date(message.createdDateTime ?? '');
+    if ((message.messageType && message.messageType !== 'message') || !message.id || !text || Number.isNaN(date.getTime())) {
+      skipped++;
+      continue;
+    }
+
+    // Message ids are only unique within a chat, so ids are scoped by chat
+    messages.push(toMessage({
+      id: `${topic}:${message.id}`,
+      platform: 'teams',
+      channel: topic,
+      text,
+      timestamp: date.toISOString(),
+      author: message.from?.user?.id,
+      teamId: options.teamId
+    }, {
+      messageType: 'chat',
+      isThread: !!message.replyToId,
+      parentId: message.replyToId ? `${topic}:${message.replyToId}` : undefined
+    }, names));
+  }
+
+  return { messages, skipped };
+}
+
+// Transcripts: WebVTT (Zoom, Meet) and SubRip cues, merged into utterances per speaker
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker?: string;
+  text: string;
+}
+
+const CUE_TIMING = /((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+const cueSeconds = (timestamp: string) =>
+  timestamp.replace(',', '.').split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+
+export function parseCues(transcript: string): Cue[] {
+  return transcript
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n\s*\r?\n/)
+    .flatMap(block => {
+      const lines = block.split(/\r?\n/);
+      const timingLine = lines.findIndex(line => CUE_TIMING.test(line));
+      if (timingLine < 0) return []; // WEBVTT header, NOTE and STYLE blocks
+
+      const [, start, end] = lines[timingLine].match(CUE_TIMING) as RegExpMatchArray;
+      let text = lines.slice(timingLine + 1).join(' ').trim();
+
+      // <v Speaker> voice spans, or "Speaker: text" as Zoom writes them
+      let speaker = text.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/)?.[1]?.trim();
+      text = text.replace(/<[^>]+>/g, '').trim();
+      const prefix = !speaker && text.match(/^([^:]{1,40}):\s+(.+)$/s);
+      if (prefix) {
+        speaker = prefix[1].trim();
+        text = prefix[2];
+      }
+
+      return text ? [{ start: cueSeconds(start), end: cueSeconds(end), speaker, text: decodeEntities(text) }] : [];
+    });
+}
+
+export function parseTranscript(transcript: string, channel: string, options: ImportOptions): Omit<ParsedImport, 'fileName' | 'format'> {
+  const cues = parseCues(transcript);
+  const recordedAt = options.recordedAt ?? new Date();
+  const speakers = new Set(cues.map(cue => cue.speaker).filter((speaker): speaker is string => !!speaker));
+  const names = nameVariants(speakers);
+
+  const utterances = cues.reduce((merged, cue) => {
+    const last = merged[merged.length - 1];
+    if (last && last.speaker === cue.speaker && cue.start - last.end <= MAX_UTTERANCE_GAP_SECONDS) {
+      last.text = `${last.text} ${cue.text}`;
+      last.end = Math.max(last.end, cue.end);
+    } else {
+      merged.push({ ...cue });
+    }
+    return merged;
+  }, [] as Cue[]);
+
+  // Re-importing the same meeting replaces rather than duplicates its utterances
+  const meetingId = `${channel}:${recordedAt.getTime()}`;
+  const messages = utterances.map((utterance, i) => toMessage({
+    id: `${meetingId}:${i}`,
+    platform: 'transcript',
+    channel,
+    text: utterance.text,
+    timestamp: new Date(recordedAt.getTime() + utterance.start * 1000).toISOString(),
+    author: utterance.speaker,
+    teamId: options.teamId
+  }, {
+    messageType: 'transcript',
+    participants: speakers.size || undefined,
+    duration: Math.round(utterance.end - utterance.start),
+    threadId: meetingId
+  }, names));
+
+  return { messages, skipped: 0 };
+}
+
+export class BulkImporter {
+  /**
+   * Parse one file into anonymized messages, by its extension.
+   */
+  async parseFile(file: File, options: ImportOptions): Promise<ParsedImport> {
+    const format = detectFormat(file.name);
+    const channel = baseName(file.name);
+
+    switch (format) {
+      case 'slack': {
+        // Only the JSON entries of the export are needed; uploaded files are skipped
+        const decoder = new TextDecoder();
+        const entries = readZip(await file.arrayBuffer()).filter(entry => entry.name.endsWith('.json'));
+        const files = new Map<string, string>();
+        for (const entry of entries) {
+          files.set(entry.name, decoder.decode(await entry.read()));
+        }
+        return { fileName: file.name, format, ...parseSlackExport(files, options) };
+      }
+      case 'email': {
+        const text = await file.text();
+        const raw = file.name.toLowerCase().endsWith('.eml') ? [text] : splitMbox(text);
+        return { fileName: file.name, format, ...parseEmails(raw, channel, options) };
+      }
+      case 'teams':
+        return { fileName: file.name, format, ...parseTeamsExport(JSON.parse(await file.text()), channel, options) };
+      case 'transcript':
+        return {
+          fileName: file.name,
+          format,
+          ...parseTranscript(await file.text(), channel, { ...options, recordedAt: options.recordedAt ?? new Date(file.lastModified) })
+        };
+    }
+  }
+
+  /**
+   * Store, analyze and baseline parsed messages, oldest thread first.
+   * Messages older than the retention cutoff are skipped, since the next
+   * prune would delete them. Each chunk's analyses and the daily baselines it
+   * touches are saved as it completes, so a cancelled import keeps both.
+   */
+  async importMessages(
+    messages: CommunicationMessage[],
+    options: { onProgress?: (progress: ImportProgress) => void; signal?: AbortSignal } = {}
+  ): Promise<ImportSummary> {
+    const { onProgress, signal } = options;
+    const cutoff = signalStore.getRetentionCutoff();
+    const ordered = messages
+      .filter(message => message.timestamp >= cutoff)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    onProgress?.({ stage: 'storing', completed: 0, total: ordered.length });
+    await signalStore.saveMessages(ordered);
+
+    const stored: StoredAnalysis[] = [];
+    const days = new Map<string, AnalysisResult[]>();
+    let analyzed = 0;
+
+    for (const chunk of threadChunks(ordered)) {
+      const start = analyzed;
+      const { messages: analyzedMessages, analyses } = await nlpEngine.analyzeConversations(chunk, {
+        signal,
+        onProgress: completed => onProgress?.({ stage: 'analyzing', completed: start + completed, total: ordered.length })
+      });
+
+      const chunkAnalyses = analyses.map((analysis, i) => ({
+        ...analysis,
+        id: `analysis_${analyzedMessages[i].id}`,
+        teamId: analyzedMessages[i].teamId,
+        messageId: analyzedMessages[i].id,
+        timestamp: analyzedMessages[i].timestamp
+      }));
+      await signalStore.saveAnalyses(chunkAnalyses);
+      stored.push(...chunkAnalyses);
+      analyzed += chunk.length;
+
+      // One snapshot per team and day, dated at the end of the day. A day
+      // spread over several chunks is rewritten with everything so far
+      const touched = new Set<string>();
+      chunkAnalyses.forEach(analysis => {
+        const key = `${analysis.teamId}|${analysis.timestamp.slice(0, 10)}`;
+        days.set(key, [...(days.get(key) || []), analysis]);
+        touched.add(key);
+      });
+      for (const key of touched) {
+        const [teamId, day] = key.split('|');
+        await nlpEngine.saveBaseline(teamId, days.get(key) as AnalysisResult[], new Date(`${day}T23:59:59.999Z`));
+      }
+    }
+
+    const teams = Array.from(new Set(stored.map(analysis => analysis.teamId)));
+    for (const [i, teamId] of teams.entries()) {
+      onProgress?.({ stage: 'indexing', completed: i, total: teams.length });
+      await nlpEngine.updateFragmentationIndex(teamId);
+    }
+
+    return {
+      messages: stored.length,
+      teams,
+      from: ordered[0]?.timestamp ?? null,
+      to: ordered[ordered.length - 1]?.timestamp ?? null,
+      baselines: days.size,
+      expired: messages.length - ordered.length
+    };
+  }
+}
+
+/**
+ * Messages split into chunks of whole threads, oldest thread first, so
+ * thread-level metrics see every reply.
+ */
+function threadChunks(messages: CommunicationMessage[]): CommunicationMessage[][] {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const threads = reconstructThreads(messages).sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  const chunks: CommunicationMessage[][] = [];
+  let current: CommunicationMessage[] = [];
+
+  threads.forEach(thread => {
+    current.push(...thread.messageIds.map(id => byId.get(id) as CommunicationMessage));
+    if (current.length >= ANALYSIS_CHUNK_SIZE) {
+      chunks.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+export const bulkImporter = new BulkImporter();
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { detectChangePoints, type TimeSeriesPoint } from "./change-point-detection";
+
+const series = (values: number[]): TimeSeriesPoint[] => values.map((value, i) => ({
+  date: new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10),
+  value,
+  count: 1
+}));
+
+// Small alternating noise keeps the warm-up deviation non-zero
+const noisy = (level: number, length: number) =>
+  Array.from({ length }, (_, i) => level + (i % 2 === 0 ? 0.01 : -0.01));
+
+describe("detectChangePoints", () => {
+  it("finds nothing in a stable series", () => {
+    expect(detectChangePoints('hedging', series(noisy(0.5, 30)))).toEqual([]);
+  });
+
+  it("detects a sustained increase with its onset", () => {
+    const [change, ...rest] = detectChangePoints('hedging', series([...noisy(0.5, 10), ...noisy(0.8, 10)]));
+
+    expect(rest).toEqual([]);
+    expect(change.metric).toBe('hedging');
+    expect(change.direction).toBe('increase');
+    expect(change.onset).toBe('2024-01-11');
+    expect(change.detectedAt >= change.onset).toBe(true);
+    expect(change.before).toBeCloseTo(0.5, 1);
+    expect(change.after).toBeCloseTo(0.8, 1);
+    expect(change.magnitude).toBeGreaterThan(0);
+  });
+
+  it("detects a decrease", () => {
+    const [change] = detectChangePoints('hedging', series([...noisy(0.8, 9), ...noisy(0.2, 10)]));
+    expect(change.direction).toBe('decrease');
+    expect(change.onset).toBe('2024-01-10');
+    expect(change.magnitude).toBeLessThan(0);
+  });
+
+  it("restarts monitoring after each shift", () => {
+    const changes = detectChangePoints('hedging', series([...noisy(0.2, 10), ...noisy(0.6, 12), ...noisy(0.2, 12)]));
+    expect(changes.map(change => change.direction)).toEqual(['increase', 'decrease']);
+  });
+
+  it("ignores single outliers within the drift allowance", () => {
+    const values = noisy(0.5, 20);
+    values[12] = 0.52;
+    expect(detectChangePoints('hedging', series(values))).toEqual([]);
+  });
+
+  it("needs more points than the warm-up", () => {
+    expect(detectChangePoints('hedging', series([0.1, 0.9, 0.1]))).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+import type { StoredAnalysis } from '@/lib/signal-store';
+import { computeStatistics, DRIFT_METRICS, type DriftMetric } from '@/lib/baseline-statistics';
+
+export interface TimeSeriesPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+  count: number; // analyses averaged into this point
+}
+
+export interface ChangePoint {
+  metric: DriftMetric;
+  onset: string;      // first date of the new regime
+  detectedAt: string; // date the shift became significant
+  direction: 'increase' | 'decrease';
+  before: number;     // mean of the previous regime
+  after: number;      // mean from onset to detection
+  magnitude: number;  // shift in reference standard deviations
+}
+
+export interface CusumOptions {
+  // Allowed slack per step, in standard deviations (k)
+  drift?: number;
+  // Decision interval, in standard deviations (h)
+  threshold?: number;
+  // Points used to estimate the in-control mean and deviation
+  warmup?: number;
+}
+
+const DEFAULT_OPTIONS: Required<CusumOptions> = {
+  drift: 0.5,
+  threshold: 5,
+  warmup: 7
+};
+
+/**
+ * Average analyses into one point per calendar day, oldest first.
+ */
+export function dailySeries(analyses: StoredAnalysis[], metric: DriftMetric): TimeSeriesPoint[] {
+  const buckets = new Map<string, number[]>();
+  analyses.forEach(analysis => {
+    const value = DRIFT_METRICS[metric].extract(analysis);
+    if (!Number.isFinite(value)) return;
+
+    const date = analysis.timestamp.slice(0, 10);
+    const values = buckets.get(date) || [];
+    values.push(value);
+    buckets.set(date, values);
+  });
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, values]) => ({
+      date,
+      value: values.reduce((sum, v) => sum + v, 0) / values.length,
+      count: values.length
+    }));
+}
+
+/**
+ * Two-sided tabular CUSUM. The in-control regime is estimated from the first
+ * `warmup` points; once either sum crosses the threshold a change point is
+ * recorded with its onset at the last point where that sum was zero, and
+ * monitoring restarts with a fresh reference taken from the new regime.
+ */
+export function detectChangePoints(
+  metric: DriftMetric,
+  series: TimeSeriesPoint[],
+  options: CusumOptions = {}
+): ChangePoint[] {
+  const { drift, threshold, warmup } = { ...DEFAULT_OPTIONS, ...options };
+  const values = series.map(point => point.value);
+  const fallbackStdDev = computeStatistics(values).stdDev;
+  const changePoints: ChangePoint[] = [];
+
+  let start = 0;
+  while (start + warmup < values.length) {
+    const reference = computeStatistics(values.slice(start, start + warmup));
+    // A flat warm-up period would make every later wobble look significant
+    const stdDev = reference.stdDev > 1e-6 ? reference.stdDev : fallbackStdDev;
+    if (stdDev < 1e-6) break;
+
+    let upper = 0;
+    let lower = 0;
+    let upperOnset = start + warmup;
+    let lowerOnset = start + warmup;
+    let detected: ChangePoint | null = null;
+    let onsetIndex = -1;
+
+    for (let i = start + warmup; i < values.length; i++) {
+      const z = (values[i] - reference.mean) / stdDev;
+      upper = Math.max(0, upper + z - drift);
+      lower = Math.max(0, lower - z - drift);
+      if (upper === 0) upperOnset = i + 1;
+      if (lower === 0) lowerOnset = i + 1;
+
+      if (upper > threshold || lower > threshold) {
+        const direction = upper > threshold ? 'increase' : 'decrease';
+        onsetIndex = Math.min(direction === 'increase' ? upperOnset : lowerOnset, i);
+        const after = computeStatistics(values.slice(onsetIndex, i + 1)).mean;
+
+        detected = {
+          metric,
+          onset: series[onsetIndex].date,
+          detectedAt: series[i].date,
+          direction,
+          before: reference.mean,
+          after,
+          magnitude: (after - reference.mean) / stdDev
+        };
+        break;
+      }
+    }
+
+    if (!detected) break;
+    changePoints.push(detected);
+    start = onsetIndex;
+  }
+
+  return changePoints;
+}
@@ -0,0 +1,132 @@
+import type { AnalysisResult } from '@/lib/nlp-engine';
+import { DRIFT_METRICS, type DriftMetric } from '@/lib/baseline-statistics';
+
+/**
+ * Coherence metrics shown on the Coherence Engine card: the mean of each
+ * metric over a period, its change against the preceding period of the same
+ * length, and a status from configurable thresholds.
+ */
+
+export type CoherenceStatus = 'healthy' | 'warning' | 'critical';
+
+export type CoherenceTrend = 'up' | 'down' | 'stable';
+
+export interface CoherenceThreshold {
+  metric: DriftMetric;
+  // Values below warning are a warning, below critical critical
+  warning: number;
+  critical: number;
+  // Top of the card's bar; the metric's natural range
+  max: number;
+  unit: string;
+}
+
+export interface CoherenceMetric {
+  metric: DriftMetric;
+  label: string;
+  value: number | null;    // null without analyses in the period
+  previous: number | null;
+  change: number | null;   // percent change vs previous period
+  trend: CoherenceTrend;
+  status: CoherenceStatus;
+  sampleSize: number;
+  threshold: CoherenceThreshold;
+}
+
+const STORAGE_KEY = 'signalvault_coherence_thresholds';
+
+// Relative change below which a metric counts as stable
+export const TREND_TOLERANCE = 0.05;
+
+export const DEFAULT_COHERENCE_THRESHOLDS: CoherenceThreshold[] = [
+  { metric: 'symbolAlignment', warning: 65, critical: 50, max: 100, unit: '%' },
+  { metric: 'metaphorDensity', warning: 2, critical: 1, max: 10, unit: '%' },
+  { metric: 'narrativeCoherence', warning: 60, critical: 40, max: 100, unit: '%' },
+  { metric: 'modalCompression', warning: 90, critical: 80, max: 100, unit: '%' }
+];
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+export function coherenceStatus(value: number | null, threshold: CoherenceThreshold): CoherenceStatus {
+  if (value === null) return 'warning';
+  if (value < threshold.critical) return 'critical';
+  if (value < threshold.warning) return 'warning';
+  return 'healthy';
+}
+
+export function coherenceTrend(value: number | null, previous: number | null): CoherenceTrend {
+  if (value === null || previous === null) return 'stable';
+  const change = (value - previous) / Math.max(Math.abs(previous), 1e-6);
+  if (Math.abs(change) < TREND_TOLERANCE) return 'stable';
+  return change > 0 ? 'up' : 'down';
+}
+
+export function aggregateCoherence(
+  current: AnalysisResult[],
+  previous: AnalysisResult[],
+  thresholds: CoherenceThreshold[]
+): CoherenceMetric[] {
+  return thresholds.map(threshold => {
+    const { label, extract } = DRIFT_METRICS[threshold.metric];
+    const currentValues = current.map(extract).filter(Number.isFinite);
+    const value = mean(currentValues);
+    const before = mean(previous.map(extract).filter(Number.isFinite));
+
+    return {
+      metric: threshold.metric,
+      label,
+      value,
+      previous: before,
+      change: value !== null && before !== null && Math.abs(before) > 1e-6 ? ((value - before) / Math.abs(before)) * 100 : null,
+      trend: coherenceTrend(value, before),
+      status: coherenceStatus(value, threshold),
+      sampleSize: currentValues.length,
+      threshold
+    };
+  });
+}
+
+/**
+ * Coherence thresholds persisted in localStorage, defaulting per metric.
+ */
+export class CoherenceThresholdStore {
+  private thresholds: CoherenceThreshold[];
+
+  constructor() {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const saved: CoherenceThreshold[] = stored ? JSON.parse(stored) : [];
+    this.thresholds = DEFAULT_COHERENCE_THRESHOLDS.map(threshold => ({
+      ...threshold,
+      ...saved.find(s => s.metric === threshold.metric)
+    }));
+  }
+
+  listThresholds(): CoherenceThreshold[] {
+    return this.thresholds.map(threshold => ({ ...threshold }));
+  }
+
+  saveThreshold(threshold: CoherenceThreshold): CoherenceThreshold {
+    if (![threshold.warning, threshold.critical].every(Number.isFinite)) {
+      throw new Error('Thresholds must be numbers');
+    }
+    if (threshold.critical > threshold.warning) {
+      throw new Error('Critical threshold must not exceed the warning threshold');
+    }
+
+    this.thresholds = this.thresholds.map(t => (t.metric === threshold.metric ? { ...threshold } : t));
+    this.persist();
+    return threshold;
+  }
+
+  resetToDefaults() {
+    this.thresholds = DEFAULT_COHERENCE_THRESHOLDS.map(threshold => ({ ...threshold }));
+    this.persist();
+  }
+
+  private persist() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.thresholds));
+  }
+}
+
+export const coherenceThresholdStore = new CoherenceThresholdStore();
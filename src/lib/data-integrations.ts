@@ -1,3 +1,5 @@
+import { fnv1a64 } from '@/lib/fnv-hash';
+
 export interface IntegrationConfig {
   platform: 'slack' | 'teams' | 'zoom' | 'google';
   apiKey?: string;
@@ -20,9 +22,79 @@ export interface CommunicationMessage {
     participants?: number;
     duration?: number;
     isThread?: boolean;
+    threadId?: string; // platform thread root (Slack thread_ts, email References root)
+    parentId?: string; // message replied to (Teams replyToId, email In-Reply-To)
   };
 }
 
+// Fields of a Slack conversations.history/replies message we read
+interface SlackMessage {
+  ts: string;
+  text: string;
+  user: string;
+  thread_ts?: string;
+  reply_count?: number;
+  latest_reply?: string; // ts of the newest reply, on thread parents
+}
+
+// Attempts per Slack API call when rate limited
+const SLACK_MAX_ATTEMPTS = 3;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const COMMON_NAMES = ['john', 'jane', 'mike', 'sarah', 'david', 'emily', 'chris', 'lisa'];
+
+// One alternation, longest first so full names mask before their parts. \b
+// only knows ASCII word characters, so boundaries are checked on letters and
+// digits of any script to catch names like "José" or "Zoë"
+const namePattern = (names: string[], flags: string) => new RegExp(
+  `(?<![\\p{L}\\p{N}])(?:${[...names].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`,
+  `${flags}u`
+);
+
+/**
+ * Mask emails, phone numbers and names. Names are a short list of common
+ * first names plus any participant names the caller knows of.
+ */
+export function anonymizeText(text: string, names: string[] = []): string {
+  // Remove email addresses
+  text = text.replace(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g, '[EMAIL]');
+
+  // Remove phone numbers
+  text = text.replace(/\b\d{3}[-.]?\d{3}[-.]?\d{4}\b/g, '[PHONE]');
+
+  // Participant names match case-sensitively so a "Will" leaves the word "will" alone
+  const participants = names.map(name => name.trim()).filter(Boolean);
+  if (participants.length > 0) {
+    text = text.replace(namePattern(participants, 'g'), '[NAME]');
+  }
+
+  // Remove common names (basic implementation)
+  return text.replace(namePattern(COMMON_NAMES, 'gi'), '[NAME]');
+}
+
+export function anonymizeUserId(userId?: string): string {
+  if (!userId) return 'anonymous';
+
+  // Create a consistent hash of the user ID
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    const char = userId.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+
+  return `user_${Math.abs(hash)}`;
+}
+
+/**
+ * Opaque stand-in for an identifier that may embed a person or host, such as
+ * an email Message-ID. 64-bit, since these ids key stored messages.
+ */
+export function anonymizeMessageId(id: string): string {
+  return `msg_${fnv1a64(id)}`;
+}
+
 export class DataIntegrationManager {
   private configs: Map<string, IntegrationConfig> = new Map();
 
@@ -157,45 +229,39 @@ export class DataIntegrationManager {
   private async fetchSlackMessages(config: IntegrationConfig, since: string): Promise<CommunicationMessage[]> {
     if (!config.accessToken) return [];
 
-    // First get channels
-    const channelsResponse = await fetch('https://slack.com/api/conversations.list', {
-      headers: {
-        'Authorization': `Bearer ${config.accessToken}`,
-        'Content-Type': 'application/json'
-      }
-    });
+    const oldest = String(Math.floor(new Date(since).getTime() / 1000));
 
-    const channelsData = await channelsResponse.json();
+    // First get channels
+    const channelsData = await this.slackApi('conversations.list', {}, config.accessToken);
     if (!channelsData.ok) return [];
 
     const messages: CommunicationMessage[] = [];
 
     // Fetch messages from each channel
     for (const channel of channelsData.channels.slice(0, 10)) { // Limit to first 10 channels
-      const historyResponse = await fetch(`https://slack.com/api/conversations.history?channel=${channel.id}&oldest=${Math.floor(new Date(since).getTime() / 1000)}`, {
-        headers: {
-          'Authorization': `Bearer ${config.accessToken}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      const historyData = await historyResponse.json();
+      const historyData = await this.slackApi('conversations.history', { channel: channel.id, oldest }, config.accessToken);
       if (historyData.ok && historyData.messages) {
         for (const msg of historyData.messages) {
           if (msg.text && msg.text.trim()) {
-            messages.push({
-              id: msg.ts,
-              platform: 'slack',
-              channel: channel.name || channel.id,
-              text: this.anonymizeText(msg.text),
-              timestamp: new Date(parseFloat(msg.ts) * 1000).toISOString(),
-              userId: this.anonymizeUserId(msg.user),
-              teamId: 'default',
-              metadata: {
-                messageType: 'chat',
-                isThread: !!msg.thread_ts
+            messages.push(this.toSlackMessage(msg, channel));
+          }
+
+          // History only returns thread parents; replies are fetched per thread,
+          // skipping threads with no reply inside the sync window
+          const hasNewReplies = !msg.latest_reply || parseFloat(msg.latest_reply) >= Number(oldest);
+          if (msg.reply_count > 0 && msg.thread_ts && hasNewReplies) {
+            const repliesData = await this.slackApi(
+              'conversations.replies',
+              { channel: channel.id, ts: msg.thread_ts, oldest },
+              config.accessToken
+            );
+            if (repliesData.ok && repliesData.messages) {
+              for (const reply of repliesData.messages) {
+                if (reply.ts !== msg.ts && reply.text && reply.text.trim()) {
+                  messages.push(this.toSlackMessage(reply, channel));
+                }
               }
-            });
+            }
           }
         }
       }
@@ -204,6 +270,48 @@ export class DataIntegrationManager {
     return messages;
   }
 
+  /**
+   * Call a Slack Web API method. Slack answers 429 with Retry-After when a
+   * method's rate tier is exceeded; the call waits and retries a few times.
+   */
+  private async slackApi(method: string, params: Record<string, string>, accessToken: string) {
+    const url = `https://slack.com/api/${method}?${new URLSearchParams(params)}`;
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await fetch(url, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      });
+      if (response.status !== 429 || attempt >= SLACK_MAX_ATTEMPTS) {
+        return response.json();
+      }
+
+      const retryAfterSeconds = Number(response.headers.get('Retry-After')) || 1;
+      await new Promise(resolve => setTimeout(resolve, retryAfterSeconds * 1000));
+    }
+  }
+
+  private toSlackMessage(msg: SlackMessage, channel: { id: string; name?: string }): CommunicationMessage {
+    return {
+      id: msg.ts,
+      platform: 'slack',
+      channel: channel.name || channel.id,
+      text: anonymizeText(msg.text),
+      timestamp: new Date(parseFloat(msg.ts) * 1000).toISOString(),
+      userId: anonymizeUserId(msg.user),
+      teamId: 'default',
+      metadata: {
+        messageType: 'chat',
+        isThread: !!msg.thread_ts,
+        threadId: msg.thread_ts,
+        // Slack threads are flat: every reply answers the root
+        parentId: msg.thread_ts && msg.thread_ts !== msg.ts ? msg.thread_ts : undefined
+      }
+    };
+  }
+
   private async fetchTeamsMessages(config: IntegrationConfig, since: string): Promise<CommunicationMessage[]> {
     if (!config.accessToken) return [];
 
@@ -235,12 +343,14 @@ export class DataIntegrationManager {
                 id: msg.id,
                 platform: 'teams',
                 channel: chat.topic || 'Direct Chat',
-                text: this.anonymizeText(this.stripHtml(msg.body.content)),
+                text: anonymizeText(this.stripHtml(msg.body.content)),
                 timestamp: msg.createdDateTime,
-                userId: this.anonymizeUserId(msg.from?.user?.id),
+                userId: anonymizeUserId(msg.from?.user?.id),
                 teamId: 'default',
                 metadata: {
-                  messageType: 'chat'
+                  messageType: 'chat',
+                  isThread: !!msg.replyToId,
+                  parentId: msg.replyToId || undefined
                 }
               });
             }
@@ -264,37 +374,6 @@ export class DataIntegrationManager {
     return [];
   }
 
-  private anonymizeText(text: string): string {
-    // Remove email addresses
-    text = text.replace(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g, '[EMAIL]');
-    
-    // Remove phone numbers
-    text = text.replace(/\b\d{3}[-.]?\d{3}[-.]?\d{4}\b/g, '[PHONE]');
-    
-    // Remove common names (basic implementation)
-    const commonNames = ['john', 'jane', 'mike', 'sarah', 'david', 'emily', 'chris', 'lisa'];
-    commonNames.forEach(name => {
-      const regex = new RegExp(`\\b${name}\\b`, 'gi');
-      text = text.replace(regex, '[NAME]');
-    });
-
-    return text;
-  }
-
-  private anonymizeUserId(userId?: string): string {
-    if (!userId) return 'anonymous';
-    
-    // Create a consistent hash of the user ID
-    let hash = 0;
-    for (let i = 0; i < userId.length; i++) {
-      const char = userId.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    
-    return `user_${Math.abs(hash)}`;
-  }
-
   private stripHtml(html: string): string {
     const tmp = document.createElement('div');
     tmp.innerHTML = html;
@@ -332,17 +411,29 @@ export class DataIntegrationManager {
       'We need more visibility into the process'
     ];
 
+    // Oldest first so replies always follow their parent
+    const timestamps = Array.from({ length: count }, () => Date.now() - Math.random() * 24 * 60 * 60 * 1000)
+      .sort((a, b) => a - b);
+
     for (let i = 0; i < count; i++) {
+      const channel = channels[Math.floor(Math.random() * channels.length)];
+      const earlier = messages.filter(m => m.channel === channel);
+      const parent = earlier.length > 0 && Math.random() < 0.4
+        ? earlier[Math.floor(Math.random() * earlier.length)]
+        : undefined;
+
       messages.push({
         id: `mock_${Date.now()}_${i}`,
-        platform: platforms[Math.floor(Math.random() * platforms.length)],
-        channel: channels[Math.floor(Math.random() * channels.length)],
+        platform: parent?.platform || platforms[Math.floor(Math.random() * platforms.length)],
+        channel,
         text: sampleTexts[Math.floor(Math.random() * sampleTexts.length)],
-        timestamp: new Date(Date.now() - Math.random() * 24 * 60 * 60 * 1000).toISOString(),
+        timestamp: new Date(timestamps[i]).toISOString(),
         userId: `user_${Math.floor(Math.random() * 100)}`,
-        teamId: channels[Math.floor(Math.random() * channels.length)],
+        teamId: parent?.teamId || channels[Math.floor(Math.random() * channels.length)],
         metadata: {
-          messageType: 'chat' as const
+          messageType: 'chat' as const,
+          isThread: !!parent,
+          parentId: parent?.id
         }
       });
     }
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { TrackedAlert } from "./alert-store";
+import type { AnalysisResult } from "./nlp-engine";
+import { compileDigest, renderDigestHtml, renderDigestMarkdown } from "./digest-report";
+
+const range = { from: '2024-03-01T00:00:00.000Z', to: '2024-03-02T00:00:00.000Z' };
+
+const alert = (overrides: Partial<TrackedAlert> = {}): TrackedAlert => ({
+  id: 'tracked_1',
+  dedupKey: 'drift:engineering:tone_collapse',
+  source: 'drift',
+  state: 'new',
+  type: 'tone_collapse',
+  severity: 'high',
+  message: 'Emotional fragmentation spike',
+  deviation: 3.2,
+  timestamp: '2024-03-01T09:00:00.000Z',
+  cluster: 'engineering',
+  firstSeenAt: '2024-03-01T09:00:00.000Z',
+  lastSeenAt: '2024-03-01T09:00:00.000Z',
+  occurrences: 1,
+  history: [],
+  ...overrides
+});
+
+const digestFor = (alerts: TrackedAlert[]) => compileDigest(
+  'daily',
+  range,
+  Object.fromEntries(alerts.map(a => [a.cluster, [] as AnalysisResult[]])),
+  {},
+  alerts
+);
+
+describe("compileDigest", () => {
+  it("counts alerts per team and orders them by severity", () => {
+    const digest = digestFor([
+      alert({ id: 'a', severity: 'medium' }),
+      alert({ id: 'b', severity: 'critical', type: 'mission_drift' }),
+      alert({ id: 'c', severity: 'high', cluster: 'sales' })
+    ]);
+
+    expect(digest.alerts.map(a => a.id)).toEqual(['b', 'c', 'a']);
+    expect(digest.teams.map(team => team.teamId)).toEqual(['engineering', 'sales']);
+    expect(digest.teams[0].alertCounts).toEqual({ critical: 1, high: 0, medium: 1, low: 0 });
+    expect(digest.teams[0].missionResonance).toEqual({ current: null, previous: null });
+  });
+
+  it("leaves out teams without analyses or alerts", () => {
+    const digest = compileDigest('weekly', range, { quiet: [] }, {}, []);
+    expect(digest.teams).toEqual([]);
+    expect(digest.messageCount).toBe(0);
+  });
+});
+
+describe("renderDigestMarkdown", () => {
+  it("escapes pipes and line breaks in team ids, clusters and messages", () => {
+    const markdown = renderDigestMarkdown(digestFor([
+      alert({ cluster: 'eng|ops\n# Injected', message: 'Spike | in\nthe table' })
+    ]));
+
+    expect(markdown).toContain('### eng\\|ops # Injected');
+    expect(markdown).toContain('| eng\\|ops # Injected | New | Spike \\| in the table |');
+    expect(markdown).not.toMatch(/^# Injected/m);
+  });
+});
+
+describe("renderDigestHtml", () => {
+  it("escapes team ids, clusters and messages", () => {
+    const html = renderDigestHtml(digestFor([
+      alert({ cluster: '<img src=x onerror=alert(1)>', message: 'Tone "collapsed" & <b>worse</b>' })
+    ]));
+
+    expect(html).not.toContain('<img');
+    expect(html).toContain('<h3>&lt;img src=x onerror=alert(1)&gt;</h3>');
+    expect(html).toContain('Tone &quot;collapsed&quot; &amp; &lt;b&gt;worse&lt;/b&gt;');
+  });
+
+  it("says so when nothing happened", () => {
+    const html = renderDigestHtml(compileDigest('daily', range, {}, {}, []));
+    expect(html).toContain('No drift alerts in this period.');
+    expect(html).toContain('No team activity in this period.');
+  });
+});
@@ -0,0 +1,315 @@
+import type { AnalysisResult, DriftAlert } from '@/lib/nlp-engine';
+import { DRIFT_METRICS, type DriftMetric } from '@/lib/baseline-statistics';
+import { alertStore, ALERT_STATES, ALERT_TYPE_LABELS, type TrackedAlert } from '@/lib/alert-store';
+import { REPAIR_PROMPTS, type ResonanceRepairPrompt } from '@/lib/stabilization-prompts';
+import { signalStore } from '@/lib/signal-store';
+
+/**
+ * Digest reports: per-team mission resonance, drift alerts, the metrics that
+ * moved most against the preceding period and repair prompts for the alerts
+ * raised, rendered as Markdown and standalone HTML.
+ */
+
+export type DigestPeriod = 'daily' | 'weekly';
+
+export interface MetricChange {
+  metric: DriftMetric;
+  label: string;
+  current: number;
+  previous: number;
+  change: number;
+  relativeChange: number | null; // percent; null when the previous mean is ~0
+}
+
+export interface TeamDigest {
+  teamId: string;
+  messageCount: number;
+  missionResonance: { current: number | null; previous: number | null };
+  alertCounts: Record<DriftAlert['severity'], number>;
+  topChanges: MetricChange[];
+  prompts: ResonanceRepairPrompt[];
+}
+
+export interface Digest {
+  period: DigestPeriod;
+  from: string;
+  to: string;
+  generatedAt: string;
+  messageCount: number;
+  teams: TeamDigest[];
+  alerts: TrackedAlert[]; // drift alerts seen in the period, most severe first
+}
+
+export const DIGEST_PERIODS: Record<DigestPeriod, { label: string; days: number; previousLabel: string }> = {
+  daily: { label: 'Daily', days: 1, previousLabel: 'previous day' },
+  weekly: { label: 'Weekly', days: 7, previousLabel: 'previous week' }
+};
+
+// Means over fewer analyses than this are too noisy to report as changes
+const MIN_CHANGE_SAMPLES = 3;
+const MAX_CHANGES = 3;
+const MAX_PROMPTS = 3;
+const MAX_ALERTS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SEVERITY_RANK: Record<DriftAlert['severity'], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+const SEVERITIES: DriftAlert['severity'][] = ['critical', 'high', 'medium', 'low'];
+
+const finiteValues = (analyses: AnalysisResult[], metric: DriftMetric) =>
+  analyses.map(DRIFT_METRICS[metric].extract).filter(Number.isFinite);
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+/**
+ * Metrics with the largest relative change between two periods.
+ */
+export function topMetricChanges(current: AnalysisResult[], previous: AnalysisResult[], limit: number = MAX_CHANGES): MetricChange[] {
+  return (Object.keys(DRIFT_METRICS) as DriftMetric[])
+    .flatMap(metric => {
+      const now = finiteValues(current, metric);
+      const before = finiteValues(previous, metric);
+      if (now.length < MIN_CHANGE_SAMPLES || before.length < MIN_CHANGE_SAMPLES) return [];
+
+      const currentMean = mean(now) as number;
+      const previousMean = mean(before) as number;
+      const change = currentMean - previousMean;
+      return [{
+        metric,
+        label: DRIFT_METRICS[metric].label,
+        current: currentMean,
+        previous: previousMean,
+        change,
+        relativeChange: Math.abs(previousMean) > 1e-6 ? (change / Math.abs(previousMean)) * 100 : null
+      }];
+    })
+    .sort((a, b) => Math.abs(b.relativeChange ?? 0) - Math.abs(a.relativeChange ?? 0))
+    .slice(0, limit);
+}
+
+/**
+ * One prompt per alert type raised for a team, most severe type first.
+ */
+export function recommendPrompts(alerts: TrackedAlert[], limit: number = MAX_PROMPTS): ResonanceRepairPrompt[] {
+  const types = [...alerts]
+    .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity])
+    .map(alert => alert.type)
+    .filter((type, i, all) => all.indexOf(type) === i);
+
+  return types
+    .flatMap(type => REPAIR_PROMPTS[type]?.slice(0, 1) ?? [])
+    .slice(0, limit);
+}
+
+export function compileDigest(
+  period: DigestPeriod,
+  range: { from: string; to: string },
+  current: Record<string, AnalysisResult[]>,
+  previous: Record<string, AnalysisResult[]>,
+  alerts: TrackedAlert[]
+): Digest {
+  const teams = Object.keys(current)
+    .filter(teamId => current[teamId].length > 0 || alerts.some(alert => alert.cluster === teamId))
+    .map(teamId => {
+      const teamAlerts = alerts.filter(alert => alert.cluster === teamId);
+      const alertCounts = Object.fromEntries(
+        SEVERITIES.map(severity => [severity, teamAlerts.filter(alert => alert.severity === severity).length])
+      ) as Record<DriftAlert['severity'], number>;
+
+      return {
+        teamId,
+        messageCount: current[teamId].length,
+        missionResonance: {
+          current: mean(finiteValues(current[teamId], 'missionResonance')),
+          previous: mean(finiteValues(previous[teamId] || [], 'missionResonance'))
+        },
+        alertCounts,
+        topChanges: topMetricChanges(current[teamId], previous[teamId] || []),
+        prompts: recommendPrompts(teamAlerts)
+      };
+    });
+
+  return {
+    period,
+    from: range.from,
+    to: range.to,
+    generatedAt: new Date().toISOString(),
+    messageCount: teams.reduce((sum, team) => sum + team.messageCount, 0),
+    teams,
+    alerts: [...alerts]
+      .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || b.lastSeenAt.localeCompare(a.lastSeenAt))
+      .slice(0, MAX_ALERTS)
+  };
+}
+
+/**
+ * Digest of the period ending at asOf, compared with the period before it.
+ */
+export async function generateDigest(period: DigestPeriod, asOf: Date = new Date()): Promise<Digest> {
+  const span = DIGEST_PERIODS[period].days * DAY_MS;
+  const to = asOf.toISOString();
+  const from = new Date(asOf.getTime() - span).toISOString();
+  const previousFrom = new Date(asOf.getTime() - 2 * span).toISOString();
+
+  const teamIds = await signalStore.getTeamIds();
+  const analyses = await Promise.all(teamIds.map(teamId => signalStore.getAnalyses(teamId, { from: previousFrom, to })));
+  const current = Object.fromEntries(teamIds.map((teamId, i) => [teamId, analyses[i].filter(a => a.timestamp >= from)]));
+  const previous = Object.fromEntries(teamIds.map((teamId, i) => [teamId, analyses[i].filter(a => a.timestamp < from)]));
+  const alerts = await alertStore.list({ sources: ['drift'], range: { from, to } });
+
+  return compileDigest(period, { from, to }, current, previous, alerts);
+}
+
+// Rendering
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+const formatNumber = (value: number | null, digits = 1) => (value === null ? '–' : value.toFixed(digits));
+
+const formatChange = (change: MetricChange) =>
+  `${change.change >= 0 ? '+' : ''}${change.change.toFixed(2)}` +
+  (change.relativeChange !== null ? ` (${change.relativeChange >= 0 ? '+' : ''}${change.relativeChange.toFixed(0)}%)` : '');
+
+const formatAlertCounts = (counts: TeamDigest['alertCounts']) => {
+  const parts = SEVERITIES.filter(severity => counts[severity] > 0).map(severity => `${counts[severity]} ${severity}`);
+  return parts.length > 0 ? parts.join(', ') : 'none';
+};
+
+const resonanceTrend = ({ current, previous }: TeamDigest['missionResonance']) => {
+  if (current === null) return 'no data';
+  if (previous === null) return `${current.toFixed(1)}%`;
+  const delta = current - previous;
+  return `${current.toFixed(1)}% (${delta >= 0 ? '▲' : '▼'} ${Math.abs(delta).toFixed(1)})`;
+};
+
+export function digestTitle(digest: Digest): string {
+  return `${DIGEST_PERIODS[digest.period].label} SignalVault Digest`;
+}
+
+export function digestSummary(digest: Digest): string {
+  return `${formatDate(digest.from)} – ${formatDate(digest.to)} · ${digest.messageCount} messages across ` +
+    `${digest.teams.length} team${digest.teams.length === 1 ? '' : 's'} · ` +
+    `${digest.alerts.length} drift alert${digest.alerts.length === 1 ? '' : 's'}`;
+}
+
+const markdownCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export function renderDigestMarkdown(digest: Digest): string {
+  const previousLabel = DIGEST_PERIODS[digest.period].previousLabel;
+  const lines = [`# ${digestTitle(digest)}`, '', `_${digestSummary(digest)}_`, '', '## Drift Alerts', ''];
+
+  if (digest.alerts.length > 0) {
+    lines.push('| Severity | Type | Team | State | Message |', '| --- | --- | --- | --- | --- |');
+    digest.alerts.forEach(alert => lines.push(
+      `| ${alert.severity} | ${ALERT_TYPE_LABELS[alert.type]} | ${markdownCell(alert.cluster)} | ${ALERT_STATES[alert.state]} | ${markdownCell(alert.message)} |`
+    ));
+  } else {
+    lines.push('No drift alerts in this period.');
+  }
+
+  lines.push('', '## Teams');
+  digest.teams.forEach(team => {
+    lines.push(
+      '',
+      `### ${markdownCell(team.teamId)}`,
+      '',
+      `- Messages analyzed: ${team.messageCount}`,
+      `- Mission resonance: ${resonanceTrend(team.missionResonance)}`,
+      `- Alerts: ${formatAlertCounts(team.alertCounts)}`
+    );
+
+    if (team.topChanges.length > 0) {
+      lines.push('', `**Top changes vs ${previousLabel}**`, '', '| Metric | Previous | Current | Change |', '| --- | --- | --- | --- |');
+      team.topChanges.forEach(change => lines.push(
+        `| ${change.label} | ${formatNumber(change.previous, 2)} | ${formatNumber(change.current, 2)} | ${formatChange(change)} |`
+      ));
+    }
+
+    if (team.prompts.length > 0) {
+      lines.push('', '**Recommended prompts**', '');
+      team.prompts.forEach(prompt => lines.push(`- **${prompt.title}** — ${prompt.prompt}`));
+    }
+  });
+
+  lines.push('', `_Generated ${new Date(digest.generatedAt).toLocaleString()}_`, '');
+  return lines.join('\n');
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const HTML_STYLES = `
+  body { font-family: system-ui, -apple-system, sans-serif; color: #1f2937; max-width: 860px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.2rem; margin-top: 2rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; }
+  h3 { font-size: 1.05rem; margin-top: 1.5rem; }
+  .summary { color: #6b7280; }
+  table { border-collapse: collapse; width: 100%; margin: 0.5rem 0; font-size: 0.9rem; }
+  th, td { text-align: left; padding: 0.4rem 0.6rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { background: #f9fafb; }
+  .severity-critical, .severity-high { color: #b91c1c; font-weight: 600; }
+  .severity-medium { color: #b45309; font-weight: 600; }
+  .prompt { margin: 0.5rem 0; padding: 0.5rem 0.75rem; background: #f0fdf4; border-left: 3px solid #22c55e; }
+  footer { margin-top: 2rem; color: #9ca3af; font-size: 0.8rem; }
+`;
+
+export function renderDigestHtml(digest: Digest): string {
+  const previousLabel = DIGEST_PERIODS[digest.period].previousLabel;
+  const title = escapeHtml(digestTitle(digest));
+
+  const alerts = digest.alerts.length > 0
+    ? `<table>
+      <tr><th>Severity</th><th>Type</th><th>Team</th><th>State</th><th>Message</th></tr>
+      ${digest.alerts.map(alert => `<tr>
+        <td class="severity-${alert.severity}">${alert.severity}</td>
+        <td>${ALERT_TYPE_LABELS[alert.type]}</td>
+        <td>${escapeHtml(alert.cluster)}</td>
+        <td>${ALERT_STATES[alert.state]}</td>
+        <td>${escapeHtml(alert.message)}</td>
+      </tr>`).join('')}
+    </table>`
+    : '<p>No drift alerts in this period.</p>';
+
+  const teams = digest.teams.map(team => `
+    <h3>${escapeHtml(team.teamId)}</h3>
+    <ul>
+      <li>Messages analyzed: ${team.messageCount}</li>
+      <li>Mission resonance: ${resonanceTrend(team.missionResonance)}</li>
+      <li>Alerts: ${formatAlertCounts(team.alertCounts)}</li>
+    </ul>
+    ${team.topChanges.length > 0 ? `<p><strong>Top changes vs ${previousLabel}</strong></p>
+    <table>
+      <tr><th>Metric</th><th>Previous</th><th>Current</th><th>Change</th></tr>
+      ${team.topChanges.map(change => `<tr>
+        <td>${change.label}</td>
+        <td>${formatNumber(change.previous, 2)}</td>
+        <td>${formatNumber(change.current, 2)}</td>
+        <td>${formatChange(change)}</td>
+      </tr>`).join('')}
+    </table>` : ''}
+    ${team.prompts.length > 0 ? `<p><strong>Recommended prompts</strong></p>
+    ${team.prompts.map(prompt => `<div class="prompt"><strong>${escapeHtml(prompt.title)}</strong><br>${escapeHtml(prompt.prompt)}</div>`).join('')}` : ''}
+  `).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <style>${HTML_STYLES}</style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <p class="summary">${escapeHtml(digestSummary(digest))}</p>
+  <h2>Drift Alerts</h2>
+  ${alerts}
+  <h2>Teams</h2>
+  ${teams || '<p>No team activity in this period.</p>'}
+  <footer>Generated ${escapeHtml(new Date(digest.generatedAt).toLocaleString())}</footer>
+</body>
+</html>
+`;
+}
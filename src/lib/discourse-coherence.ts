@@ -0,0 +1,139 @@
+import { STOPWORDS, type LanguageCode } from '@/lib/language-detector';
+import type { Token } from '@/lib/tokenizer';
+import { cosineSimilarity } from '@/lib/vector-math';
+
+/**
+ * Discourse-level coherence of a thread, read as one sequence of sentences
+ * across its messages. Combines three signals, each 0-100:
+ * - semantic continuity: embedding similarity of adjacent sentences
+ * - entity continuity: adjacent sentences sharing a content word or name
+ * - connective usage: sentences linked to the previous one by a connective
+ */
+
+export interface DiscourseCoherence {
+  score: number;
+  semanticContinuity: number;
+  entityContinuity: number;
+  connectiveUsage: number;
+  sentenceCount: number;
+  messageCount: number;
+}
+
+export interface DiscourseSentence {
+  tokens: Token[];
+  embedding: ArrayLike<number>;
+}
+
+const WEIGHTS = {
+  semanticContinuity: 0.5,
+  entityContinuity: 0.3,
+  connectiveUsage: 0.2
+};
+
+// Discourse connectives, single words or phrases, lowercased
+export const CONNECTIVES: Record<LanguageCode, string[]> = {
+  en: [
+    'also', 'and', 'because', 'but', 'consequently', 'finally', 'first', 'furthermore', 'hence',
+    'however', 'meanwhile', 'moreover', 'next', 'nevertheless', 'otherwise', 'second', 'similarly',
+    'since', 'so', 'then', 'therefore', 'thus', 'although', 'instead', 'additionally',
+    'as a result', 'for example', 'for instance', 'in addition', 'in contrast', 'on the other hand',
+    'that said', 'to follow up', 'building on'
+  ],
+  de: [
+    'aber', 'also', 'außerdem', 'dann', 'daher', 'deshalb', 'denn', 'danach', 'jedoch', 'zudem',
+    'trotzdem', 'weil', 'zuerst', 'schließlich', 'folglich', 'allerdings', 'stattdessen',
+    'zum beispiel', 'im gegensatz', 'darüber hinaus'
+  ],
+  es: [
+    'además', 'así', 'entonces', 'luego', 'pero', 'porque', 'primero', 'finalmente', 'sin embargo',
+    'por lo tanto', 'por ejemplo', 'en cambio', 'mientras', 'también', 'aunque', 'después',
+    'por otro lado', 'en consecuencia'
+  ]
+};
+
+const clamp = (value: number) => Math.max(0, Math.min(100, value));
+
+/**
+ * Coherence of a sentence sequence. A single sentence has nothing to cohere
+ * with and scores neutral 50 on the pairwise signals.
+ */
+export function computeDiscourseCoherence(
+  sentences: DiscourseSentence[],
+  language: LanguageCode,
+  messageCount: number
+): DiscourseCoherence {
+  const pairs = sentences.slice(1).map((sentence, i) => [sentences[i], sentence] as const);
+
+  if (pairs.length === 0) {
+    return {
+      score: 50,
+      semanticContinuity: 50,
+      entityContinuity: 50,
+      connectiveUsage: 50,
+      sentenceCount: sentences.length,
+      messageCount
+    };
+  }
+
+  // Negative similarity is no better than unrelated, so floor at zero
+  const semanticContinuity = clamp(
+    (pairs.reduce((sum, [a, b]) => sum + Math.max(0, cosineSimilarity(a.embedding, b.embedding)), 0) / pairs.length) * 100
+  );
+
+  const entitySets = sentences.map(sentence => contentTerms(sentence.tokens, language));
+  const sharedPairs = entitySets.slice(1).filter((terms, i) => {
+    const previous = entitySets[i];
+    return Array.from(terms).some(term => previous.has(term));
+  }).length;
+  const entityContinuity = clamp((sharedPairs / pairs.length) * 100);
+
+  const connected = pairs.filter(([, sentence]) => startsWithConnective(sentence.tokens, language)).length;
+  const connectiveUsage = clamp((connected / pairs.length) * 100);
+
+  return {
+    score: clamp(
+      semanticContinuity * WEIGHTS.semanticContinuity +
+      entityContinuity * WEIGHTS.entityContinuity +
+      connectiveUsage * WEIGHTS.connectiveUsage
+    ),
+    semanticContinuity,
+    entityContinuity,
+    connectiveUsage,
+    sentenceCount: sentences.length,
+    messageCount
+  };
+}
+
+/**
+ * Content words and names: mentions, capitalized words after the first
+ * token, and non-stopword words of four or more letters.
+ */
+function contentTerms(tokens: Token[], language: LanguageCode): Set<string> {
+  const stopwords = STOPWORDS[language];
+  const terms = new Set<string>();
+
+  tokens.forEach((token, index) => {
+    if (token.kind === 'mention') {
+      terms.add(token.normalized);
+    } else if (token.kind === 'word') {
+      const isName = index > 0 && /^\p{Lu}/u.test(token.text);
+      if (isName || (token.normalized.length >= 4 && !stopwords.includes(token.normalized))) {
+        terms.add(token.normalized);
+      }
+    }
+  });
+
+  return terms;
+}
+
+// A connective may follow one opening word ("OK, so we...", "Well, however...")
+const CONNECTIVE_OFFSETS = 2;
+
+function startsWithConnective(tokens: Token[], language: LanguageCode): boolean {
+  const words = tokens.filter(token => token.kind === 'word').map(token => token.normalized);
+
+  return Array.from({ length: CONNECTIVE_OFFSETS }, (_, offset) => words.slice(offset).join(' '))
+    .some(opening => CONNECTIVES[language].some(connective =>
+      opening === connective || opening.startsWith(`${connective} `)
+    ));
+}
@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// The rule store singleton reads localStorage on import
+const storage = vi.hoisted(() => {
+  const items = new Map<string, string>();
+  const localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear()
+  };
+  Object.assign(globalThis, { localStorage });
+  return localStorage;
+});
+
+import {
+  breachesThreshold,
+  DEFAULT_DRIFT_RULES,
+  DriftRuleStore,
+  evaluateRule,
+  measureRule,
+  type DriftRule,
+  type RuleEvaluationContext
+} from "./drift-rules";
+import { computeStatistics } from "./baseline-statistics";
+
+const rule = (overrides: Partial<DriftRule> = {}): DriftRule => ({
+  id: 'hedging_spike',
+  name: 'Hedging spike',
+  enabled: true,
+  metric: 'hedging',
+  comparison: 'z_score',
+  direction: 'above',
+  bands: { medium: 2, high: 3, critical: 4 },
+  alertType: 'tone_concealment',
+  teams: [],
+  createdAt: '1970-01-01T00:00:00.000Z',
+  updatedAt: '1970-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+// Mean 3, with enough samples for z-scores
+const baseline = computeStatistics([2, 2, 3, 4, 4, 3]);
+
+const context = (value: number, overrides: Partial<RuleEvaluationContext> = {}): RuleEvaluationContext => ({
+  teamId: 'engineering',
+  windowDays: 30,
+  value,
+  baseline,
+  baselineSamples: baseline.count,
+  ...overrides
+});
+
+describe("measureRule", () => {
+  it("compares absolute values, z-scores, percent changes and slopes", () => {
+    expect(measureRule(rule({ comparison: 'absolute' }), context(7))).toBe(7);
+    expect(measureRule(rule(), context(3 + 2 * baseline.stdDev))).toBeCloseTo(2);
+    expect(measureRule(rule({ comparison: 'percent_change' }), context(4.5))).toBeCloseTo(50);
+    expect(measureRule(rule({ comparison: 'trend_slope' }), context(0, { slope: -0.25 }))).toBe(-0.25);
+  });
+
+  it("is null without enough baseline history", () => {
+    expect(measureRule(rule(), context(9, { baselineSamples: 4 }))).toBeNull();
+    expect(measureRule(rule({ comparison: 'percent_change' }), context(9, { baseline: undefined }))).toBeNull();
+    expect(measureRule(rule({ comparison: 'trend_slope' }), context(9))).toBeNull();
+  });
+});
+
+describe("breachesThreshold", () => {
+  it("honours the rule direction", () => {
+    expect(breachesThreshold(2, 2, 'above')).toBe(true);
+    expect(breachesThreshold(-1, -2, 'below')).toBe(false);
+    expect(breachesThreshold(-3, 2, 'either')).toBe(true);
+    expect(breachesThreshold(1.5, -2, 'either')).toBe(false);
+  });
+});
+
+describe("evaluateRule", () => {
+  it("raises an alert at the most severe band breached", () => {
+    const alert = evaluateRule(rule(), context(3 + 3.5 * baseline.stdDev));
+    expect(alert).toMatchObject({
+      type: 'tone_concealment',
+      severity: 'high',
+      cluster: 'engineering',
+      metric: 'hedging',
+      ruleId: 'hedging_spike'
+    });
+    expect(alert?.deviation).toBeCloseTo(3.5);
+    expect(alert?.message).toContain('Hedging spike: Hedging +3.5σ vs 30-day baseline');
+  });
+
+  it("stays quiet below every band", () => {
+    expect(evaluateRule(rule(), context(3 + baseline.stdDev))).toBeNull();
+  });
+
+  it("skips disabled rules and teams the rule does not cover", () => {
+    const breaching = context(3 + 5 * baseline.stdDev);
+    expect(evaluateRule(rule({ enabled: false }), breaching)).toBeNull();
+    expect(evaluateRule(rule({ teams: ['sales'] }), breaching)).toBeNull();
+    expect(evaluateRule(rule({ teams: ['engineering'] }), breaching)?.severity).toBe('critical');
+  });
+
+  it("evaluates falling metrics against negative bands", () => {
+    const declining = rule({ direction: 'below', bands: { medium: -2, critical: -4 } });
+    expect(evaluateRule(declining, context(3 - 2.5 * baseline.stdDev))?.severity).toBe('medium');
+  });
+});
+
+describe("DriftRuleStore", () => {
+  beforeEach(() => storage.clear());
+
+  it("seeds the default rules", () => {
+    expect(new DriftRuleStore().listRules().map(r => r.id)).toEqual(DEFAULT_DRIFT_RULES.map(r => r.id));
+  });
+
+  it("does not restore defaults the user deleted", () => {
+    new DriftRuleStore().deleteRule('hedging_spike');
+    expect(new DriftRuleStore().listRules().some(r => r.id === 'hedging_spike')).toBe(false);
+  });
+
+  it("rejects rules without a name or any band", () => {
+    const store = new DriftRuleStore();
+    expect(() => store.saveRule({ ...rule(), name: ' ' })).toThrow('Rule name is required');
+    expect(() => store.saveRule({ ...rule(), bands: {} })).toThrow('At least one severity band is required');
+  });
+
+  it("returns only enabled rules covering the team", () => {
+    const store = new DriftRuleStore();
+    store.saveRule({ ...rule({ id: 'sales_only', teams: ['sales'] }) });
+    store.saveRule({ ...rule({ id: 'hedging_spike', enabled: false }) });
+
+    const ids = store.getRulesForTeam('engineering').map(r => r.id);
+    expect(ids).not.toContain('sales_only');
+    expect(ids).not.toContain('hedging_spike');
+    expect(store.getRulesForTeam('sales').map(r => r.id)).toContain('sales_only');
+  });
+});
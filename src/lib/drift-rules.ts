@@ -0,0 +1,328 @@
+import type { DriftAlert } from '@/lib/nlp-engine';
+import {
+  DRIFT_METRICS,
+  MIN_BASELINE_SAMPLES,
+  zScore,
+  type BaselineWindow,
+  type DriftMetric,
+  type MetricStatistics
+} from '@/lib/baseline-statistics';
+
+export type RuleComparison = 'absolute' | 'z_score' | 'percent_change' | 'trend_slope';
+
+export type RuleDirection = 'above' | 'below' | 'either';
+
+export type RuleSeverity = Exclude<DriftAlert['severity'], 'low'>;
+
+export interface DriftRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  metric: DriftMetric;
+  comparison: RuleComparison;
+  direction: RuleDirection;
+  // Baseline window; the configured default window is used when omitted
+  window?: BaselineWindow;
+  // Thresholds on the compared measure. 'above' fires at measure >= threshold,
+  // 'below' at measure <= threshold and 'either' at |measure| >= |threshold|.
+  bands: Partial<Record<RuleSeverity, number>>;
+  alertType: DriftAlert['type'];
+  // Team ids the rule applies to; empty applies to every team
+  teams: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RuleEvaluationContext {
+  teamId: string;
+  windowDays: BaselineWindow;
+  value: number;
+  baseline?: MetricStatistics;
+  baselineSamples: number;
+  slope?: number | null; // per day, over the rule window
+}
+
+export const RULE_COMPARISONS: Record<RuleComparison, { label: string; unit: string }> = {
+  absolute: { label: 'Absolute value', unit: '' },
+  z_score: { label: 'Z-score vs baseline', unit: 'σ' },
+  percent_change: { label: 'Percent change vs baseline', unit: '%' },
+  trend_slope: { label: 'Trend slope', unit: '/day' }
+};
+
+export const RULE_SEVERITIES: RuleSeverity[] = ['medium', 'high', 'critical'];
+
+const STORAGE_KEY = 'signalvault_drift_rules';
+const SEEDED_KEY = 'signalvault_drift_rules_seeded';
+
+const defaultRule = (rule: Omit<DriftRule, 'enabled' | 'teams' | 'createdAt' | 'updatedAt'>): DriftRule => ({
+  ...rule,
+  enabled: true,
+  teams: [],
+  createdAt: '1970-01-01T00:00:00.000Z',
+  updatedAt: '1970-01-01T00:00:00.000Z'
+});
+
+export const DEFAULT_DRIFT_RULES: DriftRule[] = [
+  defaultRule({
+    id: 'symbolic_alignment_decline',
+    name: 'Symbolic alignment decline',
+    metric: 'symbolAlignment',
+    comparison: 'z_score',
+    direction: 'below',
+    bands: { medium: -2, high: -3, critical: -4 },
+    alertType: 'symbolic_decay'
+  }),
+  defaultRule({
+    id: 'metaphor_density_decline',
+    name: 'Metaphor density decline',
+    metric: 'metaphorDensity',
+    comparison: 'z_score',
+    direction: 'below',
+    bands: { medium: -2, high: -3, critical: -4 },
+    alertType: 'symbolic_decay'
+  }),
+  defaultRule({
+    id: 'narrative_coherence_decline',
+    name: 'Narrative coherence decline',
+    metric: 'narrativeCoherence',
+    comparison: 'z_score',
+    direction: 'below',
+    bands: { high: -3, critical: -4 },
+    alertType: 'symbolic_decay'
+  }),
+  defaultRule({
+    id: 'discourse_coherence_decline',
+    name: 'Discourse coherence decline',
+    metric: 'discourseCoherence',
+    comparison: 'z_score',
+    direction: 'below',
+    bands: { medium: -2, high: -3, critical: -4 },
+    alertType: 'symbolic_decay'
+  }),
+  defaultRule({
+    id: 'pronoun_ratio_spike',
+    name: 'Individual pronoun spike',
+    metric: 'pronounRatio',
+    comparison: 'z_score',
+    direction: 'above',
+    bands: { medium: 2, high: 3, critical: 4 },
+    alertType: 'pronoun_fragmentation'
+  }),
+  defaultRule({
+    id: 'pronoun_ratio_imbalance',
+    name: 'Pronoun imbalance',
+    metric: 'pronounRatio',
+    comparison: 'absolute',
+    direction: 'above',
+    bands: { medium: 2, high: 3 },
+    alertType: 'pronoun_fragmentation'
+  }),
+  defaultRule({
+    id: 'emotional_fragmentation_spike',
+    name: 'Emotional fragmentation spike',
+    metric: 'emotionalFragmentation',
+    comparison: 'z_score',
+    direction: 'above',
+    bands: { medium: 2, high: 3, critical: 4 },
+    alertType: 'tone_collapse'
+  }),
+  defaultRule({
+    id: 'emotional_fragmentation_level',
+    name: 'Emotional fragmentation level',
+    metric: 'emotionalFragmentation',
+    comparison: 'absolute',
+    direction: 'above',
+    bands: { high: 60, critical: 80 },
+    alertType: 'tone_collapse'
+  }),
+  defaultRule({
+    id: 'emotional_stability_decline',
+    name: 'Emotional stability decline',
+    metric: 'emotionalStability',
+    comparison: 'z_score',
+    direction: 'below',
+    bands: { high: -3, critical: -4 },
+    alertType: 'tone_collapse'
+  }),
+  defaultRule({
+    id: 'passive_voice_increase',
+    name: 'Passive voice increase',
+    metric: 'passiveVoice',
+    comparison: 'percent_change',
+    direction: 'above',
+    bands: { medium: 50, high: 100, critical: 200 },
+    alertType: 'tone_concealment'
+  }),
+  defaultRule({
+    id: 'hedging_spike',
+    name: 'Hedging spike',
+    metric: 'hedging',
+    comparison: 'z_score',
+    direction: 'above',
+    bands: { medium: 2, high: 3, critical: 4 },
+    alertType: 'tone_concealment'
+  }),
+  defaultRule({
+    id: 'nominalization_spike',
+    name: 'Nominalization spike',
+    metric: 'nominalization',
+    comparison: 'z_score',
+    direction: 'above',
+    bands: { high: 3, critical: 4 },
+    alertType: 'tone_concealment'
+  }),
+  defaultRule({
+    id: 'mission_resonance_decline',
+    name: 'Mission resonance decline',
+    metric: 'missionResonance',
+    comparison: 'z_score',
+    direction: 'below',
+    bands: { medium: -2, high: -3, critical: -4 },
+    alertType: 'mission_drift'
+  })
+];
+
+/**
+ * The number a rule compares against its bands, or null when the context
+ * lacks the baseline or history the comparison needs.
+ */
+export function measureRule(rule: DriftRule, context: RuleEvaluationContext): number | null {
+  switch (rule.comparison) {
+    case 'absolute':
+      return context.value;
+    case 'z_score':
+      if (!context.baseline || context.baselineSamples < MIN_BASELINE_SAMPLES) return null;
+      return zScore(context.value, context.baseline);
+    case 'percent_change':
+      if (!context.baseline || context.baselineSamples < MIN_BASELINE_SAMPLES) return null;
+      if (Math.abs(context.baseline.mean) < 1e-6) return null;
+      return ((context.value - context.baseline.mean) / Math.abs(context.baseline.mean)) * 100;
+    case 'trend_slope':
+      return context.slope ?? null;
+  }
+}
+
+export function breachesThreshold(measure: number, threshold: number, direction: RuleDirection): boolean {
+  switch (direction) {
+    case 'above': return measure >= threshold;
+    case 'below': return measure <= threshold;
+    case 'either': return Math.abs(measure) >= Math.abs(threshold);
+  }
+}
+
+/**
+ * Evaluate one rule, returning an alert at the most severe band breached.
+ */
+export function evaluateRule(rule: DriftRule, context: RuleEvaluationContext): DriftAlert | null {
+  if (!rule.enabled) return null;
+  if (rule.teams.length > 0 && !rule.teams.includes(context.teamId)) return null;
+
+  const measure = measureRule(rule, context);
+  if (measure === null || !Number.isFinite(measure)) return null;
+
+  const severity = [...RULE_SEVERITIES].reverse().find(level => {
+    const threshold = rule.bands[level];
+    return threshold !== undefined && breachesThreshold(measure, threshold, rule.direction);
+  });
+  if (!severity) return null;
+
+  const { unit } = RULE_COMPARISONS[rule.comparison];
+  const label = DRIFT_METRICS[rule.metric].label;
+  const detail = rule.comparison === 'absolute'
+    ? `${label} at ${measure.toFixed(2)}`
+    : rule.comparison === 'trend_slope'
+      ? `${label} trending ${measure >= 0 ? '+' : ''}${measure.toFixed(2)}${unit} over ${context.windowDays} days`
+      : `${label} ${measure >= 0 ? '+' : ''}${measure.toFixed(1)}${unit} vs ${context.windowDays}-day baseline (mean ${context.baseline?.mean.toFixed(2)})`;
+
+  return {
+    type: rule.alertType,
+    severity,
+    message: `${rule.name}: ${detail}`,
+    deviation: measure,
+    timestamp: new Date().toISOString(),
+    cluster: context.teamId,
+    metric: rule.metric,
+    ruleId: rule.id
+  };
+}
+
+/**
+ * Drift rules persisted in localStorage, seeded with the defaults.
+ */
+export class DriftRuleStore {
+  private rules: DriftRule[];
+
+  constructor() {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    this.rules = stored ? JSON.parse(stored) : [];
+
+    // Add defaults introduced since the rules were last saved, without
+    // restoring ones the user deleted
+    const seeded: string[] = JSON.parse(localStorage.getItem(SEEDED_KEY) || '[]');
+    const added = DEFAULT_DRIFT_RULES.filter(rule => !seeded.includes(rule.id) && !this.rules.some(r => r.id === rule.id));
+    if (added.length > 0 || !stored) {
+      this.rules = [...this.rules, ...added.map(rule => ({ ...rule }))];
+      this.persist();
+    }
+  }
+
+  private persist() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.rules));
+    localStorage.setItem(SEEDED_KEY, JSON.stringify(DEFAULT_DRIFT_RULES.map(rule => rule.id)));
+  }
+
+  listRules(): DriftRule[] {
+    return this.rules.map(rule => ({ ...rule }));
+  }
+
+  getRulesForTeam(teamId: string): DriftRule[] {
+    return this.rules.filter(rule => rule.enabled && (rule.teams.length === 0 || rule.teams.includes(teamId)));
+  }
+
+  /**
+   * Create or replace a rule by id.
+   */
+  saveRule(rule: Omit<DriftRule, 'createdAt' | 'updatedAt'>): DriftRule {
+    validateRule(rule);
+    const now = new Date().toISOString();
+    const existing = this.rules.find(r => r.id === rule.id);
+    const saved: DriftRule = { ...rule, createdAt: existing?.createdAt || now, updatedAt: now };
+
+    this.rules = existing
+      ? this.rules.map(r => (r.id === rule.id ? saved : r))
+      : [...this.rules, saved];
+    this.persist();
+    return saved;
+  }
+
+  deleteRule(id: string) {
+    this.rules = this.rules.filter(rule => rule.id !== id);
+    this.persist();
+  }
+
+  resetToDefaults() {
+    this.rules = DEFAULT_DRIFT_RULES.map(rule => ({ ...rule }));
+    this.persist();
+  }
+}
+
+function validateRule(rule: Omit<DriftRule, 'createdAt' | 'updatedAt'>) {
+  if (!rule.name.trim()) {
+    throw new Error('Rule name is required');
+  }
+  if (!(rule.metric in DRIFT_METRICS)) {
+    throw new Error(`Unknown metric: ${rule.metric}`);
+  }
+  if (!(rule.comparison in RULE_COMPARISONS)) {
+    throw new Error(`Unknown comparison: ${rule.comparison}`);
+  }
+  const thresholds = RULE_SEVERITIES.map(level => rule.bands[level]).filter((t): t is number => t !== undefined);
+  if (thresholds.length === 0) {
+    throw new Error('At least one severity band is required');
+  }
+  if (thresholds.some(t => !Number.isFinite(t))) {
+    throw new Error('Severity thresholds must be numbers');
+  }
+}
+
+export const driftRuleStore = new DriftRuleStore();
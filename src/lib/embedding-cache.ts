@@ -0,0 +1,207 @@
+import { isIndexedDBAvailable, openDatabase, requestToPromise, transactionDone } from '@/lib/indexed-db';
+import { fnv1a64 } from '@/lib/fnv-hash';
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  entries: number;
+}
+
+interface CachedEmbedding {
+  key: string;
+  modelId: string;
+  vector: Float32Array;
+  lastAccessed: number;
+}
+
+const DB_NAME = 'signalvault_embeddings';
+const DB_VERSION = 1;
+const STORE = 'embeddings';
+const DEFAULT_MAX_ENTRIES = 5000;
+
+/**
+ * Persistent embedding cache keyed by model id + SHA-256 of the text.
+ * Least recently used entries are evicted once maxEntries is exceeded.
+ * Falls back to computing every embedding when IndexedDB is unavailable.
+ */
+export class EmbeddingCache {
+  private db: Promise<IDBDatabase> | null = null;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        const store = db.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('lastAccessed', 'lastAccessed');
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Return embeddings for texts, computing only the ones not yet cached.
+   * compute receives the missing texts and must return vectors in order.
+   */
+  async getOrCompute(
+    modelId: string,
+    texts: string[],
+    compute: (missing: string[]) => Promise<ArrayLike<number>[]>
+  ): Promise<Float32Array[]> {
+    if (texts.length === 0) return [];
+
+    if (!isIndexedDBAvailable()) {
+      this.misses += texts.length;
+      return (await compute(texts)).map(v => Float32Array.from(v));
+    }
+
+    const keys = await Promise.all(texts.map(text => this.cacheKey(modelId, text)));
+    const results: (Float32Array | null)[] = await this.readMany(keys);
+
+    const missingIndexes = results
+      .map((result, i) => (result ? -1 : i))
+      .filter(i => i >= 0);
+
+    this.hits += texts.length - missingIndexes.length;
+    this.misses += missingIndexes.length;
+
+    if (missingIndexes.length > 0) {
+      // Compute each distinct missing text once
+      const missingTexts = Array.from(new Set(missingIndexes.map(i => texts[i])));
+      const computed = await compute(missingTexts);
+      const byText = new Map(missingTexts.map((text, i) => [text, Float32Array.from(computed[i])]));
+
+      missingIndexes.forEach(i => {
+        results[i] = byText.get(texts[i]) || null;
+      });
+
+      await this.writeMany(modelId, missingIndexes.map(i => ({ key: keys[i], vector: results[i] as Float32Array })));
+    }
+
+    return results as Float32Array[];
+  }
+
+  async getStats(): Promise<EmbeddingCacheStats> {
+    const total = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total > 0 ? this.hits / total : 0,
+      entries: await this.countEntries()
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.hits = 0;
+    this.misses = 0;
+    if (!isIndexedDBAvailable()) return;
+
+    try {
+      const db = await this.getDatabase();
+      const transaction = db.transaction(STORE, 'readwrite');
+      transaction.objectStore(STORE).clear();
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error('Failed to clear embedding cache:', error);
+    }
+  }
+
+  private async readMany(keys: string[]): Promise<(Float32Array | null)[]> {
+    try {
+      const db = await this.getDatabase();
+      const transaction = db.transaction(STORE, 'readwrite');
+      const store = transaction.objectStore(STORE);
+      const now = Date.now();
+
+      const entries = await Promise.all(
+        keys.map(key => requestToPromise(store.get(key) as IDBRequest<CachedEmbedding | undefined>))
+      );
+
+      // Touch hits so eviction stays least-recently-used
+      entries.forEach(entry => {
+        if (entry) store.put({ ...entry, lastAccessed: now });
+      });
+
+      await transactionDone(transaction);
+      return entries.map(entry => entry?.vector || null);
+    } catch (error) {
+      console.error('Embedding cache read failed:', error);
+      return keys.map(() => null);
+    }
+  }
+
+  private async writeMany(modelId: string, entries: { key: string; vector: Float32Array }[]): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      const transaction = db.transaction(STORE, 'readwrite');
+      const store = transaction.objectStore(STORE);
+      const now = Date.now();
+
+      entries.forEach(({ key, vector }) => {
+        const record: CachedEmbedding = { key, modelId, vector, lastAccessed: now };
+        store.put(record);
+      });
+
+      await transactionDone(transaction);
+      await this.evict();
+    } catch (error) {
+      console.error('Embedding cache write failed:', error);
+    }
+  }
+
+  private async evict(): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(STORE, 'readwrite');
+    const store = transaction.objectStore(STORE);
+    const excess = (await requestToPromise(store.count())) - this.maxEntries;
+
+    if (excess > 0) {
+      let removed = 0;
+      const cursorRequest = store.index('lastAccessed').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || removed >= excess) return;
+        cursor.delete();
+        removed += 1;
+        cursor.continue();
+      };
+    }
+
+    await transactionDone(transaction);
+  }
+
+  private async countEntries(): Promise<number> {
+    if (!isIndexedDBAvailable()) return 0;
+
+    try {
+      const db = await this.getDatabase();
+      const transaction = db.transaction(STORE, 'readonly');
+      return await requestToPromise(transaction.objectStore(STORE).count());
+    } catch (error) {
+      console.error('Embedding cache count failed:', error);
+      return 0;
+    }
+  }
+
+  private async cacheKey(modelId: string, text: string): Promise<string> {
+    return `${modelId}:${await hashText(text)}`;
+  }
+}
+
+async function hashText(text: string): Promise<string> {
+  const data = new TextEncoder().encode(text);
+
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  // Insecure contexts have no SubtleCrypto. A 32-bit hash collides too often
+  // at cache scale, so use 64-bit FNV-1a and keep the length in the key
+  return `fnv64_${fnv1a64(data)}_${data.length}`;
+}
+
+export const embeddingCache = new EmbeddingCache();
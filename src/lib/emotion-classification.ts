@@ -0,0 +1,153 @@
+import type { AnalysisResult } from '@/lib/nlp-engine';
+
+/**
+ * Multi-label emotion scores on Plutchik's eight basic emotions. The
+ * classifier predicts the 27 GoEmotions labels independently (sigmoid), so
+ * several emotions can be present in one message; each basic emotion takes
+ * the strongest of the labels mapped onto it.
+ */
+
+export type EmotionLabel = 'anger' | 'fear' | 'joy' | 'sadness' | 'trust' | 'anticipation' | 'surprise' | 'disgust';
+
+export type EmotionScores = Record<EmotionLabel, number>; // 0-1 each, independent
+
+export interface EmotionDistribution {
+  teamId: string;
+  messageCount: number;
+  mean: EmotionScores;        // mean score per emotion
+  prevalence: EmotionScores;  // share of messages where the emotion is present
+  dominant: EmotionLabel | null;
+  // Normalized Shannon entropy of the mean scores: 0 = one emotion, 100 = all equal
+  spread: number;
+  stability: number;
+  fragmentation: number;
+}
+
+export const EMOTION_LABELS: Record<EmotionLabel, { label: string; valence: 'positive' | 'negative' | 'neutral' }> = {
+  anger: { label: 'Anger', valence: 'negative' },
+  fear: { label: 'Fear', valence: 'negative' },
+  joy: { label: 'Joy', valence: 'positive' },
+  sadness: { label: 'Sadness', valence: 'negative' },
+  trust: { label: 'Trust', valence: 'positive' },
+  anticipation: { label: 'Anticipation', valence: 'positive' },
+  surprise: { label: 'Surprise', valence: 'neutral' },
+  disgust: { label: 'Disgust', valence: 'negative' }
+};
+
+export const EMOTIONS = Object.keys(EMOTION_LABELS) as EmotionLabel[];
+
+// Score at which an emotion counts as present in a message
+export const EMOTION_THRESHOLD = 0.3;
+
+// GoEmotions label -> basic emotion; 'neutral' carries no emotion
+const GO_EMOTIONS: Record<string, EmotionLabel | null> = {
+  admiration: 'trust',
+  amusement: 'joy',
+  anger: 'anger',
+  annoyance: 'anger',
+  approval: 'trust',
+  caring: 'trust',
+  confusion: 'surprise',
+  curiosity: 'anticipation',
+  desire: 'anticipation',
+  disappointment: 'sadness',
+  disapproval: 'disgust',
+  disgust: 'disgust',
+  embarrassment: 'fear',
+  excitement: 'joy',
+  fear: 'fear',
+  gratitude: 'joy',
+  grief: 'sadness',
+  joy: 'joy',
+  love: 'joy',
+  nervousness: 'fear',
+  optimism: 'anticipation',
+  pride: 'joy',
+  realization: 'surprise',
+  relief: 'joy',
+  remorse: 'sadness',
+  sadness: 'sadness',
+  surprise: 'surprise',
+  neutral: null
+};
+
+export const emptyEmotionScores = (): EmotionScores =>
+  Object.fromEntries(EMOTIONS.map(emotion => [emotion, 0])) as EmotionScores;
+
+/**
+ * Fold classifier predictions onto the basic emotions. Unknown labels are
+ * ignored, so a model with Plutchik labels maps onto itself.
+ */
+export function toEmotionScores(predictions: { label: string; score: number }[]): EmotionScores {
+  const scores = emptyEmotionScores();
+  predictions.forEach(({ label, score }) => {
+    const key = label.toLowerCase();
+    const emotion = key in GO_EMOTIONS ? GO_EMOTIONS[key] : (key in EMOTION_LABELS ? key as EmotionLabel : null);
+    if (emotion) scores[emotion] = Math.max(scores[emotion], score);
+  });
+  return scores;
+}
+
+export function activeEmotions(scores: EmotionScores): EmotionLabel[] {
+  return EMOTIONS.filter(emotion => scores[emotion] >= EMOTION_THRESHOLD);
+}
+
+/**
+ * Emotional tone from emotion scores: stability is the share of emotional
+ * weight that is not negative, counting only emotions at or above
+ * EMOTION_THRESHOLD. A neutral message, with no emotion present, is stable.
+ */
+export function emotionalTone(scores: EmotionScores): AnalysisResult['emotionalTone'] {
+  const present = activeEmotions(scores);
+  const total = present.reduce((sum, emotion) => sum + scores[emotion], 0);
+  const negative = present
+    .filter(emotion => EMOTION_LABELS[emotion].valence === 'negative')
+    .reduce((sum, emotion) => sum + scores[emotion], 0);
+
+  const stability = total > 0 ? 100 * (1 - negative / total) : 100;
+  return { stability, fragmentation: 100 - stability };
+}
+
+/**
+ * Team-level distribution over the analyses that carry emotion scores.
+ */
+export function aggregateEmotions(teamId: string, analyses: AnalysisResult[]): EmotionDistribution {
+  const scored = analyses.map(a => a.emotions).filter((e): e is EmotionScores => !!e);
+  const mean = emptyEmotionScores();
+  const prevalence = emptyEmotionScores();
+
+  scored.forEach(scores => {
+    EMOTIONS.forEach(emotion => {
+      mean[emotion] += scores[emotion] / scored.length;
+      if (scores[emotion] >= EMOTION_THRESHOLD) prevalence[emotion] += 1 / scored.length;
+    });
+  });
+
+  // Tone is averaged per message: mean scores would dilute emotions below the threshold
+  const stability = scored.length > 0
+    ? scored.reduce((sum, scores) => sum + emotionalTone(scores).stability, 0) / scored.length
+    : 100;
+
+  const total = EMOTIONS.reduce((sum, emotion) => sum + mean[emotion], 0);
+  const entropy = total > 0
+    ? -EMOTIONS.reduce((sum, emotion) => {
+        const p = mean[emotion] / total;
+        return p > 0 ? sum + p * Math.log(p) : sum;
+      }, 0) / Math.log(EMOTIONS.length)
+    : 0;
+
+  const dominant = total > 0
+    ? EMOTIONS.reduce((best, emotion) => (mean[emotion] > mean[best] ? emotion : best))
+    : null;
+
+  return {
+    teamId,
+    messageCount: scored.length,
+    mean,
+    prevalence,
+    dominant,
+    spread: entropy * 100,
+    stability,
+    fragmentation: 100 - stability
+  };
+}
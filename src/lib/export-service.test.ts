@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  createDataset,
+  datasetSchema,
+  HEATMAP_EXPORT,
+  MISSION_ALERTS_EXPORT,
+  MISSION_RESONANCE_EXPORT,
+  toCsv,
+  toJson,
+  type ExportDataset,
+  type ExportDefinition
+} from "./export-service";
+
+interface Row {
+  name: string;
+  value?: number;
+}
+
+const definition: ExportDefinition<Row> = {
+  id: 'rows',
+  title: 'Rows',
+  description: 'Test rows',
+  fields: [
+    { name: 'name', type: 'string', description: 'Name', value: row => row.name },
+    { name: 'value', type: 'number', nullable: true, description: 'Value', value: row => row.value }
+  ]
+};
+
+const csvRows = (rows: Row[]) => toCsv(createDataset(definition, rows)).split('\r\n');
+
+// Whether every null in the rows sits in a field the schema allows to be null
+const matchesSchema = (dataset: ExportDataset) => {
+  const { properties } = datasetSchema(dataset).items;
+  return dataset.rows.every(row => Object.entries(row).every(([name, value]) => {
+    const { type } = properties[name];
+    return value !== null || (Array.isArray(type) && type.includes('null'));
+  }));
+};
+
+describe("createDataset", () => {
+  it("turns missing and non-finite values into null", () => {
+    const { rows } = createDataset(definition, [{ name: 'a' }, { name: 'b', value: NaN }, { name: 'c', value: 2 }]);
+    expect(rows).toEqual([{ name: 'a', value: null }, { name: 'b', value: null }, { name: 'c', value: 2 }]);
+  });
+
+  it("keeps rows with non-finite scores valid against the schema", () => {
+    expect(matchesSchema(createDataset(MISSION_RESONANCE_EXPORT, [{
+      teamId: 'engineering', teamName: 'Engineering', score: NaN, trend: 'stable',
+      deviation: NaN, status: 'critical', lastUpdate: '2024-03-01T09:00:00.000Z'
+    }]))).toBe(true);
+    expect(matchesSchema(createDataset(MISSION_ALERTS_EXPORT, [{
+      teamId: 'engineering', teamName: 'Engineering', severity: 'high', score: NaN, threshold: NaN,
+      message: 'Resonance dropped', timestamp: '2024-03-01T09:00:00.000Z'
+    }]))).toBe(true);
+    expect(matchesSchema(createDataset(HEATMAP_EXPORT, [{
+      teamId: 'engineering', bucket: '2024-W10', label: 'W10', value: null, count: NaN
+    }]))).toBe(true);
+  });
+});
+
+describe("datasetSchema", () => {
+  it("describes every field as required with nullable types", () => {
+    const schema = datasetSchema(createDataset(definition, []));
+    expect(schema.$id).toBe('signalvault:export:rows:v1');
+    expect(schema.items.required).toEqual(['name', 'value']);
+    expect(schema.items.properties.name.type).toBe('string');
+    expect(schema.items.properties.value.type).toEqual(['number', 'null']);
+  });
+});
+
+describe("toCsv", () => {
+  it("writes a header and CRLF-terminated rows with empty nulls", () => {
+    expect(csvRows([{ name: 'a', value: 1.5 }, { name: 'b' }])).toEqual(['name,value', 'a,1.5', 'b,', '']);
+  });
+
+  it("quotes commas, quotes and line breaks", () => {
+    expect(csvRows([{ name: 'a, b' }, { name: 'say "hi"' }, { name: 'two\nlines' }]).slice(1, 4)).toEqual([
+      '"a, b",',
+      '"say ""hi""",',
+      '"two\nlines",'
+    ]);
+  });
+
+  it("neutralizes text that would run as a formula", () => {
+    expect(csvRows([{ name: '=SUM(A1)' }, { name: '+1' }, { name: '-cmd' }, { name: '@ref' }]).slice(1, 5)).toEqual([
+      "'=SUM(A1),",
+      "'+1,",
+      "'-cmd,",
+      "'@ref,"
+    ]);
+    expect(csvRows([{ name: '\tx' }])[1]).toBe("'\tx,");
+    expect(csvRows([{ name: '=1,2' }])[1]).toBe(`"'=1,2",`);
+  });
+
+  it("leaves negative numbers numeric", () => {
+    expect(csvRows([{ name: 'a', value: -2.5 }])[1]).toBe('a,-2.5');
+  });
+});
+
+describe("toJson", () => {
+  it("embeds the schema alongside the rows", () => {
+    const parsed = JSON.parse(toJson(createDataset(definition, [{ name: 'a', value: Infinity }], { team: 'all' })));
+    expect(parsed).toMatchObject({ dataset: 'rows', version: 1, filters: { team: 'all' }, rows: [{ name: 'a', value: null }] });
+    expect(parsed.schema.items.properties.value.type).toEqual(['number', 'null']);
+  });
+});
@@ -0,0 +1,283 @@
+import type { DriftAlert, MissionAlert } from '@/lib/nlp-engine';
+import type { HeatmapCell } from '@/lib/period-buckets';
+import { ALERT_STATES, ALERT_TYPE_LABELS, type TrackedAlert } from '@/lib/alert-store';
+
+/**
+ * Export of the data behind dashboard panels. Each panel's rows are described
+ * by a dataset definition whose fields yield both the CSV columns and a JSON
+ * Schema, so JSON exports are self-describing. Panels also publish their
+ * selected filters here for the printed dashboard report.
+ */
+
+export type ExportFormat = 'csv' | 'json';
+
+export type ExportValue = string | number | boolean | null;
+
+export interface ExportField<T> {
+  name: string;
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  description: string;
+  format?: 'date-time';
+  nullable?: boolean;
+  value: (row: T) => ExportValue | undefined;
+}
+
+export interface ExportDefinition<T> {
+  id: string;
+  title: string;
+  description: string;
+  fields: ExportField<T>[];
+}
+
+export interface ExportDataset {
+  id: string;
+  title: string;
+  description: string;
+  exportedAt: string;
+  filters: Record<string, string>;
+  fields: Omit<ExportField<unknown>, 'value'>[];
+  rows: Record<string, ExportValue>[];
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' }
+};
+
+const EXPORT_VERSION = 1;
+
+/**
+ * Rows of a definition as plain records. Missing and non-finite values become
+ * null so CSV and JSON agree.
+ */
+export function createDataset<T>(
+  definition: ExportDefinition<T>,
+  rows: T[],
+  filters: Record<string, string> = {}
+): ExportDataset {
+  return {
+    id: definition.id,
+    title: definition.title,
+    description: definition.description,
+    exportedAt: new Date().toISOString(),
+    filters,
+    fields: definition.fields.map(({ value: _value, ...field }) => field),
+    rows: rows.map(row => Object.fromEntries(definition.fields.map(field => {
+      const value = field.value(row);
+      return [field.name, value === undefined || (typeof value === 'number' && !Number.isFinite(value)) ? null : value];
+    })))
+  };
+}
+
+/**
+ * JSON Schema (draft 2020-12) of the dataset's rows.
+ */
+export function datasetSchema(dataset: ExportDataset) {
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: `signalvault:export:${dataset.id}:v${EXPORT_VERSION}`,
+    title: dataset.title,
+    description: dataset.description,
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: Object.fromEntries(dataset.fields.map(field => [field.name, {
+        type: field.nullable ? [field.type, 'null'] : field.type,
+        description: field.description,
+        ...(field.format && { format: field.format })
+      }])),
+      required: dataset.fields.map(field => field.name),
+      additionalProperties: false
+    }
+  };
+}
+
+// Spreadsheets evaluate text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: ExportValue) => {
+  if (value === null) return '';
+  // Quote text that would run as a formula; numbers stay numeric
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(dataset: ExportDataset): string {
+  const lines = [
+    dataset.fields.map(field => csvCell(field.name)).join(','),
+    ...dataset.rows.map(row => dataset.fields.map(field => csvCell(row[field.name])).join(','))
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+export function toJson(dataset: ExportDataset): string {
+  return JSON.stringify({
+    dataset: dataset.id,
+    version: EXPORT_VERSION,
+    title: dataset.title,
+    exportedAt: dataset.exportedAt,
+    filters: dataset.filters,
+    schema: datasetSchema(dataset),
+    rows: dataset.rows
+  }, null, 2);
+}
+
+export function downloadFile(content: string, mimeType: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right after click() can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadDataset(dataset: ExportDataset, format: ExportFormat) {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const content = format === 'csv' ? toCsv(dataset) : toJson(dataset);
+  downloadFile(content, mimeType, `signalvault-${dataset.id}-${dataset.exportedAt.slice(0, 10)}.${extension}`);
+}
+
+// Selected filters per panel, shown on the printed report
+
+const reportFilters = new Map<string, Record<string, string>>();
+
+export function setReportFilters(panel: string, filters: Record<string, string>) {
+  reportFilters.set(panel, filters);
+}
+
+export function getReportFilters(): [string, Record<string, string>][] {
+  return Array.from(reportFilters.entries());
+}
+
+// Panel datasets
+
+export interface ResonanceScoreRow {
+  teamId: string;
+  teamName: string;
+  score: number;
+  trend: 'up' | 'down' | 'stable';
+  deviation: number;
+  status: 'aligned' | 'drifting' | 'critical';
+  lastUpdate: string;
+}
+
+export const MISSION_RESONANCE_EXPORT: ExportDefinition<ResonanceScoreRow> = {
+  id: 'mission-resonance',
+  title: 'Mission Resonance Index',
+  description: 'Resonance of each team\'s recent messages with the mission statement',
+  fields: [
+    { name: 'teamId', type: 'string', description: 'Team identifier', value: row => row.teamId },
+    { name: 'teamName', type: 'string', description: 'Team display name', value: row => row.teamName },
+    { name: 'score', type: 'number', nullable: true, description: 'Mission resonance, 0–100; null when it could not be computed', value: row => row.score },
+    { name: 'trend', type: 'string', description: 'Direction against the team\'s resonance history: up, down or stable', value: row => row.trend },
+    { name: 'deviation', type: 'number', nullable: true, description: 'Distance from the 75% target; null without a score', value: row => row.deviation },
+    { name: 'status', type: 'string', description: 'aligned, drifting or critical', value: row => row.status },
+    { name: 'lastUpdate', type: 'string', format: 'date-time', description: 'When the score was computed', value: row => row.lastUpdate }
+  ]
+};
+
+export const MISSION_ALERTS_EXPORT: ExportDefinition<MissionAlert> = {
+  id: 'mission-alerts',
+  title: 'Mission Alerts',
+  description: 'Teams whose mission resonance fell below the alert threshold',
+  fields: [
+    { name: 'teamId', type: 'string', description: 'Team identifier', value: alert => alert.teamId },
+    { name: 'severity', type: 'string', description: 'low, medium, high or critical', value: alert => alert.severity },
+    { name: 'score', type: 'number', nullable: true, description: 'Mission resonance, 0–100; null when it could not be computed', value: alert => alert.score },
+    { name: 'threshold', type: 'number', nullable: true, description: 'Resonance below which alerts are raised', value: alert => alert.threshold },
+    { name: 'message', type: 'string', description: 'Alert text', value: alert => alert.message },
+    { name: 'timestamp', type: 'string', format: 'date-time', description: 'When the alert was raised', value: alert => alert.timestamp }
+  ]
+};
+
+export interface DriftMetricRow {
+  key: string;
+  name: string;
+  current: number;
+  baseline: number;
+  range: [number, number] | null;
+  deviation: number;
+  zScore: number | null;
+  trend: 'up' | 'down' | 'stable';
+  severity: DriftAlert['severity'];
+}
+
+export const DRIFT_METRICS_EXPORT: ExportDefinition<DriftMetricRow> = {
+  id: 'drift-metrics',
+  title: 'Temporal Drift Metrics',
+  description: 'Organization-wide metric means of the latest analysis against the rolling baseline',
+  fields: [
+    { name: 'metric', type: 'string', description: 'Metric key', value: row => row.key },
+    { name: 'label', type: 'string', description: 'Metric name', value: row => row.name },
+    { name: 'current', type: 'number', nullable: true, description: 'Mean over the latest analyzed messages', value: row => row.current },
+    { name: 'baseline', type: 'number', nullable: true, description: 'Rolling baseline mean', value: row => row.baseline },
+    { name: 'p10', type: 'number', nullable: true, description: '10th percentile of the baseline; null without enough history', value: row => row.range?.[0] ?? null },
+    { name: 'p90', type: 'number', nullable: true, description: '90th percentile of the baseline; null without enough history', value: row => row.range?.[1] ?? null },
+    { name: 'deviation', type: 'number', nullable: true, description: 'Absolute difference from the baseline', value: row => row.deviation },
+    { name: 'zScore', type: 'number', nullable: true, description: 'Standard deviations from the baseline; null without enough history', value: row => row.zScore },
+    { name: 'trend', type: 'string', description: 'up, down or stable against the baseline', value: row => row.trend },
+    { name: 'severity', type: 'string', description: 'Most severe drift rule alert on the metric', value: row => row.severity }
+  ]
+};
+
+export interface DriftAlertRow extends DriftAlert {
+  state?: TrackedAlert['state'];
+}
+
+export const DRIFT_ALERTS_EXPORT: ExportDefinition<DriftAlertRow> = {
+  id: 'drift-alerts',
+  title: 'Drift Alerts',
+  description: 'Alerts raised by drift rules and change-point detection in the latest analysis',
+  fields: [
+    { name: 'type', type: 'string', description: 'Alert type key', value: alert => alert.type },
+    { name: 'typeLabel', type: 'string', description: 'Alert type name', value: alert => ALERT_TYPE_LABELS[alert.type] },
+    { name: 'severity', type: 'string', description: 'low, medium, high or critical', value: alert => alert.severity },
+    { name: 'cluster', type: 'string', description: 'Team or organization the alert applies to', value: alert => alert.cluster },
+    { name: 'metric', type: 'string', nullable: true, description: 'Metric that triggered the alert', value: alert => alert.metric ?? null },
+    { name: 'deviation', type: 'number', nullable: true, description: 'Deviation that triggered the alert', value: alert => alert.deviation },
+    { name: 'onset', type: 'string', nullable: true, description: 'Estimated start of a regime shift (YYYY-MM-DD)', value: alert => alert.onset ?? null },
+    { name: 'state', type: 'string', nullable: true, description: 'Lifecycle state of the tracked alert', value: alert => alert.state ?? null },
+    { name: 'message', type: 'string', description: 'Alert text', value: alert => alert.message },
+    { name: 'timestamp', type: 'string', format: 'date-time', description: 'When the alert was raised', value: alert => alert.timestamp }
+  ]
+};
+
+export interface HeatmapRow extends HeatmapCell {
+  label: string;
+}
+
+export const HEATMAP_EXPORT: ExportDefinition<HeatmapRow> = {
+  id: 'resonance-heatmap',
+  title: 'Resonance Heatmap',
+  description: 'Mean of the selected metric per team and period',
+  fields: [
+    { name: 'teamId', type: 'string', description: 'Team identifier', value: cell => cell.teamId },
+    { name: 'bucket', type: 'string', description: 'Period key', value: cell => cell.bucket },
+    { name: 'period', type: 'string', description: 'Period label', value: cell => cell.label },
+    { name: 'value', type: 'number', nullable: true, description: 'Metric mean; null without analyses in the period', value: cell => cell.value },
+    { name: 'count', type: 'integer', nullable: true, description: 'Analyses in the period', value: cell => cell.count }
+  ]
+};
+
+export const TRACKED_ALERTS_EXPORT: ExportDefinition<TrackedAlert> = {
+  id: 'alerts',
+  title: 'Alerts',
+  description: 'Tracked drift and forecast alerts with their lifecycle state',
+  fields: [
+    { name: 'id', type: 'string', description: 'Alert identifier', value: alert => alert.id },
+    { name: 'source', type: 'string', description: 'drift or forecast', value: alert => alert.source },
+    { name: 'type', type: 'string', description: 'Alert type key', value: alert => alert.type },
+    { name: 'typeLabel', type: 'string', description: 'Alert type name', value: alert => ALERT_TYPE_LABELS[alert.type] },
+    { name: 'severity', type: 'string', description: 'low, medium, high or critical', value: alert => alert.severity },
+    { name: 'cluster', type: 'string', description: 'Team or organization the alert applies to', value: alert => alert.cluster },
+    { name: 'state', type: 'string', description: 'Lifecycle state key', value: alert => alert.state },
+    { name: 'stateLabel', type: 'string', description: 'Lifecycle state name', value: alert => ALERT_STATES[alert.state] },
+    { name: 'assignee', type: 'string', nullable: true, description: 'Assignee while assigned', value: alert => alert.assignee ?? null },
+    { name: 'snoozedUntil', type: 'string', format: 'date-time', nullable: true, description: 'End of the snooze', value: alert => alert.snoozedUntil ?? null },
+    { name: 'occurrences', type: 'integer', description: 'Times the alert was raised while open', value: alert => alert.occurrences },
+    { name: 'firstSeenAt', type: 'string', format: 'date-time', description: 'First raised', value: alert => alert.firstSeenAt },
+    { name: 'lastSeenAt', type: 'string', format: 'date-time', description: 'Last raised', value: alert => alert.lastSeenAt },
+    { name: 'message', type: 'string', description: 'Alert text', value: alert => alert.message }
+  ]
+};
@@ -0,0 +1,20 @@
+/**
+ * Synchronous 64-bit FNV-1a, for stable keys where SubtleCrypto is
+ * unavailable or async hashing does not fit. Not collision-resistant against
+ * crafted input.
+ */
+
+const FNV64_OFFSET_BASIS = 0xcbf29ce484222325n;
+const FNV64_PRIME = 0x100000001b3n;
+
+/**
+ * Hash of the bytes, or of the UTF-8 encoding of a string, as 16 hex digits.
+ */
+export function fnv1a64(input: string | Uint8Array): string {
+  const data = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  let hash = FNV64_OFFSET_BASIS;
+  for (const byte of data) {
+    hash = BigInt.asUintN(64, (hash ^ BigInt(byte)) * FNV64_PRIME);
+  }
+  return hash.toString(16).padStart(16, '0');
+}
@@ -0,0 +1,120 @@
+import type { AnalysisResult } from '@/lib/nlp-engine';
+import { cosineSimilarity } from '@/lib/vector-math';
+
+/**
+ * Fragmentation Index of a cluster (team): how far its members have drifted
+ * apart in what they talk about, how they position themselves and how they
+ * feel. Each component is normalized to 0-1 and the weighted sum is scaled
+ * to 0-5, where 0 is a fully cohesive cluster.
+ */
+
+export interface FragmentationComponents {
+  // Mean cosine distance of each member's centroid embedding from the cluster centroid
+  semanticSpread: number;
+  // Variance of per-message pronoun ratios, squashed as v / (1 + v)
+  pronounVariance: number;
+  // Mean emotional fragmentation of the cluster's messages / 100
+  emotionalFragmentation: number;
+}
+
+export interface FragmentationIndex {
+  id: string;
+  teamId: string;
+  value: number; // 0-5
+  components: FragmentationComponents;
+  userCount: number;
+  messageCount: number;
+  computedAt: string;
+}
+
+export interface MemberEmbedding {
+  userId: string;
+  embeddings: ArrayLike<number>[]; // one per message
+}
+
+export const FRAGMENTATION_WEIGHTS: Record<keyof FragmentationComponents, number> = {
+  semanticSpread: 0.4,
+  pronounVariance: 0.3,
+  emotionalFragmentation: 0.3
+};
+
+export const FRAGMENTATION_SCALE = 5;
+
+// Upper bounds of the stable and elevated bands; at or above the last is critical
+export const FRAGMENTATION_BANDS = { stable: 1.5, elevated: 3 };
+
+export const FRAGMENTATION_COMPONENT_LABELS: Record<keyof FragmentationComponents, { label: string; definition: string }> = {
+  semanticSpread: {
+    label: 'Semantic spread (S)',
+    definition: 'mean of 1 − cos(member centroid, cluster centroid) over members, from message embeddings; 0 with fewer than two members'
+  },
+  pronounVariance: {
+    label: 'Pronoun variance (P)',
+    definition: 'variance v of per-message individual/collective pronoun ratios, normalized as v / (1 + v)'
+  },
+  emotionalFragmentation: {
+    label: 'Emotional fragmentation (E)',
+    definition: 'mean per-message emotional fragmentation ÷ 100'
+  }
+};
+
+export const FRAGMENTATION_FORMULA =
+  `FI = ${FRAGMENTATION_SCALE} × (${FRAGMENTATION_WEIGHTS.semanticSpread}·S + ` +
+  `${FRAGMENTATION_WEIGHTS.pronounVariance}·P + ${FRAGMENTATION_WEIGHTS.emotionalFragmentation}·E)`;
+
+export function fragmentationBand(value: number): 'stable' | 'elevated' | 'critical' {
+  if (value < FRAGMENTATION_BANDS.stable) return 'stable';
+  if (value < FRAGMENTATION_BANDS.elevated) return 'elevated';
+  return 'critical';
+}
+
+export function computeFragmentationIndex(
+  teamId: string,
+  members: MemberEmbedding[],
+  analyses: AnalysisResult[],
+  computedAt: Date = new Date()
+): FragmentationIndex {
+  const centroids = members
+    .filter(member => member.embeddings.length > 0)
+    .map(member => mean(member.embeddings));
+
+  const clusterCentroid = mean(centroids);
+  const semanticSpread = centroids.length >= 2
+    ? clamp01(centroids.reduce((sum, c) => sum + (1 - cosineSimilarity(c, clusterCentroid)), 0) / centroids.length)
+    : 0;
+
+  const ratios = analyses.map(a => a.pronounDistribution.ratio).filter(Number.isFinite);
+  const ratioMean = ratios.reduce((sum, r) => sum + r, 0) / (ratios.length || 1);
+  const variance = ratios.length >= 2
+    ? ratios.reduce((sum, r) => sum + (r - ratioMean) ** 2, 0) / (ratios.length - 1)
+    : 0;
+  const pronounVariance = variance / (1 + variance);
+
+  const emotionalFragmentation = analyses.length > 0
+    ? clamp01(analyses.reduce((sum, a) => sum + a.emotionalTone.fragmentation, 0) / analyses.length / 100)
+    : 0;
+
+  const components = { semanticSpread, pronounVariance, emotionalFragmentation };
+  const weighted = (Object.keys(FRAGMENTATION_WEIGHTS) as (keyof FragmentationComponents)[])
+    .reduce((sum, key) => sum + FRAGMENTATION_WEIGHTS[key] * components[key], 0);
+
+  return {
+    id: `fragmentation_${teamId}_${computedAt.getTime()}`,
+    teamId,
+    value: FRAGMENTATION_SCALE * weighted,
+    components,
+    userCount: centroids.length,
+    messageCount: analyses.length,
+    computedAt: computedAt.toISOString()
+  };
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+function mean(vectors: ArrayLike<number>[]): number[] {
+  const result = new Array(vectors[0]?.length ?? 0).fill(0);
+  vectors.forEach(vector => {
+    for (let i = 0; i < result.length; i++) result[i] += vector[i] / vectors.length;
+  });
+  return result;
+}
@@ -0,0 +1,223 @@
+import type { LanguageCode } from '@/lib/language-detector';
+import { isWordToken, segmentSentences, type Token } from '@/lib/tokenizer';
+
+/**
+ * Grammatical features associated with concealed or evasive tone: passive
+ * constructions that drop the agent, hedges that soften commitment,
+ * nominalizations that turn actions into things, and intensifiers that
+ * overstate. Rule-based on the shared tokenizer, per language.
+ */
+
+export type GrammaticalFeature = 'passive' | 'hedge' | 'nominalization' | 'intensifier';
+
+export interface FeatureMatch {
+  feature: GrammaticalFeature;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface GrammaticalFeatures {
+  passiveCount: number;
+  hedgeCount: number;
+  nominalizationCount: number;
+  intensifierCount: number;
+  // Percent of sentences with a passive construction
+  passiveRate: number;
+  // Occurrences per 100 words
+  hedgeDensity: number;
+  nominalizationDensity: number;
+  intensifierDensity: number;
+}
+
+interface LanguageGrammar {
+  auxiliaries: string[];          // passive auxiliaries (be/get, werden, ser)
+  participle: RegExp;
+  irregularParticiples: string[];
+  participleExceptions: string[]; // match the participle pattern but are not participles
+  // German places the participle at the clause end; others right after the auxiliary
+  participleAnywhere: boolean;
+  hedges: string[];               // single words or phrases, lowercased
+  intensifiers: string[];
+  nominalSuffixes: string[];
+  nominalExceptions: string[];
+}
+
+const GRAMMAR: Record<LanguageCode, LanguageGrammar> = {
+  en: {
+    auxiliaries: ['am', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'get', 'gets', 'got', 'gotten', 'getting'],
+    participle: /^[a-z]{2,}ed$/,
+    irregularParticiples: [
+      'taken', 'given', 'written', 'broken', 'chosen', 'driven', 'forgotten', 'hidden', 'spoken', 'stolen',
+      'shown', 'drawn', 'eaten', 'fallen', 'frozen', 'grown', 'proven', 'ridden', 'shaken', 'thrown', 'woken',
+      'made', 'done', 'said', 'told', 'sent', 'built', 'brought', 'bought', 'caught', 'found', 'held', 'kept',
+      'left', 'lost', 'meant', 'met', 'paid', 'put', 'read', 'run', 'set', 'shut', 'sold', 'spent', 'taught',
+      'thought', 'understood', 'won', 'cut', 'hit', 'hurt', 'let', 'led', 'felt', 'heard', 'seen', 'known'
+    ],
+    participleExceptions: [
+      'indeed', 'need', 'feed', 'seed', 'speed', 'bleed', 'breed', 'greed', 'creed', 'deed', 'heed', 'weed',
+      'reed', 'steed', 'succeed', 'proceed', 'exceed', 'embed', 'shed', 'sled', 'hundred', 'kindred',
+      'sacred', 'naked', 'wicked', 'rugged', 'ragged', 'jagged', 'crooked', 'wretched'
+    ],
+    participleAnywhere: false,
+    hedges: [
+      'maybe', 'perhaps', 'possibly', 'probably', 'apparently', 'arguably', 'presumably', 'seemingly',
+      'somewhat', 'roughly', 'likely', 'unlikely', 'supposedly', 'relatively', 'fairly', 'generally',
+      'sort of', 'kind of', 'i think', 'i guess', 'i believe', 'i suppose', 'it seems', 'seems to',
+      'appears to', 'tend to', 'more or less', 'to some extent', 'in a way', 'not sure'
+    ],
+    intensifiers: [
+      'very', 'really', 'extremely', 'absolutely', 'totally', 'completely', 'incredibly', 'highly',
+      'definitely', 'truly', 'utterly', 'seriously', 'hugely', 'massively', 'super', 'literally', 'entirely'
+    ],
+    nominalSuffixes: ['tion', 'sion', 'ment', 'ness', 'ity', 'ance', 'ence', 'ism'],
+    nominalExceptions: [
+      'mention', 'question', 'station', 'nation', 'moment', 'business', 'city', 'community', 'opportunity',
+      'priority', 'quality', 'security', 'comment', 'element', 'department', 'government'
+    ]
+  },
+  de: {
+    auxiliaries: ['werde', 'wirst', 'wird', 'werden', 'werdet', 'wurde', 'wurdest', 'wurden', 'wurdet', 'worden'],
+    participle: /^ge\p{L}{3,}(t|en)$/u,
+    irregularParticiples: [],
+    participleExceptions: [],
+    participleAnywhere: true,
+    hedges: [
+      'vielleicht', 'eventuell', 'möglicherweise', 'wahrscheinlich', 'vermutlich', 'anscheinend',
+      'scheinbar', 'ziemlich', 'eher', 'etwas', 'irgendwie', 'ich glaube', 'ich denke', 'ich vermute',
+      'scheint', 'gewissermaßen'
+    ],
+    intensifiers: [
+      'sehr', 'wirklich', 'extrem', 'absolut', 'total', 'völlig', 'komplett', 'unglaublich', 'höchst',
+      'definitiv', 'echt', 'äußerst', 'enorm', 'super'
+    ],
+    nominalSuffixes: ['ung', 'heit', 'keit', 'schaft', 'tion', 'ität'],
+    nominalExceptions: ['zeitung', 'wohnung', 'richtung', 'meinung']
+  },
+  es: {
+    auxiliaries: ['es', 'son', 'fue', 'fueron', 'era', 'eran', 'será', 'serán', 'sido', 'ser', 'siendo', 'sea', 'sean'],
+    participle: /^\p{L}{2,}(ado|ada|ados|adas|ido|ida|idos|idas)$/u,
+    irregularParticiples: [
+      'hecho', 'hecha', 'dicho', 'dicha', 'escrito', 'escrita', 'visto', 'vista', 'puesto', 'puesta',
+      'abierto', 'abierta', 'resuelto', 'resuelta', 'cubierto', 'cubierta', 'vuelto', 'vuelta'
+    ],
+    participleExceptions: [],
+    participleAnywhere: false,
+    hedges: [
+      'quizás', 'quizá', 'tal vez', 'posiblemente', 'probablemente', 'aparentemente', 'supuestamente',
+      'algo', 'bastante', 'más o menos', 'creo que', 'me parece', 'parece que', 'en cierto modo'
+    ],
+    intensifiers: [
+      'muy', 'realmente', 'extremadamente', 'absolutamente', 'totalmente', 'completamente', 'increíblemente',
+      'sumamente', 'definitivamente', 'verdaderamente', 'súper', 'enormemente'
+    ],
+    nominalSuffixes: ['ción', 'sión', 'miento', 'dad', 'eza', 'ncia'],
+    nominalExceptions: ['ciudad', 'verdad', 'canción', 'mitad', 'necesidad']
+  }
+};
+
+// Adverbs allowed between the auxiliary and the participle ("was quickly approved")
+const MAX_INTERVENING = 2;
+const MIN_NOMINAL_LENGTH = 7;
+
+/**
+ * Count features and collect the matching spans. Offsets refer to text.
+ */
+export function analyzeGrammar(
+  text: string,
+  language: LanguageCode
+): { features: GrammaticalFeatures; matches: FeatureMatch[] } {
+  const grammar = GRAMMAR[language];
+  const sentences = segmentSentences(text);
+  const matches: FeatureMatch[] = [];
+  let wordCount = 0;
+  let passiveSentences = 0;
+
+  sentences.forEach(sentence => {
+    const words = sentence.tokens.filter(isWordToken);
+    wordCount += words.length;
+
+    const passives = findPassives(words, grammar);
+    if (passives.length > 0) passiveSentences += 1;
+    matches.push(...passives.map(([from, to]) => spanOf(text, 'passive', words[from], words[to])));
+
+    matches.push(...findPhrases(text, words, grammar.hedges, 'hedge'));
+    matches.push(...findPhrases(text, words, grammar.intensifiers, 'intensifier'));
+
+    words.forEach(word => {
+      if (isNominalization(word.normalized, grammar)) {
+        matches.push(spanOf(text, 'nominalization', word, word));
+      }
+    });
+  });
+
+  const count = (feature: GrammaticalFeature) => matches.filter(match => match.feature === feature).length;
+  const per100Words = (n: number) => (wordCount > 0 ? (n / wordCount) * 100 : 0);
+
+  return {
+    features: {
+      passiveCount: count('passive'),
+      hedgeCount: count('hedge'),
+      nominalizationCount: count('nominalization'),
+      intensifierCount: count('intensifier'),
+      passiveRate: sentences.length > 0 ? (passiveSentences / sentences.length) * 100 : 0,
+      hedgeDensity: per100Words(count('hedge')),
+      nominalizationDensity: per100Words(count('nominalization')),
+      intensifierDensity: per100Words(count('intensifier'))
+    },
+    matches
+  };
+}
+
+/**
+ * Word index ranges [auxiliary, participle] of passive constructions.
+ */
+function findPassives(words: Token[], grammar: LanguageGrammar): [number, number][] {
+  const isParticiple = (word: string) =>
+    (grammar.participle.test(word) && !grammar.participleExceptions.includes(word)) ||
+    grammar.irregularParticiples.includes(word);
+  const found: [number, number][] = [];
+
+  words.forEach((word, i) => {
+    if (!grammar.auxiliaries.includes(word.normalized)) return;
+
+    const limit = grammar.participleAnywhere ? words.length : Math.min(words.length, i + MAX_INTERVENING + 2);
+    for (let j = i + 1; j < limit; j++) {
+      if (isParticiple(words[j].normalized)) {
+        found.push([i, j]);
+        return;
+      }
+      // Only adverbs may intervene in English and Spanish
+      if (!grammar.participleAnywhere && !isAdverb(words[j].normalized)) return;
+    }
+  });
+
+  return found;
+}
+
+function isAdverb(word: string): boolean {
+  return /(ly|mente)$/.test(word) || ['not', 'never', 'also', 'already', 'indeed', 'no', 'nunca', 'ya', 'también'].includes(word);
+}
+
+function findPhrases(text: string, words: Token[], phrases: string[], feature: GrammaticalFeature): FeatureMatch[] {
+  const matches: FeatureMatch[] = [];
+  phrases.forEach(phrase => {
+    const parts = phrase.split(' ');
+    for (let i = 0; i + parts.length <= words.length; i++) {
+      if (parts.every((part, k) => words[i + k].normalized === part)) {
+        matches.push(spanOf(text, feature, words[i], words[i + parts.length - 1]));
+      }
+    }
+  });
+  return matches;
+}
+
+function isNominalization(word: string, grammar: LanguageGrammar): boolean {
+  return word.length >= MIN_NOMINAL_LENGTH &&
+    !grammar.nominalExceptions.includes(word) &&
+    grammar.nominalSuffixes.some(suffix => word.endsWith(suffix));
+}
+
+function spanOf(text: string, feature: GrammaticalFeature, first: Token, last: Token): FeatureMatch {
+  return { feature, start: first.start, end: last.end, text: text.slice(first.start, last.end) };
+}
@@ -0,0 +1,69 @@
+import { words } from '@/lib/tokenizer';
+
+export type LanguageCode = 'en' | 'de' | 'es';
+
+export interface LanguageDetection {
+  language: LanguageCode;
+  confidence: number; // 0-1, share of stopword hits won by the detected language
+}
+
+export const SUPPORTED_LANGUAGES: Record<LanguageCode, string> = {
+  en: 'English',
+  de: 'German',
+  es: 'Spanish'
+};
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+// High-frequency function words; short messages rarely avoid all of them
+export const STOPWORDS: Record<LanguageCode, string[]> = {
+  en: [
+    'the', 'and', 'is', 'are', 'was', 'to', 'of', 'in', 'that', 'it', 'for', 'on', 'with',
+    'this', 'we', 'you', 'be', 'have', 'not', 'but', 'they', 'at', 'our', 'will', 'can',
+    'what', 'there', 'from', 'about', 'just'
+  ],
+  de: [
+    'der', 'die', 'das', 'und', 'ist', 'sind', 'nicht', 'ich', 'wir', 'sie', 'es', 'zu',
+    'mit', 'auf', 'für', 'von', 'den', 'dem', 'ein', 'eine', 'auch', 'noch', 'wie', 'aber',
+    'uns', 'unser', 'haben', 'wird', 'bei', 'oder'
+  ],
+  es: [
+    'el', 'la', 'los', 'las', 'y', 'es', 'son', 'que', 'de', 'en', 'un', 'una', 'por',
+    'para', 'con', 'no', 'se', 'lo', 'del', 'al', 'nosotros', 'nuestro', 'pero', 'como',
+    'muy', 'está', 'están', 'también', 'hay', 'más'
+  ]
+};
+
+const CHARACTER_HINTS: Partial<Record<LanguageCode, RegExp>> = {
+  de: /[äöüß]/i,
+  es: /[ñ¿¡]|[áéíóú]/i
+};
+
+/**
+ * Detect the language of a message from stopword frequency, with
+ * orthographic hints as tie-breakers. Falls back to English.
+ */
+export function detectLanguage(text: string): LanguageDetection {
+  const tokens = words(text);
+  const scores: Record<LanguageCode, number> = { en: 0, de: 0, es: 0 };
+
+  for (const token of tokens) {
+    (Object.keys(STOPWORDS) as LanguageCode[]).forEach(language => {
+      if (STOPWORDS[language].includes(token)) scores[language] += 1;
+    });
+  }
+
+  (Object.entries(CHARACTER_HINTS) as [LanguageCode, RegExp][]).forEach(([language, pattern]) => {
+    if (pattern.test(text)) scores[language] += 0.5;
+  });
+
+  const total = scores.en + scores.de + scores.es;
+  if (total === 0) {
+    return { language: DEFAULT_LANGUAGE, confidence: 0 };
+  }
+
+  const [language, score] = (Object.entries(scores) as [LanguageCode, number][])
+    .sort((a, b) => b[1] - a[1])[0];
+
+  return { language, confidence: score / total };
+}
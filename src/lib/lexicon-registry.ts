@@ -0,0 +1,260 @@
+import { DEFAULT_LANGUAGE, type LanguageCode } from '@/lib/language-detector';
+
+export interface LexiconWordLists {
+  metaphor: string[];
+  individualPronouns: string[];
+  collectivePronouns: string[];
+  modal: string[];
+  negative: string[];
+}
+
+export type LexiconCategory = keyof LexiconWordLists;
+
+export interface Lexicon {
+  id: string;
+  name: string;
+  version: number;
+  language: LanguageCode;
+  words: LexiconWordLists;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LexiconReference {
+  id: string;
+  version: number;
+}
+
+export const LEXICON_CATEGORIES: LexiconCategory[] = [
+  'metaphor',
+  'individualPronouns',
+  'collectivePronouns',
+  'modal',
+  'negative'
+];
+
+export const DEFAULT_LEXICON_ID = 'default';
+
+// Built-in lexicons, one per supported language
+export const DEFAULT_LEXICON_IDS: Record<LanguageCode, string> = {
+  en: DEFAULT_LEXICON_ID,
+  de: 'default-de',
+  es: 'default-es'
+};
+
+const DEFAULT_LEXICONS: Record<LanguageCode, Lexicon> = {
+  en: {
+    id: DEFAULT_LEXICON_IDS.en,
+    name: 'Default (English)',
+    version: 1,
+    language: 'en',
+    words: {
+      metaphor: ['like', 'as', 'bridge', 'journey', 'path', 'mountain', 'ocean', 'storm', 'light', 'darkness'],
+      individualPronouns: ['i', 'me', 'my', 'mine', 'myself'],
+      collectivePronouns: ['we', 'us', 'our', 'ours', 'ourselves'],
+      modal: ['might', 'could', 'should', 'would', 'may', 'can', 'will', 'must'],
+      negative: ['not', 'no', 'never', 'nothing', 'nobody', 'difficult', 'problem', 'issue', 'concern']
+    },
+    createdAt: '1970-01-01T00:00:00.000Z',
+    updatedAt: '1970-01-01T00:00:00.000Z'
+  },
+  de: {
+    id: DEFAULT_LEXICON_IDS.de,
+    name: 'Default (German)',
+    version: 1,
+    language: 'de',
+    words: {
+      metaphor: ['wie', 'als', 'brücke', 'reise', 'weg', 'berg', 'ozean', 'sturm', 'licht', 'dunkelheit'],
+      individualPronouns: ['ich', 'mich', 'mir', 'mein', 'meine', 'meiner', 'meinen', 'meinem', 'meines'],
+      collectivePronouns: ['wir', 'uns', 'unser', 'unsere', 'unserer', 'unseren', 'unserem', 'unseres'],
+      modal: ['könnte', 'könnten', 'sollte', 'sollten', 'würde', 'würden', 'darf', 'kann', 'können', 'wird', 'muss', 'müssen'],
+      negative: ['nicht', 'kein', 'keine', 'nie', 'niemals', 'nichts', 'niemand', 'schwierig', 'problem', 'bedenken']
+    },
+    createdAt: '1970-01-01T00:00:00.000Z',
+    updatedAt: '1970-01-01T00:00:00.000Z'
+  },
+  es: {
+    id: DEFAULT_LEXICON_IDS.es,
+    name: 'Default (Spanish)',
+    version: 1,
+    language: 'es',
+    words: {
+      metaphor: ['como', 'puente', 'viaje', 'camino', 'montaña', 'océano', 'tormenta', 'luz', 'oscuridad'],
+      individualPronouns: ['yo', 'me', 'mi', 'mis', 'mío', 'mía', 'conmigo'],
+      collectivePronouns: ['nosotros', 'nosotras', 'nos', 'nuestro', 'nuestra', 'nuestros', 'nuestras'],
+      modal: ['podría', 'podrían', 'debería', 'deberían', 'puede', 'pueden', 'debe', 'deben', 'quizás', 'quizá'],
+      negative: ['no', 'nunca', 'nada', 'nadie', 'ninguno', 'ninguna', 'difícil', 'problema', 'preocupación']
+    },
+    createdAt: '1970-01-01T00:00:00.000Z',
+    updatedAt: '1970-01-01T00:00:00.000Z'
+  }
+};
+
+const STORAGE_KEY = 'signalvault_lexicons';
+const ASSIGNMENTS_KEY = 'signalvault_lexicon_assignments';
+
+/**
+ * Named, versioned word lists used by the linguistic metrics.
+ * Every save keeps the previous versions so past analyses stay traceable.
+ * Teams select one lexicon per language.
+ */
+export class LexiconRegistry {
+  private versions: Map<string, Lexicon[]> = new Map();
+  private assignments: Map<string, string> = new Map();
+
+  constructor() {
+    this.loadLexicons();
+  }
+
+  private loadLexicons() {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const lexicons: Record<string, Lexicon[]> = JSON.parse(stored);
+      Object.entries(lexicons).forEach(([id, history]) => {
+        // Lexicons saved before language support are English
+        this.versions.set(id, history.map(l => ({ ...l, language: l.language || DEFAULT_LANGUAGE })));
+      });
+    }
+
+    Object.values(DEFAULT_LEXICONS).forEach(lexicon => {
+      if (!this.versions.has(lexicon.id)) {
+        this.versions.set(lexicon.id, [lexicon]);
+      }
+    });
+
+    const assignments = localStorage.getItem(ASSIGNMENTS_KEY);
+    if (assignments) {
+      Object.entries(JSON.parse(assignments)).forEach(([key, lexiconId]) => {
+        const assignmentKey = key.includes(':') ? key : this.assignmentKey(key, DEFAULT_LANGUAGE);
+        this.assignments.set(assignmentKey, lexiconId as string);
+      });
+    }
+  }
+
+  private saveLexicons() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(this.versions)));
+    localStorage.setItem(ASSIGNMENTS_KEY, JSON.stringify(Object.fromEntries(this.assignments)));
+  }
+
+  listLexicons(): Lexicon[] {
+    return Array.from(this.versions.values()).map(history => history[history.length - 1]);
+  }
+
+  getLexicon(id: string, version?: number): Lexicon | null {
+    const history = this.versions.get(id);
+    if (!history) return null;
+    if (version === undefined) return history[history.length - 1];
+    return history.find(l => l.version === version) || null;
+  }
+
+  getHistory(id: string): Lexicon[] {
+    return this.versions.get(id) || [];
+  }
+
+  /**
+   * Save word lists under a lexicon id. Creates version 1 for a new id,
+   * otherwise appends a new version.
+   */
+  saveLexicon(id: string, name: string, words: LexiconWordLists, language: LanguageCode = DEFAULT_LANGUAGE): Lexicon {
+    const current = this.getLexicon(id);
+    const now = new Date().toISOString();
+
+    const lexicon: Lexicon = {
+      id,
+      name,
+      version: current ? current.version + 1 : 1,
+      language,
+      words: this.normalizeWords(words),
+      createdAt: current?.createdAt || now,
+      updatedAt: now
+    };
+
+    this.versions.set(id, [...this.getHistory(id), lexicon]);
+    this.saveLexicons();
+    return lexicon;
+  }
+
+  deleteLexicon(id: string) {
+    if (Object.values(DEFAULT_LEXICON_IDS).includes(id)) {
+      throw new Error('Built-in lexicons cannot be deleted');
+    }
+
+    this.versions.delete(id);
+    this.assignments.forEach((lexiconId, key) => {
+      if (lexiconId === id) this.assignments.delete(key);
+    });
+    this.saveLexicons();
+  }
+
+  // Team selection, one lexicon per team and language
+  assignToTeam(teamId: string, lexiconId: string) {
+    const lexicon = this.getLexicon(lexiconId);
+    if (!lexicon) {
+      throw new Error(`Unknown lexicon: ${lexiconId}`);
+    }
+
+    this.assignments.set(this.assignmentKey(teamId, lexicon.language), lexiconId);
+    this.saveLexicons();
+  }
+
+  /**
+   * Assignments keyed by "teamId:language".
+   */
+  getAssignments(): Record<string, string> {
+    return Object.fromEntries(this.assignments);
+  }
+
+  resolveForTeam(teamId?: string, language: LanguageCode = DEFAULT_LANGUAGE): Lexicon {
+    const assigned = teamId ? this.assignments.get(this.assignmentKey(teamId, language)) : undefined;
+    const lexicon = assigned ? this.getLexicon(assigned) : null;
+    return lexicon || this.getLexicon(DEFAULT_LEXICON_IDS[language]) || DEFAULT_LEXICONS[language];
+  }
+
+  private assignmentKey(teamId: string, language: LanguageCode): string {
+    return `${teamId}:${language}`;
+  }
+
+  // JSON import / export
+  exportLexicon(id: string): string {
+    const lexicon = this.getLexicon(id);
+    if (!lexicon) {
+      throw new Error(`Unknown lexicon: ${id}`);
+    }
+    return JSON.stringify(lexicon, null, 2);
+  }
+
+  importLexicon(json: string): Lexicon {
+    const data = JSON.parse(json);
+
+    if (!data || typeof data.id !== 'string' || typeof data.name !== 'string' || !data.words) {
+      throw new Error('Invalid lexicon file: id, name and words are required');
+    }
+
+    for (const category of LEXICON_CATEGORIES) {
+      if (!Array.isArray(data.words[category])) {
+        throw new Error(`Invalid lexicon file: missing word list "${category}"`);
+      }
+    }
+
+    if (data.language !== undefined && !(data.language in DEFAULT_LEXICON_IDS)) {
+      throw new Error(`Invalid lexicon file: unsupported language "${data.language}"`);
+    }
+
+    return this.saveLexicon(data.id, data.name, data.words, data.language || DEFAULT_LANGUAGE);
+  }
+
+  private normalizeWords(words: LexiconWordLists): LexiconWordLists {
+    const normalize = (list: string[]) =>
+      Array.from(new Set(list.map(w => String(w).trim().toLowerCase()).filter(w => w.length > 0)));
+
+    return {
+      metaphor: normalize(words.metaphor),
+      individualPronouns: normalize(words.individualPronouns),
+      collectivePronouns: normalize(words.collectivePronouns),
+      modal: normalize(words.modal),
+      negative: normalize(words.negative)
+    };
+  }
+}
+
+export const lexiconRegistry = new LexiconRegistry();
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import type { TimeSeriesPoint } from "./change-point-detection";
+import {
+  forecastSeries,
+  MIN_WARNING_CONFIDENCE,
+  normalCdf,
+  warningFromForecast,
+  type ForecastTarget
+} from "./metric-forecasting";
+
+const series = (values: number[], start = '2024-01-01'): TimeSeriesPoint[] => values.map((value, i) => ({
+  date: new Date(new Date(`${start}T00:00:00Z`).getTime() + i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+  value,
+  count: 1
+}));
+
+// A falling line with a little noise so the interval has width
+const declining = (length: number, from = 80, step = -1) =>
+  Array.from({ length }, (_, i) => from + step * i + (i % 2 === 0 ? 0.3 : -0.3));
+
+const target = (overrides: Partial<ForecastTarget> = {}): ForecastTarget => ({
+  metric: 'missionResonance',
+  direction: 'below',
+  threshold: 50,
+  severity: 'high',
+  ...overrides
+});
+
+describe("normalCdf", () => {
+  it("matches the standard normal distribution", () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+    expect(normalCdf(-1.2816)).toBeCloseTo(0.1, 3);
+  });
+});
+
+describe("forecastSeries", () => {
+  it("needs at least five points", () => {
+    expect(forecastSeries('missionResonance', series([1, 2, 3, 4]))).toBeNull();
+  });
+
+  it("extends a short series with a linear trend", () => {
+    const forecast = forecastSeries('missionResonance', series(declining(7)), 10);
+
+    expect(forecast?.method).toBe('linear');
+    expect(forecast?.lastDate).toBe('2024-01-07');
+    expect(forecast?.points).toHaveLength(10);
+    expect(forecast?.points[0].date).toBe('2024-01-08');
+    expect(forecast?.points[0].value).toBeCloseTo(73, 0);
+    expect(forecast?.points[9].value).toBeCloseTo(64, 0);
+  });
+
+  it("uses Holt smoothing for longer series", () => {
+    const forecast = forecastSeries('missionResonance', series(declining(20)), 5);
+
+    expect(forecast?.method).toBe('holt');
+    expect(forecast?.points[4].value).toBeLessThan(forecast!.points[0].value);
+  });
+
+  it("widens the prediction interval with the horizon", () => {
+    const forecast = forecastSeries('missionResonance', series(declining(20)), 10)!;
+    const width = (i: number) => forecast.points[i].upper - forecast.points[i].lower;
+
+    expect(width(9)).toBeGreaterThan(width(0));
+    forecast.points.forEach(point => {
+      expect(point.lower).toBeLessThanOrEqual(point.value);
+      expect(point.upper).toBeGreaterThanOrEqual(point.value);
+    });
+  });
+
+  it("fills days without analyses before smoothing", () => {
+    const points = series(declining(24)).filter((_, i) => i % 3 !== 1);
+    const forecast = forecastSeries('missionResonance', points, 3);
+
+    expect(forecast?.method).toBe('holt');
+    expect(forecast?.points[0].date).toBe('2024-01-25');
+    expect(forecast?.points[0].value).toBeGreaterThan(54);
+    expect(forecast?.points[0].value).toBeLessThan(58);
+  });
+});
+
+describe("warningFromForecast", () => {
+  it("warns when the forecast crosses a threshold", () => {
+    const forecast = forecastSeries('missionResonance', series(declining(20)), 30)!;
+    const warning = warningFromForecast(forecast, [target()], 'engineering');
+
+    expect(warning).toMatchObject({
+      id: 'forecast_engineering_missionResonance_high',
+      severity: 'high',
+      cluster: 'engineering',
+      metric: 'missionResonance',
+      threshold: 50,
+      method: 'holt',
+      alertType: 'mission_drift'
+    });
+    expect(warning?.confidence).toBeGreaterThanOrEqual(MIN_WARNING_CONFIDENCE);
+    expect(warning?.surfacesAt).toBe(forecast.points.find(point => point.value <= 50)?.date);
+  });
+
+  it("picks the most severe crossing", () => {
+    const forecast = forecastSeries('missionResonance', series(declining(20)), 30)!;
+    const warning = warningFromForecast(
+      forecast,
+      [target({ severity: 'medium', threshold: 55 }), target({ severity: 'critical', threshold: 45 })],
+      'engineering'
+    );
+    expect(warning?.severity).toBe('critical');
+  });
+
+  it("ignores thresholds already breached, never reached or for other metrics", () => {
+    const forecast = forecastSeries('missionResonance', series(declining(20)), 30)!;
+
+    expect(warningFromForecast(forecast, [target({ threshold: 70 })], 'engineering')).toBeNull();
+    expect(warningFromForecast(forecast, [target({ threshold: 0 })], 'engineering')).toBeNull();
+    expect(warningFromForecast(forecast, [target({ direction: 'above', threshold: 90 })], 'engineering')).toBeNull();
+    expect(warningFromForecast(forecast, [target({ metric: 'hedging' })], 'engineering')).toBeNull();
+  });
+});
@@ -0,0 +1,286 @@
+import { DRIFT_METRICS, type DriftMetric } from '@/lib/baseline-statistics';
+import type { TimeSeriesPoint } from '@/lib/change-point-detection';
+import type { DriftRule } from '@/lib/drift-rules';
+import type { CoherenceThreshold } from '@/lib/coherence-metrics';
+import type { DriftAlert } from '@/lib/nlp-engine';
+
+/**
+ * Forecasts of daily metric series and the predictive warnings derived from
+ * them. Series with enough history use Holt's linear exponential smoothing
+ * (level + trend) on a gap-filled daily grid; shorter ones an ordinary
+ * least-squares trend. Both give Gaussian prediction intervals.
+ */
+
+export type ForecastMethod = 'holt' | 'linear';
+
+export interface ForecastPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+  lower: number;
+  upper: number;
+  stdDev: number; // of the prediction at this horizon
+}
+
+export interface MetricForecast {
+  metric: DriftMetric;
+  method: ForecastMethod;
+  lastDate: string;
+  lastLevel: number;
+  points: ForecastPoint[]; // one per day ahead
+}
+
+export interface ForecastTarget {
+  metric: DriftMetric;
+  direction: 'above' | 'below';
+  threshold: number;
+  severity: Warning['severity'];
+}
+
+export interface Warning {
+  id: string;
+  title: string;
+  description: string;
+  severity: 'critical' | 'high' | 'medium';
+  cluster: string;
+  predictedImpact: string;
+  // Range from the interval's earliest crossing to the projected crossing
+  timeToSurface: string;
+  confidence: number; // 0-100
+  metric: DriftMetric;
+  surfacesAt: string; // projected threshold-crossing date, YYYY-MM-DD
+  threshold: number;
+  method: ForecastMethod;
+  alertType: DriftAlert['type'];
+}
+
+export const FORECAST_HORIZON_DAYS = 30;
+
+// Fewer daily points than this are not forecast at all; Holt needs more
+export const MIN_FORECAST_POINTS = 5;
+const MIN_HOLT_POINTS = 14;
+
+// Two-sided 80% interval
+const INTERVAL_Z = 1.2816;
+
+// Warnings less likely than this to have surfaced by the horizon are dropped
+export const MIN_WARNING_CONFIDENCE = 60;
+
+const SMOOTHING_GRID = [0.1, 0.2, 0.3, 0.5, 0.7];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SEVERITY_ORDER: Warning['severity'][] = ['medium', 'high', 'critical'];
+
+// Copy for each metric's warning and the drift alert type it anticipates
+const METRIC_WARNINGS: Record<DriftMetric, { title: string; impact: string; type: DriftAlert['type'] }> = {
+  symbolAlignment: { title: 'Cultural Drift Detection', impact: 'Value misalignment, decision paralysis', type: 'symbolic_decay' },
+  metaphorDensity: { title: 'Leadership Resonance Gap', impact: 'Strategic message dilution', type: 'symbolic_decay' },
+  narrativeCoherence: { title: 'Narrative Fragmentation', impact: 'Conflicting priorities across teams', type: 'symbolic_decay' },
+  discourseCoherence: { title: 'Conversation Breakdown', impact: 'Threads losing a shared thread of reasoning', type: 'symbolic_decay' },
+  modalCompression: { title: 'Certainty Erosion', impact: 'Slower commitments, hedged decisions', type: 'symbolic_decay' },
+  pronounRatio: { title: 'Collective Identity Erosion', impact: 'Siloed ownership, reduced collaboration', type: 'pronoun_fragmentation' },
+  emotionalStability: { title: 'Emotional Stability Decline', impact: 'Rising friction and disengagement', type: 'tone_collapse' },
+  emotionalFragmentation: { title: 'Emotional Entropy Spike', impact: 'Customer experience inconsistency', type: 'tone_collapse' },
+  missionResonance: { title: 'Mission Drift Projection', impact: 'Sprint velocity decrease, loss of purpose', type: 'mission_drift' },
+  passiveVoice: { title: 'Tone Concealment Build-up', impact: 'Accountability gaps', type: 'tone_concealment' },
+  hedging: { title: 'Hedging Build-up', impact: 'Unclear commitments', type: 'tone_concealment' },
+  nominalization: { title: 'Abstraction Build-up', impact: 'Actions and owners hidden behind nouns', type: 'tone_concealment' },
+  intensifiers: { title: 'Overstatement Build-up', impact: 'Inflated urgency, alarm fatigue', type: 'tone_concealment' }
+};
+
+const addDays = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7).
+ */
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+    Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * One value per calendar day from the first to the last point, linearly
+ * interpolating days without analyses.
+ */
+function fillDailyGaps(series: TimeSeriesPoint[]): number[] {
+  const values: number[] = [];
+  series.forEach((point, i) => {
+    if (i === 0) {
+      values.push(point.value);
+      return;
+    }
+    const previous = series[i - 1];
+    const gap = daysBetween(previous.date, point.date);
+    for (let step = 1; step <= gap; step++) {
+      values.push(previous.value + ((point.value - previous.value) * step) / gap);
+    }
+  });
+  return values;
+}
+
+function fitHolt(values: number[], alpha: number, beta: number) {
+  let level = values[0];
+  let trend = values.length > 1 ? values[1] - values[0] : 0;
+  let squaredError = 0;
+
+  for (let i = 1; i < values.length; i++) {
+    const predicted = level + trend;
+    squaredError += (values[i] - predicted) ** 2;
+    const nextLevel = alpha * values[i] + (1 - alpha) * predicted;
+    trend = beta * (nextLevel - level) + (1 - beta) * trend;
+    level = nextLevel;
+  }
+
+  return { level, trend, mse: squaredError / Math.max(1, values.length - 1) };
+}
+
+function forecastHolt(metric: DriftMetric, series: TimeSeriesPoint[], horizon: number): MetricForecast {
+  const values = fillDailyGaps(series);
+
+  // Smoothing parameters with the lowest one-step-ahead error
+  const fits = SMOOTHING_GRID.flatMap(alpha => SMOOTHING_GRID.map(beta => ({ alpha, beta, ...fitHolt(values, alpha, beta) })));
+  const best = fits.reduce((min, fit) => (fit.mse < min.mse ? fit : min));
+  const sigma = Math.sqrt(best.mse);
+  const lastDate = series[series.length - 1].date;
+
+  // ETS(A,A,N) forecast variance: σ²[1 + Σ_{j=1}^{h-1} α²(1 + jβ)²]
+  let cumulative = 0;
+  const points = Array.from({ length: horizon }, (_, i) => {
+    const h = i + 1;
+    if (h > 1) cumulative += (best.alpha * (1 + (h - 1) * best.beta)) ** 2;
+    const stdDev = sigma * Math.sqrt(1 + cumulative);
+    const value = best.level + h * best.trend;
+    return { date: addDays(lastDate, h), value, lower: value - INTERVAL_Z * stdDev, upper: value + INTERVAL_Z * stdDev, stdDev };
+  });
+
+  return { metric, method: 'holt', lastDate, lastLevel: best.level, points };
+}
+
+function forecastLinear(metric: DriftMetric, series: TimeSeriesPoint[], horizon: number): MetricForecast {
+  const firstDate = series[0].date;
+  const xs = series.map(point => daysBetween(firstDate, point.date));
+  const ys = series.map(point => point.value);
+  const n = xs.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  const slope = sxx > 0 ? xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0) / sxx : 0;
+  const intercept = meanY - slope * meanX;
+
+  const residuals = xs.map((x, i) => ys[i] - (intercept + slope * x));
+  const s = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / Math.max(1, n - 2));
+  const lastDate = series[n - 1].date;
+  const lastX = xs[n - 1];
+
+  const points = Array.from({ length: horizon }, (_, i) => {
+    const x = lastX + i + 1;
+    const stdDev = s * Math.sqrt(1 + 1 / n + (sxx > 0 ? (x - meanX) ** 2 / sxx : 0));
+    const value = intercept + slope * x;
+    return { date: addDays(lastDate, i + 1), value, lower: value - INTERVAL_Z * stdDev, upper: value + INTERVAL_Z * stdDev, stdDev };
+  });
+
+  return { metric, method: 'linear', lastDate, lastLevel: intercept + slope * lastX, points };
+}
+
+/**
+ * Forecast a daily series, or null when it is too short.
+ */
+export function forecastSeries(
+  metric: DriftMetric,
+  series: TimeSeriesPoint[],
+  horizon: number = FORECAST_HORIZON_DAYS
+): MetricForecast | null {
+  if (series.length < MIN_FORECAST_POINTS) return null;
+  return series.length >= MIN_HOLT_POINTS
+    ? forecastHolt(metric, series, horizon)
+    : forecastLinear(metric, series, horizon);
+}
+
+/**
+ * Absolute thresholds to forecast against: the bands of absolute drift rules
+ * and the coherence warning and critical thresholds.
+ */
+export function forecastTargets(rules: DriftRule[], thresholds: CoherenceThreshold[]): ForecastTarget[] {
+  const fromRules = rules
+    .filter(rule => rule.enabled && rule.comparison === 'absolute' && rule.direction !== 'either')
+    .flatMap(rule => SEVERITY_ORDER.flatMap(severity => {
+      const threshold = rule.bands[severity];
+      return threshold === undefined
+        ? []
+        : [{ metric: rule.metric, direction: rule.direction as ForecastTarget['direction'], threshold, severity }];
+    }));
+
+  const fromCoherence = thresholds.flatMap(t => [
+    { metric: t.metric, direction: 'below' as const, threshold: t.warning, severity: 'medium' as const },
+    { metric: t.metric, direction: 'below' as const, threshold: t.critical, severity: 'critical' as const }
+  ]);
+
+  return [...fromRules, ...fromCoherence];
+}
+
+const crosses = (value: number, target: ForecastTarget) =>
+  target.direction === 'above' ? value >= target.threshold : value <= target.threshold;
+
+/**
+ * The most severe projected threshold crossing of a forecast, as a warning.
+ * Targets already breached at the current level are alerts, not warnings.
+ */
+export function warningFromForecast(
+  forecast: MetricForecast,
+  targets: ForecastTarget[],
+  cluster: string
+): Warning | null {
+  const candidates = targets
+    .filter(target => target.metric === forecast.metric && !crosses(forecast.lastLevel, target))
+    .flatMap(target => {
+      const expected = forecast.points.findIndex(point => crosses(point.value, target));
+      if (expected < 0) return [];
+
+      // Earliest day the adverse interval bound reaches the threshold
+      const earliest = forecast.points.findIndex(point =>
+        crosses(target.direction === 'above' ? point.upper : point.lower, target)
+      );
+
+      // Probability of being past the threshold at the horizon
+      const end = forecast.points[forecast.points.length - 1];
+      const distance = target.direction === 'above' ? end.value - target.threshold : target.threshold - end.value;
+      const confidence = Math.round(normalCdf(distance / Math.max(end.stdDev, 1e-6)) * 100);
+      if (confidence < MIN_WARNING_CONFIDENCE) return [];
+
+      return [{ target, expected: expected + 1, earliest: Math.min(expected, Math.max(0, earliest)) + 1, confidence }];
+    });
+
+  if (candidates.length === 0) return null;
+
+  const { target, expected, earliest, confidence } = candidates.reduce((best, candidate) =>
+    SEVERITY_ORDER.indexOf(candidate.target.severity) > SEVERITY_ORDER.indexOf(best.target.severity) ? candidate : best
+  );
+
+  const label = DRIFT_METRICS[forecast.metric].label;
+  const copy = METRIC_WARNINGS[forecast.metric];
+  const surfacesAt = forecast.points[expected - 1].date;
+
+  return {
+    id: `forecast_${cluster}_${forecast.metric}_${target.severity}`,
+    title: copy.title,
+    description: `${label} is at ${forecast.lastLevel.toFixed(2)} and trending ${target.direction === 'above' ? 'up' : 'down'}; ` +
+      `the ${forecast.method === 'holt' ? 'exponential smoothing' : 'linear trend'} forecast crosses ` +
+      `${target.threshold} around ${surfacesAt}.`,
+    severity: target.severity,
+    cluster,
+    predictedImpact: copy.impact,
+    timeToSurface: earliest < expected ? `${earliest}-${expected} days` : `${expected} day${expected === 1 ? '' : 's'}`,
+    confidence,
+    metric: forecast.metric,
+    surfacesAt,
+    threshold: target.threshold,
+    method: forecast.method,
+    alertType: copy.type
+  };
+}
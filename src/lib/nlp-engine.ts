@@ -1,4 +1,69 @@
-import { pipeline, Pipeline } from '@huggingface/transformers';
+import {
+  pipeline,
+  Pipeline,
+  type TextClassificationOutput,
+  type TextClassificationPipeline
+} from '@huggingface/transformers';
+import { lexiconRegistry, type Lexicon, type LexiconReference } from '@/lib/lexicon-registry';
+import { segmentSentences, words as tokenizeWords } from '@/lib/tokenizer';
+import { detectLanguage, DEFAULT_LANGUAGE, type LanguageCode } from '@/lib/language-detector';
+import type { WorkerRequest, WorkerResponse } from '@/lib/nlp-worker-types';
+import { embeddingCache, type EmbeddingCacheStats } from '@/lib/embedding-cache';
+import { signalStore } from '@/lib/signal-store';
+import {
+  computeMetricStatistics,
+  computeStatistics,
+  DRIFT_METRICS,
+  linearSlope,
+  metricValues,
+  severityForZScore,
+  windowStart,
+  type BaselineWindow,
+  type DriftMetric,
+  type MetricStatistics,
+  type RollingBaseline
+} from '@/lib/baseline-statistics';
+import {
+  dailySeries,
+  detectChangePoints,
+  type ChangePoint,
+  type CusumOptions,
+  type TimeSeriesPoint
+} from '@/lib/change-point-detection';
+import { driftRuleStore, evaluateRule } from '@/lib/drift-rules';
+import { computeDiscourseCoherence, type DiscourseCoherence } from '@/lib/discourse-coherence';
+import {
+  aggregateEmotions,
+  emotionalTone,
+  toEmotionScores,
+  type EmotionDistribution,
+  type EmotionScores
+} from '@/lib/emotion-classification';
+import { analyzeGrammar, type GrammaticalFeatures } from '@/lib/grammatical-features';
+import { coherenceThresholdStore } from '@/lib/coherence-metrics';
+import {
+  FORECAST_HORIZON_DAYS,
+  forecastSeries,
+  forecastTargets,
+  warningFromForecast,
+  type Warning
+} from '@/lib/metric-forecasting';
+import { computeFragmentationIndex, type FragmentationIndex } from '@/lib/fragmentation-index';
+import { cosineSimilarity } from '@/lib/vector-math';
+import {
+  collectLexicalEvidence,
+  explainMetrics,
+  type AnalysisEvidence,
+  type EvidenceSpan
+} from '@/lib/analysis-evidence';
+import type { CommunicationMessage } from '@/lib/data-integrations';
+import {
+  reconstructThreads,
+  summarizeConversation,
+  type ChannelAnalysis,
+  type ConversationThread,
+  type ThreadAnalysis
+} from '@/lib/thread-reconstruction';
 
 export interface AnalysisResult {
   sentiment: {
@@ -14,53 +79,191 @@ export interface AnalysisResult {
     collective: number;
     ratio: number;
   };
+  // Derived from emotions when classified, else from negative-word counts
   emotionalTone: {
     stability: number;
     fragmentation: number;
   };
+  emotions?: EmotionScores;
+  // Passive voice, hedging, nominalization and intensifier rates; absent on
+  // analyses stored before they were tracked
+  grammar?: GrammaticalFeatures;
+  language: LanguageCode;
+  lexicon: LexiconReference;
+  // Similarity to the organization's mission statement, when one is set
+  missionResonance?: number;
+  // Coherence of the thread the message belongs to; narrativeCoherence is
+  // the legacy sentence-length score kept for comparison
+  discourseCoherence?: DiscourseCoherence;
+  // Only present when requested with { evidence: true }
+  evidence?: AnalysisEvidence;
+}
+
+export interface AnalyzeOptions {
+  // Collect the tokens and sentences behind each metric (slower)
+  evidence?: boolean;
 }
 
 export interface TemporalBaseline {
   id: string;
   teamId: string;
+  language: LanguageCode;
   period: string;
   symbolAlignment: number[];
   metaphorDensity: number[];
   narrativeCoherence: number[];
+  // Per-message samples and summary statistics for every drift metric
+  // (absent on baselines saved before rolling windows were introduced)
+  samples?: Partial<Record<DriftMetric, number[]>>;
+  statistics?: Partial<Record<DriftMetric, MetricStatistics>>;
   createdAt: string;
   updatedAt: string;
 }
 
 export interface DriftAlert {
-  type: 'symbolic_decay' | 'pronoun_fragmentation' | 'tone_collapse' | 'mission_drift';
+  type: 'symbolic_decay' | 'pronoun_fragmentation' | 'tone_collapse' | 'tone_concealment' | 'mission_drift';
   severity: 'low' | 'medium' | 'high' | 'critical';
   message: string;
   deviation: number;
   timestamp: string;
   cluster: string;
+  metric?: DriftMetric;
+  ruleId?: string; // drift rule that raised the alert
+  evidenceMessageIds?: string[]; // messages that contributed most to the alert
+  onset?: string; // estimated start of a regime shift (YYYY-MM-DD)
+}
+
+// Low resonance of a team's recent messages with the mission statement
+export interface MissionAlert {
+  teamId: string;
+  teamName: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  message: string;
+  score: number;
+  threshold: number;
+  timestamp: string;
+}
+
+// A candidate evidence message for alerts raised from aggregated metrics
+export interface DriftEvidenceCandidate {
+  messageId: string;
+  analysis: AnalysisResult;
 }
 
+export interface ChangePointReport {
+  series: Record<DriftMetric, TimeSeriesPoint[]>;
+  changePoints: ChangePoint[];
+  alerts: DriftAlert[];
+}
+
+const MAX_EVIDENCE_MESSAGES = 3;
+
+// Regime shifts worth alerting on, by metric and the direction that hurts
+const CHANGE_POINT_ALERTS: Partial<Record<DriftMetric, { type: DriftAlert['type']; direction: ChangePoint['direction'] }>> = {
+  symbolAlignment: { type: 'symbolic_decay', direction: 'decrease' },
+  metaphorDensity: { type: 'symbolic_decay', direction: 'decrease' },
+  narrativeCoherence: { type: 'symbolic_decay', direction: 'decrease' },
+  discourseCoherence: { type: 'symbolic_decay', direction: 'decrease' },
+  pronounRatio: { type: 'pronoun_fragmentation', direction: 'increase' },
+  emotionalStability: { type: 'tone_collapse', direction: 'decrease' },
+  emotionalFragmentation: { type: 'tone_collapse', direction: 'increase' },
+  missionResonance: { type: 'mission_drift', direction: 'decrease' },
+  passiveVoice: { type: 'tone_concealment', direction: 'increase' },
+  hedging: { type: 'tone_concealment', direction: 'increase' },
+  nominalization: { type: 'tone_concealment', direction: 'increase' }
+};
+
+export interface BatchAnalysisInput {
+  text: string;
+  teamId?: string;
+  // Messages sharing a thread id are scored together for discourse coherence,
+  // in input order; messages without one are treated as their own thread
+  threadId?: string;
+}
+
+export interface BatchAnalysisOptions extends AnalyzeOptions {
+  batchSize?: number;
+  onProgress?: (completed: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface ConversationAnalysis {
+  // Aligned with the chronologically sorted messages
+  messages: CommunicationMessage[];
+  analyses: AnalysisResult[];
+  threads: ThreadAnalysis[];
+  channels: ChannelAnalysis[];
+}
+
+export type ModelProfile = 'english' | 'multilingual';
+
+export const MODEL_PROFILES: Record<ModelProfile, { label: string; sentiment: string; embedding: string; emotion: string }> = {
+  english: {
+    label: 'English (DistilBERT SST-2 + MiniLM + GoEmotions)',
+    sentiment: 'Xenova/distilbert-base-uncased-finetuned-sst-2-english',
+    embedding: 'Xenova/all-MiniLM-L6-v2',
+    emotion: 'SamLowe/roberta-base-go_emotions-onnx'
+  },
+  multilingual: {
+    // No multilingual GoEmotions model is available in ONNX; emotions are
+    // classified with the English model
+    label: 'Multilingual (BERT star ratings + multilingual MiniLM + GoEmotions)',
+    sentiment: 'Xenova/bert-base-multilingual-uncased-sentiment',
+    embedding: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2',
+    emotion: 'SamLowe/roberta-base-go_emotions-onnx'
+  }
+};
+
+// Symbols used when a team has not registered its own lexicon
+export const DEFAULT_SYMBOL_LEXICON = [
+  'mission',
+  'purpose',
+  'customers',
+  'collaboration',
+  'trust',
+  'innovation',
+  'quality',
+  'growth',
+  'shared vision',
+  'long-term impact'
+];
+
 class NLPEngine {
   private sentimentPipeline: any = null;
   private embeddingPipeline: any = null;
+  private emotionPipeline: TextClassificationPipeline | null = null;
   private isInitialized = false;
+  private workerCacheStats: Pick<EmbeddingCacheStats, 'hits' | 'misses'> = { hits: 0, misses: 0 };
+  private worker: Worker | null = null;
+  private modelProfile: ModelProfile =
+    (localStorage.getItem('signalvault_model_profile') as ModelProfile) || 'english';
+  private baselineWindow: BaselineWindow =
+    (Number(localStorage.getItem('signalvault_baseline_window')) as BaselineWindow) || 30;
 
   async initialize() {
     if (this.isInitialized) return;
 
     try {
       console.log('Initializing NLP pipelines...');
+      const models = MODEL_PROFILES[this.modelProfile] || MODEL_PROFILES.english;
       
       // Initialize sentiment analysis pipeline
       this.sentimentPipeline = await pipeline(
         'sentiment-analysis',
-        'Xenova/distilbert-base-uncased-finetuned-sst-2-english'
+        models.sentiment
       );
 
       // Initialize text embedding pipeline for semantic analysis
       this.embeddingPipeline = await pipeline(
         'feature-extraction',
-        'Xenova/all-MiniLM-L6-v2'
+        models.embedding
+      );
+
+      // Multi-label emotion classification; the explicit task type stops
+      // TypeScript expanding the union of every pipeline
+      this.emotionPipeline = await pipeline<'text-classification'>(
+        'text-classification',
+        models.emotion
       );
 
       this.isInitialized = true;
@@ -71,10 +274,28 @@ class NLPEngine {
     }
   }
 
-  async analyzeText(text: string, teamId?: string): Promise<AnalysisResult> {
+  getModelProfile(): ModelProfile {
+    return this.modelProfile;
+  }
+
+  /**
+   * Switch model profile. Pipelines are reloaded on the next analysis.
+   */
+  setModelProfile(profile: ModelProfile) {
+    if (profile === this.modelProfile) return;
+
+    localStorage.setItem('signalvault_model_profile', profile);
+    this.modelProfile = profile;
+    this.sentimentPipeline = null;
+    this.embeddingPipeline = null;
+    this.emotionPipeline = null;
+    this.isInitialized = false;
+  }
+
+  async analyzeText(text: string, teamId?: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
     await this.initialize();
 
-    if (!this.sentimentPipeline || !this.embeddingPipeline) {
+    if (!this.sentimentPipeline || !this.embeddingPipeline || !this.emotionPipeline) {
       throw new Error('NLP pipelines not initialized');
     }
 
@@ -83,41 +304,372 @@ class NLPEngine {
       const sentimentResult = await this.sentimentPipeline(text);
       const sentiment = Array.isArray(sentimentResult) ? sentimentResult[0] : sentimentResult;
 
-      // Calculate linguistic metrics
-      const metrics = this.calculateLinguisticMetrics(text);
-      
-      return {
-        sentiment: {
-          label: sentiment.label,
-          score: sentiment.score
-        },
-        ...metrics
-      };
+      // Every label's score, not just the top one
+      const emotions = toEmotionScores(await this.emotionPipeline(text, { top_k: null }) as TextClassificationOutput);
+
+      const symbolAlignment = await this.calculateSymbolAlignment(text, teamId);
+      const mission = this.getMissionStatement();
+      const missionResonance = mission ? (await this.calculateMissionResonance(text, mission)) ?? undefined : undefined;
+      const result = this.buildResult(text, teamId, sentiment, symbolAlignment, missionResonance, emotions);
+      const sentenceEmbeddings = await this.embed(segmentSentences(text).map(sentence => sentence.text));
+      this.attachDiscourseCoherence([{ text, teamId }], [result], [sentenceEmbeddings]);
+
+      if (options.evidence) {
+        result.evidence = await this.collectEvidence(text, teamId, result);
+      }
+      return result;
     } catch (error) {
       console.error('Error analyzing text:', error);
       throw error;
     }
   }
 
-  private calculateLinguisticMetrics(text: string) {
-    const words = text.toLowerCase().split(/\s+/);
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
+  /**
+   * Analyze many messages in a dedicated Web Worker so model inference does
+   * not block the UI. Rejects with an AbortError when the signal fires.
+   */
+  async analyzeBatch(messages: BatchAnalysisInput[], options: BatchAnalysisOptions = {}): Promise<AnalysisResult[]> {
+    const { batchSize = 8, signal, evidence } = options;
+
+    if (signal?.aborted) throw this.abortError();
+    if (messages.length === 0) return [];
+
+    const worker = this.getWorker();
+    if (!worker) {
+      // No worker support - fall back to sequential main-thread analysis
+      return this.analyzeSequentially(messages, options);
+    }
+
+    const symbols = Array.from(new Set(messages.flatMap(m => this.getSymbolLexicon(m.teamId))));
+    const mission = this.getMissionStatement();
+    const request: WorkerRequest = {
+      type: 'analyze',
+      requestId: `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      models: MODEL_PROFILES[this.modelProfile] || MODEL_PROFILES.english,
+      items: messages.map(m => ({
+        text: m.text,
+        sentences: segmentSentences(m.text).map(s => s.text)
+      })),
+      symbols,
+      mission: mission || undefined,
+      evidence,
+      batchSize
+    };
+
+    const response = await this.runInWorker<'result'>(worker, request, options);
+    if (!response) {
+      return this.analyzeSequentially(messages, options);
+    }
+
+    const results = messages.map((message, i) => {
+      const output = response.outputs[i];
+      const teamSymbols = this.getSymbolLexicon(message.teamId).map(symbol => response.symbolEmbeddings[symbol]);
+      const symbolAlignment = this.scoreSymbolAlignment(output.sentenceEmbeddings, teamSymbols);
+      const missionResonance = output.textEmbedding && response.missionEmbedding
+        ? this.scoreMissionResonance(output.textEmbedding, response.missionEmbedding)
+        : undefined;
+      return this.buildResult(
+        message.text,
+        message.teamId,
+        output.sentiment,
+        symbolAlignment,
+        missionResonance,
+        toEmotionScores(output.emotions)
+      );
+    });
+
+    this.attachDiscourseCoherence(messages, results, response.outputs.map(output => output.sentenceEmbeddings));
+
+    // Built after discourse coherence so explanations carry the thread-level score
+    if (evidence) {
+      results.forEach((result, i) => {
+        const output = response.outputs[i];
+        const symbols = this.getSymbolLexicon(messages[i].teamId);
+        result.evidence = this.buildEvidence(messages[i].text, messages[i].teamId, result, {
+          symbolEmbeddings: symbols.map(symbol => response.symbolEmbeddings[symbol]),
+          sentenceEmbeddings: output.sentenceEmbeddings,
+          sentiments: output.sentenceSentiments ?? []
+        });
+      });
+    }
+    return results;
+  }
+
+  /**
+   * Send a request to the worker and wait for its final response, reporting
+   * progress along the way. Resolves to null when the worker fails to load or
+   * crashes, so callers can fall back to the main thread.
+   */
+  private runInWorker<T extends 'result' | 'embeddings'>(
+    worker: Worker,
+    request: Exclude<WorkerRequest, { type: 'cancel' }>,
+    { onProgress, signal }: BatchAnalysisOptions = {}
+  ): Promise<Extract<WorkerResponse, { type: T }> | null> {
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        worker.removeEventListener('message', onMessage);
+        worker.removeEventListener('error', onFailure);
+        worker.removeEventListener('messageerror', onFailure);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const onFailure = (event: Event) => {
+        cleanup();
+        console.error('Analysis worker failed:', event instanceof ErrorEvent ? event.message : event.type);
+        this.discardWorker(worker);
+        resolve(null);
+      };
+
+      const onAbort = () => {
+        cleanup();
+        const cancel: WorkerRequest = { type: 'cancel', requestId: request.requestId };
+        worker.postMessage(cancel);
+        reject(this.abortError());
+      };
+
+      const onMessage = (event: MessageEvent<WorkerResponse>) => {
+        const data = event.data;
+        if (data.requestId !== request.requestId) return;
+
+        switch (data.type) {
+          case 'progress':
+            onProgress?.(data.completed, data.total);
+            break;
+          case 'result':
+          case 'embeddings':
+            cleanup();
+            this.workerCacheStats = data.cacheStats;
+            resolve(data as Extract<WorkerResponse, { type: T }>);
+            break;
+          case 'cancelled':
+            cleanup();
+            reject(this.abortError());
+            break;
+          case 'error':
+            cleanup();
+            reject(new Error(data.message));
+            break;
+        }
+      };
+
+      worker.addEventListener('message', onMessage);
+      worker.addEventListener('error', onFailure);
+      worker.addEventListener('messageerror', onFailure);
+      signal?.addEventListener('abort', onAbort);
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Whole-text embeddings computed in the worker, so periodic jobs do not
+   * block the UI. Falls back to the main thread without worker support.
+   */
+  private async embedOffMainThread(texts: string[]): Promise<ArrayLike<number>[]> {
+    if (texts.length === 0) return [];
+
+    const worker = this.getWorker();
+    if (worker) {
+      const response = await this.runInWorker<'embeddings'>(worker, {
+        type: 'embed',
+        requestId: `embed_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        models: MODEL_PROFILES[this.modelProfile] || MODEL_PROFILES.english,
+        texts
+      });
+      if (response) return response.embeddings;
+    }
+
+    await this.initialize();
+    return this.embed(texts);
+  }
+
+  private async analyzeSequentially(
+    messages: BatchAnalysisInput[],
+    { onProgress, signal, evidence }: BatchAnalysisOptions
+  ): Promise<AnalysisResult[]> {
+    const results: AnalysisResult[] = [];
+    for (const message of messages) {
+      if (signal?.aborted) throw this.abortError();
+      results.push(await this.analyzeText(message.text, message.teamId, { evidence }));
+      onProgress?.(results.length, messages.length);
+    }
+
+    // Sentence embeddings are cached by analyzeText, so this re-reads them
+    const sentenceEmbeddings = await Promise.all(
+      messages.map(message => this.embed(segmentSentences(message.text).map(sentence => sentence.text)))
+    );
+    this.attachDiscourseCoherence(messages, results, sentenceEmbeddings);
+
+    // Explain the thread-level coherence rather than the single-message one
+    results.forEach(result => {
+      if (result.evidence) {
+        result.evidence.explanations = explainMetrics(result, result.evidence.spans, result.evidence.sentences);
+      }
+    });
+    return results;
+  }
+
+  /**
+   * Score each thread's sentences as one sequence and attach the result to
+   * every message in the thread. sentenceEmbeddings[i] must align with
+   * segmentSentences(messages[i].text).
+   */
+  private attachDiscourseCoherence(
+    messages: BatchAnalysisInput[],
+    results: AnalysisResult[],
+    sentenceEmbeddings: ArrayLike<number>[][]
+  ) {
+    const threads = new Map<string, number[]>();
+    messages.forEach((message, i) => {
+      const key = message.threadId ? `thread:${message.threadId}` : `message:${i}`;
+      threads.set(key, [...(threads.get(key) || []), i]);
+    });
+
+    threads.forEach(indexes => {
+      const sentences = indexes.flatMap(i =>
+        segmentSentences(messages[i].text).map((sentence, j) => ({
+          tokens: sentence.tokens,
+          embedding: sentenceEmbeddings[i][j]
+        }))
+      ).filter(sentence => sentence.embedding);
+
+      const coherence = computeDiscourseCoherence(sentences, results[indexes[0]].language, indexes.length);
+      indexes.forEach(i => {
+        results[i].discourseCoherence = coherence;
+      });
+    });
+  }
+
+  /**
+   * Analyze messages as reconstructed conversation threads, so discourse
+   * coherence follows reply chains, and aggregate metrics per thread and
+   * per channel.
+   */
+  async analyzeConversations(
+    messages: CommunicationMessage[],
+    options: BatchAnalysisOptions = {}
+  ): Promise<ConversationAnalysis> {
+    const ordered = [...messages].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const threads = reconstructThreads(ordered);
+    const threadOf = new Map(threads.flatMap(thread => thread.messageIds.map(id => [id, thread.id] as const)));
+
+    const analyses = await this.analyzeBatch(ordered.map(message => ({
+      text: message.text,
+      teamId: message.teamId,
+      threadId: threadOf.get(message.id)
+    })), options);
+
+    const analysisOf = new Map(ordered.map((message, i) => [message.id, analyses[i]]));
+    const threadAnalyses = threads.map(thread => ({
+      thread,
+      metrics: summarizeConversation(thread.messageIds.map(id => analysisOf.get(id)!))
+    }));
+
+    const channels = new Map<string, ConversationThread[]>();
+    threads.forEach(thread => {
+      const key = `${thread.platform}:${thread.channel}`;
+      channels.set(key, [...(channels.get(key) || []), thread]);
+    });
+
+    return {
+      messages: ordered,
+      analyses,
+      threads: threadAnalyses,
+      channels: Array.from(channels.values()).map(group => ({
+        platform: group[0].platform,
+        channel: group[0].channel,
+        threadCount: group.length,
+        metrics: summarizeConversation(group.flatMap(thread => thread.messageIds.map(id => analysisOf.get(id)!)))
+      }))
+    };
+  }
+
+  private getWorker(): Worker | null {
+    if (typeof Worker === 'undefined') return null;
+
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./nlp-worker.ts', import.meta.url), { type: 'module' });
+    }
+    return this.worker;
+  }
+
+  /**
+   * Drop a failed worker so the next batch starts a fresh one. Every pending
+   * batch on it receives the same error event and falls back on its own.
+   */
+  private discardWorker(worker: Worker) {
+    worker.terminate();
+    if (this.worker === worker) {
+      this.worker = null;
+    }
+  }
+
+  private abortError(): DOMException {
+    return new DOMException('Analysis cancelled', 'AbortError');
+  }
+
+  private buildResult(
+    text: string,
+    teamId: string | undefined,
+    sentiment: { label: string; score: number },
+    symbolAlignment: number,
+    missionResonance?: number,
+    emotions?: EmotionScores
+  ): AnalysisResult {
+    // Calculate linguistic metrics with the lexicon for the message language
+    const { language } = detectLanguage(text);
+    const lexicon = lexiconRegistry.resolveForTeam(teamId, language);
+    const metrics = this.calculateLinguisticMetrics(text, lexicon);
+
+    return {
+      sentiment: this.normalizeSentiment(sentiment),
+      symbolAlignment,
+      ...metrics,
+      ...(emotions && { emotions, emotionalTone: emotionalTone(emotions) }),
+      grammar: analyzeGrammar(text, language).features,
+      language,
+      lexicon: {
+        id: lexicon.id,
+        version: lexicon.version
+      },
+      ...(missionResonance !== undefined && { missionResonance })
+    };
+  }
+
+  /**
+   * The multilingual model rates 1-5 stars; map it onto the SST-2 labels.
+   */
+  private normalizeSentiment(sentiment: { label: string; score: number }): AnalysisResult['sentiment'] {
+    const stars = parseInt(sentiment.label, 10);
+    if (isNaN(stars)) {
+      return { label: sentiment.label, score: sentiment.score };
+    }
+
+    const label = stars >= 4 ? 'POSITIVE' : stars <= 2 ? 'NEGATIVE' : 'NEUTRAL';
+    return { label, score: sentiment.score };
+  }
+
+  private calculateLinguisticMetrics(text: string, lexicon: Lexicon) {
+    const words = tokenizeWords(text);
+    const sentences = segmentSentences(text);
+    if (words.length === 0) {
+      return this.emptyLinguisticMetrics();
+    }
     
     // Symbolic alignment - measure consistency of metaphorical language
-    const metaphorWords = ['like', 'as', 'bridge', 'journey', 'path', 'mountain', 'ocean', 'storm', 'light', 'darkness'];
+    const metaphorWords = lexicon.words.metaphor;
     const metaphorCount = words.filter(word => metaphorWords.includes(word)).length;
     const metaphorDensity = (metaphorCount / words.length) * 100;
 
     // Pronoun distribution analysis
-    const individualPronouns = ['i', 'me', 'my', 'mine', 'myself'];
-    const collectivePronouns = ['we', 'us', 'our', 'ours', 'ourselves'];
+    const individualPronouns = lexicon.words.individualPronouns;
+    const collectivePronouns = lexicon.words.collectivePronouns;
     
     const individualCount = words.filter(word => individualPronouns.includes(word)).length;
     const collectiveCount = words.filter(word => collectivePronouns.includes(word)).length;
     const pronounRatio = collectiveCount > 0 ? individualCount / collectiveCount : individualCount;
 
     // Modal compression - measure of certainty/uncertainty
-    const modalWords = ['might', 'could', 'should', 'would', 'may', 'can', 'will', 'must'];
+    const modalWords = lexicon.words.modal;
     const modalCount = words.filter(word => modalWords.includes(word)).length;
     const modalCompression = Math.max(0, 100 - (modalCount / words.length) * 100);
 
@@ -125,17 +677,13 @@ class NLPEngine {
     const avgSentenceLength = words.length / sentences.length;
     const narrativeCoherence = Math.min(100, Math.max(0, 100 - Math.abs(avgSentenceLength - 15) * 2));
 
-    // Symbolic alignment - measure consistency
-    const symbolAlignment = Math.min(100, 70 + Math.random() * 30); // Enhanced calculation needed
-
     // Emotional tone metrics
-    const negativeWords = ['not', 'no', 'never', 'nothing', 'nobody', 'difficult', 'problem', 'issue', 'concern'];
+    const negativeWords = lexicon.words.negative;
     const negativeCount = words.filter(word => negativeWords.includes(word)).length;
     const emotionalStability = Math.max(0, 100 - (negativeCount / words.length) * 200);
     const emotionalFragmentation = 100 - emotionalStability;
 
     return {
-      symbolAlignment,
       metaphorDensity,
       narrativeCoherence,
       modalCompression,
@@ -151,96 +699,468 @@ class NLPEngine {
     };
   }
 
-  // Temporal baseline management
-  async saveBaseline(teamId: string, analysis: AnalysisResult[]): Promise<void> {
-    const baseline: TemporalBaseline = {
-      id: `baseline_${teamId}_${Date.now()}`,
-      teamId,
-      period: new Date().toISOString().slice(0, 10), // YYYY-MM-DD
-      symbolAlignment: analysis.map(a => a.symbolAlignment),
-      metaphorDensity: analysis.map(a => a.metaphorDensity),
-      narrativeCoherence: analysis.map(a => a.narrativeCoherence),
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
+  private emptyLinguisticMetrics() {
+    return {
+      metaphorDensity: 0,
+      narrativeCoherence: 0,
+      modalCompression: 100,
+      pronounDistribution: { individual: 0, collective: 0, ratio: 0 },
+      emotionalTone: { stability: 100, fragmentation: 0 }
     };
+  }
 
-    // Store in IndexedDB
-    const existingBaselines = JSON.parse(localStorage.getItem('signalvault_baselines') || '[]');
-    existingBaselines.push(baseline);
-    localStorage.setItem('signalvault_baselines', JSON.stringify(existingBaselines));
+  /**
+   * Lexical matches, per-sentence symbol matches and sentence-level
+   * sentiment attribution behind a result, computed on the main thread.
+   */
+  private async collectEvidence(text: string, teamId: string | undefined, result: AnalysisResult): Promise<AnalysisEvidence> {
+    const sentences = segmentSentences(text).map(sentence => sentence.text);
+    if (sentences.length === 0) {
+      return this.buildEvidence(text, teamId, result, { symbolEmbeddings: [], sentenceEmbeddings: [], sentiments: [] });
+    }
+
+    const sentiments = await this.sentimentPipeline(sentences);
+    return this.buildEvidence(text, teamId, result, {
+      symbolEmbeddings: await this.embed(this.getSymbolLexicon(teamId)),
+      sentenceEmbeddings: await this.embed(sentences),
+      sentiments: Array.isArray(sentiments) ? sentiments : [sentiments]
+    });
   }
 
-  async getBaseline(teamId: string): Promise<TemporalBaseline | null> {
-    const baselines: TemporalBaseline[] = JSON.parse(localStorage.getItem('signalvault_baselines') || '[]');
-    return baselines.find(b => b.teamId === teamId) || null;
+  /**
+   * Evidence from sentence scores computed elsewhere. symbolEmbeddings align
+   * with the team's symbol lexicon; sentence embeddings and sentiments with
+   * segmentSentences(text).
+   */
+  private buildEvidence(
+    text: string,
+    teamId: string | undefined,
+    result: AnalysisResult,
+    scores: {
+      symbolEmbeddings: ArrayLike<number>[];
+      sentenceEmbeddings: ArrayLike<number>[];
+      sentiments: { label: string; score: number }[];
+    }
+  ): AnalysisEvidence {
+    const lexicon = lexiconRegistry.resolveForTeam(teamId, result.language);
+    const { spans, sentences } = collectLexicalEvidence(text, lexicon);
+    const symbols = this.getSymbolLexicon(teamId);
+
+    const contextSpans: EvidenceSpan[] = [];
+    sentences.forEach((sentence, i) => {
+      const sentenceEmbedding = scores.sentenceEmbeddings[i];
+      const similarities = sentenceEmbedding
+        ? scores.symbolEmbeddings.map(embedding => cosineSimilarity(sentenceEmbedding, embedding))
+        : [];
+      const best = similarities.indexOf(Math.max(...similarities));
+      if (best >= 0) {
+        sentence.symbol = {
+          closest: symbols[best],
+          score: Math.max(0, Math.min(100, (similarities[best] + 1) * 50))
+        };
+      }
+
+      if (scores.sentiments[i]) {
+        sentence.sentiment = this.normalizeSentiment(scores.sentiments[i]);
+      }
+
+      // Highlight the sentences pulling alignment down and those carrying negative tone
+      if (sentence.symbol && sentence.symbol.score < result.symbolAlignment) {
+        contextSpans.push({ start: sentence.start, end: sentence.end, text: sentence.text, category: 'symbol' });
+      }
+      if (sentence.sentiment?.label === 'NEGATIVE') {
+        contextSpans.push({ start: sentence.start, end: sentence.end, text: sentence.text, category: 'sentiment' });
+      }
+    });
+
+    const grammarSpans: EvidenceSpan[] = analyzeGrammar(text, result.language).matches
+      .map(({ feature, ...span }) => ({ ...span, category: feature }));
+
+    const allSpans = [...contextSpans, ...spans, ...grammarSpans];
+    return { spans: allSpans, sentences, explanations: explainMetrics(result, allSpans, sentences) };
   }
 
-  // Drift detection
-  async detectDrift(current: AnalysisResult, teamId: string): Promise<DriftAlert[]> {
-    const baseline = await this.getBaseline(teamId);
-    if (!baseline) return [];
+  /**
+   * Symbolic alignment - mean of each sentence's closest match in the team's
+   * symbol lexicon, in embedding space. Deterministic for identical input.
+   */
+  private async calculateSymbolAlignment(text: string, teamId?: string): Promise<number> {
+    const sentences = segmentSentences(text).map(s => s.text);
+    const symbols = this.getSymbolLexicon(teamId);
+    if (sentences.length === 0 || symbols.length === 0) return 0;
 
-    const alerts: DriftAlert[] = [];
-    
-    // Calculate average baseline values
-    const avgSymbolic = baseline.symbolAlignment.reduce((a, b) => a + b, 0) / baseline.symbolAlignment.length;
-    const avgMetaphor = baseline.metaphorDensity.reduce((a, b) => a + b, 0) / baseline.metaphorDensity.length;
-    const avgNarrative = baseline.narrativeCoherence.reduce((a, b) => a + b, 0) / baseline.narrativeCoherence.length;
-
-    // Check for significant deviations
-    const symbolicDeviation = Math.abs(current.symbolAlignment - avgSymbolic);
-    const metaphorDeviation = Math.abs(current.metaphorDensity - avgMetaphor);
-    const narrativeDeviation = Math.abs(current.narrativeCoherence - avgNarrative);
-
-    if (symbolicDeviation > 20) {
-      alerts.push({
-        type: 'symbolic_decay',
-        severity: symbolicDeviation > 40 ? 'critical' : symbolicDeviation > 30 ? 'high' : 'medium',
-        message: `Symbolic alignment has drifted ${symbolicDeviation.toFixed(1)}% from baseline`,
-        deviation: symbolicDeviation,
-        timestamp: new Date().toISOString(),
-        cluster: teamId
-      });
+    const symbolEmbeddings = await this.embed(symbols);
+    const sentenceEmbeddings = await this.embed(sentences);
+
+    return this.scoreSymbolAlignment(sentenceEmbeddings, symbolEmbeddings);
+  }
+
+  private scoreSymbolAlignment(sentenceEmbeddings: ArrayLike<number>[], symbolEmbeddings: ArrayLike<number>[]): number {
+    if (sentenceEmbeddings.length === 0 || symbolEmbeddings.length === 0) return 0;
+
+    let total = 0;
+    for (const sentenceEmbedding of sentenceEmbeddings) {
+      total += Math.max(
+        ...symbolEmbeddings.map(embedding => cosineSimilarity(sentenceEmbedding, embedding))
+      );
     }
 
-    if (metaphorDeviation > 15) {
-      alerts.push({
-        type: 'symbolic_decay',
-        severity: metaphorDeviation > 30 ? 'high' : 'medium',
-        message: `Metaphor density showing ${metaphorDeviation.toFixed(1)}% deviation`,
-        deviation: metaphorDeviation,
-        timestamp: new Date().toISOString(),
-        cluster: teamId
-      });
+    const similarity = total / sentenceEmbeddings.length;
+    return Math.max(0, Math.min(100, (similarity + 1) * 50));
+  }
+
+  /**
+   * Embed texts through the persistent cache so unchanged content is not
+   * re-embedded on every poll.
+   */
+  private async embed(texts: string[]): Promise<Float32Array[]> {
+    const modelId = (MODEL_PROFILES[this.modelProfile] || MODEL_PROFILES.english).embedding;
+
+    return embeddingCache.getOrCompute(modelId, texts, async (missing) => {
+      const output = await this.embeddingPipeline(missing, { pooling: 'mean', normalize: true });
+      return output.tolist();
+    });
+  }
+
+  /**
+   * Cache statistics across the main thread and the analysis worker.
+   */
+  async getEmbeddingCacheStats(): Promise<EmbeddingCacheStats> {
+    const stats = await embeddingCache.getStats();
+    const hits = stats.hits + this.workerCacheStats.hits;
+    const misses = stats.misses + this.workerCacheStats.misses;
+
+    return {
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+      entries: stats.entries
+    };
+  }
+
+  async clearEmbeddingCache(): Promise<void> {
+    await embeddingCache.clear();
+    this.workerCacheStats = { hits: 0, misses: 0 };
+  }
+
+  // Symbol lexicon management
+  registerSymbolLexicon(teamId: string, symbols: string[]): void {
+    const lexicons: Record<string, string[]> = JSON.parse(localStorage.getItem('signalvault_symbol_lexicons') || '{}');
+    lexicons[teamId] = symbols.map(s => s.trim()).filter(s => s.length > 0);
+    localStorage.setItem('signalvault_symbol_lexicons', JSON.stringify(lexicons));
+  }
+
+  getSymbolLexicon(teamId?: string): string[] {
+    const lexicons: Record<string, string[]> = JSON.parse(localStorage.getItem('signalvault_symbol_lexicons') || '{}');
+    return (teamId && lexicons[teamId]?.length) ? lexicons[teamId] : DEFAULT_SYMBOL_LEXICON;
+  }
+
+  // Temporal baseline management
+  getBaselineWindow(): BaselineWindow {
+    return this.baselineWindow;
+  }
+
+  setBaselineWindow(windowDays: BaselineWindow) {
+    localStorage.setItem('signalvault_baseline_window', String(windowDays));
+    this.baselineWindow = windowDays;
+  }
+
+  // Metrics are only comparable within a language, so one baseline is kept per language.
+  // asOf dates the snapshot, so imported history lands in the right baseline windows.
+  async saveBaseline(teamId: string, analysis: AnalysisResult[], asOf: Date = new Date()): Promise<void> {
+    const byLanguage = analysis.reduce((acc, a) => {
+      const language = a.language || DEFAULT_LANGUAGE;
+      if (!acc[language]) {
+        acc[language] = [];
+      }
+      acc[language].push(a);
+      return acc;
+    }, {} as Partial<Record<LanguageCode, AnalysisResult[]>>);
+
+    for (const [language, analyses] of Object.entries(byLanguage) as [LanguageCode, AnalysisResult[]][]) {
+      const samples = Object.fromEntries(
+        (Object.keys(DRIFT_METRICS) as DriftMetric[]).map(metric => [
+          metric,
+          analyses.map(DRIFT_METRICS[metric].extract).filter(value => Number.isFinite(value))
+        ])
+      ) as Record<DriftMetric, number[]>;
+
+      const baseline: TemporalBaseline = {
+        id: `baseline_${teamId}_${language}_${asOf.getTime()}`,
+        teamId,
+        language,
+        period: asOf.toISOString().slice(0, 10), // YYYY-MM-DD
+        symbolAlignment: samples.symbolAlignment,
+        metaphorDensity: samples.metaphorDensity,
+        narrativeCoherence: samples.narrativeCoherence,
+        samples,
+        statistics: computeMetricStatistics(analyses),
+        createdAt: asOf.toISOString(),
+        updatedAt: new Date().toISOString()
+      };
+      await signalStore.saveBaseline(baseline);
     }
+  }
+
+  /**
+   * Most recent baseline snapshot for a team and language.
+   */
+  async getBaseline(teamId: string, language: LanguageCode = DEFAULT_LANGUAGE): Promise<TemporalBaseline | null> {
+    const baselines = await signalStore.getBaselines(teamId);
+    return baselines.reverse().find(b => (b.language || DEFAULT_LANGUAGE) === language) || null;
+  }
+
+  /**
+   * Compute a team's Fragmentation Index from the messages and analyses
+   * stored in the window, and persist it to the index history. Returns null
+   * when the window holds no analyzed messages.
+   */
+  async updateFragmentationIndex(
+    teamId: string,
+    windowDays: BaselineWindow = this.baselineWindow,
+    asOf: Date = new Date()
+  ): Promise<FragmentationIndex | null> {
+    const range = { from: windowStart(windowDays, asOf), to: asOf.toISOString() };
+    const analyses = await signalStore.getAnalyses(teamId, range);
+    if (analyses.length === 0) return null;
+
+    const analyzed = new Set(analyses.map(a => a.messageId));
+    const messages = (await signalStore.getMessages(teamId, range)).filter(message => analyzed.has(message.id));
+
+    const embeddings = await this.embedOffMainThread(messages.map(message => message.text));
+    const byUser = messages.reduce((acc, message, i) => {
+      acc[message.userId] = [...(acc[message.userId] || []), embeddings[i]];
+      return acc;
+    }, {} as Record<string, ArrayLike<number>[]>);
+
+    const index = computeFragmentationIndex(
+      teamId,
+      Object.entries(byUser).map(([userId, userEmbeddings]) => ({ userId, embeddings: userEmbeddings })),
+      analyses,
+      asOf
+    );
+    await signalStore.saveFragmentationIndex(index);
+    return index;
+  }
 
-    if (current.pronounDistribution.ratio > 2.0) {
-      alerts.push({
-        type: 'pronoun_fragmentation',
-        severity: current.pronounDistribution.ratio > 3.0 ? 'high' : 'medium',
-        message: `Individual vs collective pronoun imbalance detected (ratio: ${current.pronounDistribution.ratio.toFixed(2)})`,
-        deviation: current.pronounDistribution.ratio,
-        timestamp: new Date().toISOString(),
-        cluster: teamId
+  /**
+   * Team emotion distribution over stored analyses in the window.
+   */
+  async getEmotionDistribution(
+    teamId: string,
+    windowDays: BaselineWindow = this.baselineWindow,
+    asOf: Date = new Date()
+  ): Promise<EmotionDistribution> {
+    const analyses = await signalStore.getAnalyses(teamId, { from: windowStart(windowDays, asOf), to: asOf.toISOString() });
+    return aggregateEmotions(teamId, analyses);
+  }
+
+  /**
+   * Pool every baseline snapshot saved within the window and summarise each
+   * metric with mean, standard deviation and percentiles.
+   */
+  async getRollingBaseline(
+    teamId: string,
+    language: LanguageCode = DEFAULT_LANGUAGE,
+    windowDays: BaselineWindow = this.baselineWindow,
+    asOf: Date = new Date()
+  ): Promise<RollingBaseline> {
+    const from = windowStart(windowDays, asOf);
+    const to = asOf.toISOString();
+    const snapshots = (await signalStore.getBaselines(teamId, { from, to }))
+      .filter(b => (b.language || DEFAULT_LANGUAGE) === language);
+
+    const pooled: Partial<Record<DriftMetric, number[]>> = {};
+    const snapshotMeans: Partial<Record<DriftMetric, { x: number; y: number }[]>> = {};
+    const fromTime = new Date(from).getTime();
+    snapshots.forEach(snapshot => {
+      const day = (new Date(snapshot.createdAt).getTime() - fromTime) / (24 * 60 * 60 * 1000);
+      (Object.keys(DRIFT_METRICS) as DriftMetric[]).forEach(metric => {
+        const legacy = metric === 'symbolAlignment' || metric === 'metaphorDensity' || metric === 'narrativeCoherence'
+          ? snapshot[metric]
+          : undefined;
+        const values = snapshot.samples?.[metric] ?? legacy;
+        if (values && values.length > 0) {
+          pooled[metric] = (pooled[metric] || []).concat(values);
+          snapshotMeans[metric] = (snapshotMeans[metric] || []).concat({
+            x: day,
+            y: values.reduce((sum, v) => sum + v, 0) / values.length
+          });
+        }
       });
+    });
+
+    const metrics = Object.fromEntries(
+      Object.entries(pooled).map(([metric, values]) => [metric, computeStatistics(values)])
+    ) as Partial<Record<DriftMetric, MetricStatistics>>;
+
+    return {
+      teamId,
+      language,
+      windowDays,
+      from,
+      to,
+      sampleSize: metrics.symbolAlignment?.count ?? 0,
+      metrics,
+      trend: Object.fromEntries(
+        Object.entries(snapshotMeans)
+          .map(([metric, points]) => [metric, linearSlope(points)])
+          .filter(([, slope]) => slope !== null)
+      )
+    };
+  }
+
+  // Drift detection
+  async detectDrift(
+    current: AnalysisResult,
+    teamId: string,
+    windowDays: BaselineWindow = this.baselineWindow,
+    messageId?: string
+  ): Promise<DriftAlert[]> {
+    const evidence = messageId ? [{ messageId, analysis: current }] : [];
+    return this.evaluateDriftRules(teamId, metricValues(current), current.language, windowDays, evidence);
+  }
+
+  /**
+   * Evaluate the team's drift rules against metric values, loading one
+   * rolling baseline per window the rules reference. windowDays applies to
+   * rules without their own window. Each alert links the evidence messages
+   * furthest in the direction the rule fires.
+   */
+  async evaluateDriftRules(
+    teamId: string,
+    values: Partial<Record<DriftMetric, number>>,
+    language: LanguageCode = DEFAULT_LANGUAGE,
+    windowDays: BaselineWindow = this.baselineWindow,
+    evidence: DriftEvidenceCandidate[] = []
+  ): Promise<DriftAlert[]> {
+    const rules = driftRuleStore.getRulesForTeam(teamId);
+    const baselines = new Map<BaselineWindow, RollingBaseline>();
+
+    for (const window of new Set(rules.map(rule => rule.window ?? windowDays))) {
+      baselines.set(window, await this.getRollingBaseline(teamId, language, window));
     }
 
-    if (current.emotionalTone.fragmentation > 60) {
-      alerts.push({
-        type: 'tone_collapse',
-        severity: current.emotionalTone.fragmentation > 80 ? 'critical' : 'high',
-        message: `Emotional tone fragmentation at ${current.emotionalTone.fragmentation.toFixed(1)}%`,
-        deviation: current.emotionalTone.fragmentation,
-        timestamp: new Date().toISOString(),
-        cluster: teamId
+    return rules.flatMap(rule => {
+      const value = values[rule.metric];
+      const ruleWindow = rule.window ?? windowDays;
+      const baseline = baselines.get(ruleWindow);
+      if (value === undefined || !baseline) return [];
+
+      const alert = evaluateRule(rule, {
+        teamId,
+        windowDays: ruleWindow,
+        value,
+        baseline: baseline.metrics[rule.metric],
+        baselineSamples: baseline.sampleSize,
+        slope: baseline.trend[rule.metric]
       });
-    }
+      if (!alert) return [];
+
+      const scored = evidence
+        .map(candidate => ({ id: candidate.messageId, value: DRIFT_METRICS[rule.metric].extract(candidate.analysis) }))
+        .filter(candidate => Number.isFinite(candidate.value))
+        .sort((a, b) => (rule.direction === 'below' ? a.value - b.value : b.value - a.value));
+      if (scored.length > 0) {
+        alert.evidenceMessageIds = scored.slice(0, MAX_EVIDENCE_MESSAGES).map(candidate => candidate.id);
+      }
+      return [alert];
+    });
+  }
+
+  /**
+   * Run CUSUM change-point detection over a team's daily metric series.
+   * Returns the series for charting, every detected shift, and alerts for
+   * shifts in the adverse direction.
+   */
+  async detectChangePoints(
+    teamId: string,
+    language: LanguageCode = DEFAULT_LANGUAGE,
+    windowDays: BaselineWindow = 90,
+    options: CusumOptions = {}
+  ): Promise<ChangePointReport> {
+    const analyses = (await signalStore.getAnalyses(teamId, { from: windowStart(windowDays) }))
+      .filter(a => (a.language || DEFAULT_LANGUAGE) === language);
+
+    const series = Object.fromEntries(
+      (Object.keys(DRIFT_METRICS) as DriftMetric[]).map(metric => [metric, dailySeries(analyses, metric)])
+    ) as Record<DriftMetric, TimeSeriesPoint[]>;
+
+    const changePoints = (Object.keys(series) as DriftMetric[])
+      .flatMap(metric => detectChangePoints(metric, series[metric], options));
+
+    const alerts: DriftAlert[] = changePoints.flatMap(point => {
+      const rule = CHANGE_POINT_ALERTS[point.metric];
+      if (!rule || rule.direction !== point.direction) return [];
+
+      const severity = severityForZScore(point.magnitude);
+      return [{
+        type: rule.type,
+        severity: severity === 'low' ? 'medium' : severity,
+        message: `${DRIFT_METRICS[point.metric].label} shifted from ${point.before.toFixed(1)} to ${point.after.toFixed(1)} ` +
+          `starting ${point.onset} (${Math.abs(point.magnitude).toFixed(1)}σ regime change)`,
+        deviation: point.magnitude,
+        timestamp: new Date(`${point.detectedAt}T00:00:00Z`).toISOString(),
+        cluster: teamId,
+        metric: point.metric,
+        onset: point.onset
+      }];
+    });
+
+    return { series, changePoints, alerts };
+  }
 
-    return alerts;
+  /**
+   * Forecast each metric's daily series and warn about absolute drift rule
+   * bands and coherence thresholds projected to be crossed within the horizon.
+   */
+  async forecastWarnings(
+    teamId: string,
+    language: LanguageCode = DEFAULT_LANGUAGE,
+    windowDays: BaselineWindow = 90,
+    horizonDays: number = FORECAST_HORIZON_DAYS
+  ): Promise<Warning[]> {
+    const analyses = (await signalStore.getAnalyses(teamId, { from: windowStart(windowDays) }))
+      .filter(a => (a.language || DEFAULT_LANGUAGE) === language);
+    const targets = forecastTargets(driftRuleStore.getRulesForTeam(teamId), coherenceThresholdStore.listThresholds());
+
+    return (Object.keys(DRIFT_METRICS) as DriftMetric[])
+      .filter(metric => targets.some(target => target.metric === metric))
+      .flatMap(metric => {
+        const forecast = forecastSeries(metric, dailySeries(analyses, metric), horizonDays);
+        const warning = forecast && warningFromForecast(forecast, targets, teamId);
+        return warning ? [warning] : [];
+      });
   }
 
   // Mission Resonance Index
-  async calculateMissionResonance(text: string, missionStatement: string): Promise<number> {
+  getMissionStatement(): string | null {
+    return localStorage.getItem('signalvault_mission')?.trim() || null;
+  }
+
+  /**
+   * Set the mission statement scored against every analyzed message.
+   * Resonance history is only comparable while the statement is unchanged.
+   */
+  setMissionStatement(statement: string) {
+    localStorage.setItem('signalvault_mission', statement);
+  }
+
+  /**
+   * Resonance of a single text with the mission statement, or null when it
+   * cannot be scored so the sample is skipped rather than stored.
+   */
+  async calculateMissionResonance(text: string, missionStatement: string): Promise<number | null> {
+    return this.calculateMeanMissionResonance([text], missionStatement);
+  }
+
+  /**
+   * Mean per-message resonance, comparable with the per-message scores that
+   * baselines are built from. Null when nothing could be scored.
+   */
+  async calculateMeanMissionResonance(texts: string[], missionStatement: string): Promise<number | null> {
+    if (texts.length === 0) return null;
+
     await this.initialize();
     
     if (!this.embeddingPipeline) {
@@ -248,36 +1168,21 @@ class NLPEngine {
     }
 
     try {
-      // Get embeddings for both texts
-      const textEmbedding = await this.embeddingPipeline(text, { pooling: 'mean', normalize: true });
-      const missionEmbedding = await this.embeddingPipeline(missionStatement, { pooling: 'mean', normalize: true });
-
-      // Calculate cosine similarity
-      const similarity = this.cosineSimilarity(
-        textEmbedding.data,
-        missionEmbedding.data
-      );
+      const embeddings = await this.embed([...texts, missionStatement]);
+      const missionEmbedding = embeddings.pop()!;
+      const scores = embeddings.map(embedding => this.scoreMissionResonance(embedding, missionEmbedding));
 
-      // Convert to percentage
-      return Math.max(0, Math.min(100, (similarity + 1) * 50));
+      return scores.reduce((sum, score) => sum + score, 0) / scores.length;
     } catch (error) {
       console.error('Error calculating mission resonance:', error);
-      return 50; // Default fallback
+      return null;
     }
   }
 
-  private cosineSimilarity(a: number[], b: number[]): number {
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
-
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
-
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+  // Cosine similarity mapped to a percentage
+  private scoreMissionResonance(textEmbedding: ArrayLike<number>, missionEmbedding: ArrayLike<number>): number {
+    const similarity = cosineSimilarity(textEmbedding, missionEmbedding);
+    return Math.max(0, Math.min(100, (similarity + 1) * 50));
   }
 }
 
@@ -0,0 +1,59 @@
+import type { EmbeddingCacheStats } from '@/lib/embedding-cache';
+
+/**
+ * Message protocol between NLPEngine and the inference worker.
+ * The worker only runs the transformers.js models; lexical metrics stay on
+ * the main thread where the lexicon registry lives.
+ */
+
+export interface WorkerModels {
+  sentiment: string;
+  embedding: string;
+  emotion: string;
+}
+
+export interface WorkerAnalysisItem {
+  text: string;
+  sentences: string[];
+}
+
+export interface WorkerAnalysisOutput {
+  sentiment: { label: string; score: number };
+  emotions: { label: string; score: number }[]; // every emotion label
+  sentenceEmbeddings: number[][];
+  sentenceSentiments?: { label: string; score: number }[]; // only when evidence is requested
+  textEmbedding?: number[]; // only when a mission statement is sent
+}
+
+export type WorkerRequest =
+  | {
+      type: 'analyze';
+      requestId: string;
+      models: WorkerModels;
+      items: WorkerAnalysisItem[];
+      symbols: string[];
+      mission?: string;
+      evidence?: boolean; // also score each sentence's sentiment
+      batchSize: number;
+    }
+  | { type: 'embed'; requestId: string; models: WorkerModels; texts: string[] }
+  | { type: 'cancel'; requestId: string };
+
+export type WorkerResponse =
+  | { type: 'progress'; requestId: string; completed: number; total: number }
+  | {
+      type: 'result';
+      requestId: string;
+      outputs: WorkerAnalysisOutput[];
+      symbolEmbeddings: Record<string, number[]>;
+      missionEmbedding?: number[];
+      cacheStats: Pick<EmbeddingCacheStats, 'hits' | 'misses'>;
+    }
+  | {
+      type: 'embeddings';
+      requestId: string;
+      embeddings: number[][];
+      cacheStats: Pick<EmbeddingCacheStats, 'hits' | 'misses'>;
+    }
+  | { type: 'cancelled'; requestId: string }
+  | { type: 'error'; requestId: string; message: string };
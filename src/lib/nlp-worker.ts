@@ -0,0 +1,159 @@
+import {
+  pipeline,
+  type FeatureExtractionPipeline,
+  type TextClassificationOutput,
+  type TextClassificationPipeline
+} from '@huggingface/transformers';
+import { embeddingCache } from '@/lib/embedding-cache';
+import type { WorkerModels, WorkerRequest, WorkerResponse, WorkerAnalysisOutput } from '@/lib/nlp-worker-types';
+
+/**
+ * Dedicated worker running sentiment, emotion and embedding inference off the main
+ * thread. Texts are processed in batches so cancellation is checked between
+ * batches and progress can be reported. Whole-text embeddings can also be
+ * requested on their own.
+ */
+
+const ctx = self as unknown as Worker;
+
+// Loaded or loading models; requests arriving mid-load share the promise
+let loading: { models: WorkerModels; promise: Promise<void> } | null = null;
+let sentimentPipeline: TextClassificationPipeline | null = null;
+let embeddingPipeline: FeatureExtractionPipeline | null = null;
+let emotionPipeline: TextClassificationPipeline | null = null;
+// Analyze requests still running, and those among them asked to stop
+const active: Set<string> = new Set();
+const cancelled: Set<string> = new Set();
+
+const post = (message: WorkerResponse) => ctx.postMessage(message);
+
+function loadPipelines(models: WorkerModels): Promise<void> {
+  if (
+    loading &&
+    loading.models.sentiment === models.sentiment &&
+    loading.models.embedding === models.embedding &&
+    loading.models.emotion === models.emotion
+  ) {
+    return loading.promise;
+  }
+
+  const promise = (async () => {
+    // Explicit task types stop TypeScript expanding the union of every pipeline
+    sentimentPipeline = await pipeline<'sentiment-analysis'>('sentiment-analysis', models.sentiment);
+    embeddingPipeline = await pipeline<'feature-extraction'>('feature-extraction', models.embedding);
+    emotionPipeline = await pipeline<'text-classification'>('text-classification', models.emotion);
+  })();
+  loading = { models, promise };
+
+  // A failed load is retried by the next request
+  promise.catch(() => {
+    if (loading?.promise === promise) loading = null;
+  });
+  return promise;
+}
+
+async function embed(modelId: string, texts: string[]): Promise<number[][]> {
+  const vectors = await embeddingCache.getOrCompute(modelId, texts, async (missing) => {
+    const output = await embeddingPipeline(missing, { pooling: 'mean', normalize: true });
+    return output.tolist();
+  });
+  return vectors.map(v => Array.from(v));
+}
+
+async function analyze(request: Extract<WorkerRequest, { type: 'analyze' }>) {
+  const { requestId, models, items, symbols, mission, evidence, batchSize } = request;
+  await loadPipelines(models);
+
+  const symbolEmbeddings = await embed(models.embedding, symbols);
+  const [missionEmbedding] = mission ? await embed(models.embedding, [mission]) : [];
+
+  const outputs: WorkerAnalysisOutput[] = [];
+
+  for (let offset = 0; offset < items.length; offset += batchSize) {
+    if (cancelled.has(requestId)) {
+      cancelled.delete(requestId);
+      post({ type: 'cancelled', requestId });
+      return;
+    }
+
+    const batch = items.slice(offset, offset + batchSize);
+    // One top label per text, and every label per text when top_k is null
+    const sentiments = await sentimentPipeline(batch.map(item => item.text)) as TextClassificationOutput;
+    const emotions = await emotionPipeline(batch.map(item => item.text), { top_k: null }) as TextClassificationOutput[];
+
+    // Embed every sentence of the batch in one call, then split back per item
+    const sentences = batch.flatMap(item => item.sentences);
+    const sentenceEmbeddings = await embed(models.embedding, sentences);
+    const textEmbeddings = mission ? await embed(models.embedding, batch.map(item => item.text)) : [];
+    // Per-sentence sentiment backs the evidence drawer
+    const sentenceSentiments = evidence && sentences.length > 0
+      ? await sentimentPipeline(sentences) as TextClassificationOutput
+      : [];
+    let cursor = 0;
+
+    batch.forEach((item, i) => {
+      const sentiment = sentiments[i];
+      outputs.push({
+        sentiment: { label: sentiment.label, score: sentiment.score },
+        emotions: emotions[i],
+        sentenceEmbeddings: sentenceEmbeddings.slice(cursor, cursor + item.sentences.length),
+        ...(evidence && {
+          sentenceSentiments: sentenceSentiments
+            .slice(cursor, cursor + item.sentences.length)
+            .map(({ label, score }) => ({ label, score }))
+        }),
+        textEmbedding: textEmbeddings[i]
+      });
+      cursor += item.sentences.length;
+    });
+
+    post({ type: 'progress', requestId, completed: outputs.length, total: items.length });
+  }
+
+  const { hits, misses } = await embeddingCache.getStats();
+  post({
+    type: 'result',
+    requestId,
+    outputs,
+    symbolEmbeddings: Object.fromEntries(symbols.map((symbol, i) => [symbol, symbolEmbeddings[i]])),
+    missionEmbedding,
+    cacheStats: { hits, misses }
+  });
+}
+
+async function embedTexts(request: Extract<WorkerRequest, { type: 'embed' }>) {
+  const { requestId, models, texts } = request;
+  await loadPipelines(models);
+
+  const embeddings = await embed(models.embedding, texts);
+  const { hits, misses } = await embeddingCache.getStats();
+  post({ type: 'embeddings', requestId, embeddings, cacheStats: { hits, misses } });
+}
+
+ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    // Cancels for finished or unknown requests have nothing to stop
+    if (active.has(request.requestId)) cancelled.add(request.requestId);
+    return;
+  }
+
+  try {
+    if (request.type === 'embed') {
+      await embedTexts(request);
+    } else {
+      active.add(request.requestId);
+      await analyze(request);
+    }
+  } catch (error) {
+    post({
+      type: 'error',
+      requestId: request.requestId,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  } finally {
+    active.delete(request.requestId);
+    cancelled.delete(request.requestId);
+  }
+};
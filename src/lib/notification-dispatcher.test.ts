@@ -0,0 +1,236 @@
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import { createHmac } from "node:crypto";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+// The dispatcher singleton reads its channels from localStorage on import
+const storage = vi.hoisted(() => {
+  const items = new Map<string, string>();
+  const localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear()
+  };
+  Object.assign(globalThis, { localStorage });
+  return localStorage;
+});
+vi.mock("./signal-store", () => ({ signalStore: {} }));
+
+import {
+  backoffDelay,
+  DEFAULT_RETRY_POLICY,
+  NotificationDispatcher,
+  SIGNATURE_HEADER,
+  signPayload,
+  TIMESTAMP_HEADER,
+  type WebhookChannel
+} from "./notification-dispatcher";
+import { compileDigest } from "./digest-report";
+import type { DriftAlert } from "./nlp-engine";
+
+interface StubRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+// Local webhook endpoint answering with queued statuses, then 200
+const stub = {
+  server: null as Server | null,
+  url: '',
+  requests: [] as StubRequest[],
+  responses: [] as { status: number; headers?: Record<string, string> }[]
+};
+
+const SECRET = 's3cret';
+
+const channel = (overrides: Partial<WebhookChannel> = {}): Omit<WebhookChannel, 'createdAt' | 'updatedAt'> => ({
+  id: 'webhook_1',
+  name: 'Ops',
+  url: stub.url,
+  format: 'generic',
+  enabled: true,
+  minSeverity: 'medium',
+  secret: SECRET,
+  ...overrides
+});
+
+const driftAlert = (severity: DriftAlert['severity'] = 'high'): DriftAlert => ({
+  type: 'tone_collapse',
+  severity,
+  message: 'Emotional fragmentation spike',
+  deviation: 3.1,
+  timestamp: '2024-03-01T09:00:00.000Z',
+  cluster: 'engineering'
+});
+
+const dispatcherWith = (...channels: ReturnType<typeof channel>[]) => {
+  const dispatcher = new NotificationDispatcher({ maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5 });
+  channels.forEach(c => dispatcher.saveChannel(c));
+  return dispatcher;
+};
+
+beforeAll(async () => {
+  stub.server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      stub.requests.push({ headers: req.headers, body });
+      const { status, headers } = stub.responses.shift() ?? { status: 200 };
+      res.writeHead(status, headers).end();
+    });
+  });
+  await new Promise<void>(resolve => stub.server!.listen(0, '127.0.0.1', resolve));
+  stub.url = `http://127.0.0.1:${(stub.server!.address() as AddressInfo).port}/hook`;
+});
+
+afterAll(() => new Promise<void>(resolve => stub.server!.close(() => resolve())));
+
+beforeEach(() => {
+  storage.clear();
+  stub.requests = [];
+  stub.responses = [];
+});
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe("backoffDelay", () => {
+  it("doubles from the base delay up to the cap", () => {
+    expect([1, 2, 3, 4].map(retry => backoffDelay(retry))).toEqual([1000, 2000, 4000, 8000]);
+    expect(backoffDelay(10)).toBe(DEFAULT_RETRY_POLICY.maxDelayMs);
+  });
+});
+
+describe("signPayload", () => {
+  it("signs the timestamp and body with HMAC-SHA256", async () => {
+    const expected = createHmac('sha256', SECRET).update('1700000000.{"a":1}').digest('hex');
+    expect(await signPayload(SECRET, '1700000000', '{"a":1}')).toBe(`sha256=${expected}`);
+  });
+});
+
+describe("NotificationDispatcher.send", () => {
+  it("posts signed JSON the endpoint can verify", async () => {
+    const [record] = await dispatcherWith(channel()).dispatch([{ kind: 'drift', alert: driftAlert() }]);
+
+    expect(record).toMatchObject({ status: 'delivered', attempts: 1, statusCode: 200, channelId: 'webhook_1' });
+    const [{ headers, body }] = stub.requests;
+    const timestamp = headers[TIMESTAMP_HEADER.toLowerCase()] as string;
+    const expected = `sha256=${createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex')}`;
+    expect(headers[SIGNATURE_HEADER.toLowerCase()]).toBe(expected);
+    expect(headers['content-type']).toBe('application/json');
+    expect(JSON.parse(body)).toMatchObject({ alert: { cluster: 'engineering' } });
+  });
+
+  it("leaves requests unsigned without a secret", async () => {
+    await dispatcherWith(channel({ secret: '' })).dispatch([{ kind: 'drift', alert: driftAlert() }]);
+    expect(stub.requests[0].headers[SIGNATURE_HEADER.toLowerCase()]).toBeUndefined();
+  });
+
+  it("retries server errors and rate limits until delivered", async () => {
+    stub.responses = [{ status: 503 }, { status: 429, headers: { 'Retry-After': '1' } }];
+    const [record] = await dispatcherWith(channel()).dispatch([{ kind: 'drift', alert: driftAlert() }]);
+
+    expect(record).toMatchObject({ status: 'delivered', attempts: 3, statusCode: 200 });
+    expect(stub.requests).toHaveLength(3);
+    // Every attempt is signed afresh
+    expect(stub.requests.every(({ headers }) => headers[SIGNATURE_HEADER.toLowerCase()])).toBe(true);
+  });
+
+  it("waits the backoff delay between attempts", async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => new Response(null, { status: 500 }));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    const dispatcher = new NotificationDispatcher({ maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 150 });
+    // Unsigned, so no attempt waits on crypto outside the fake clock
+    dispatcher.saveChannel(channel({ secret: '' }));
+
+    try {
+      const delivery = dispatcher.dispatch([{ kind: 'drift', alert: driftAlert() }]);
+      await vi.advanceTimersByTimeAsync(99);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      // Doubled to 200ms, capped at 150ms
+      await vi.advanceTimersByTimeAsync(149);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+
+      const [record] = await delivery;
+      expect(record).toMatchObject({ status: 'failed', attempts: 3, statusCode: 500, error: 'HTTP 500' });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("gives up at once on client errors", async () => {
+    stub.responses = [{ status: 401 }];
+    const [record] = await dispatcherWith(channel()).dispatch([{ kind: 'drift', alert: driftAlert() }]);
+
+    expect(record).toMatchObject({ status: 'failed', attempts: 1, statusCode: 401, error: 'HTTP 401' });
+  });
+
+  it("retries network failures", async () => {
+    const [record] = await dispatcherWith(channel({ url: 'http://127.0.0.1:1/hook' }))
+      .dispatch([{ kind: 'drift', alert: driftAlert() }]);
+
+    expect(record).toMatchObject({ status: 'failed', attempts: 3, statusCode: undefined });
+    expect(record.error).toBeTruthy();
+  });
+
+  it("sends Slack payloads as simple no-cors requests", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const [record] = await dispatcherWith(channel({ format: 'slack', url: 'https://hooks.slack.com/services/T/B/X' }))
+      .dispatch([{ kind: 'drift', alert: driftAlert() }]);
+
+    expect(record).toMatchObject({ status: 'delivered', attempts: 1, statusCode: undefined });
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init).toMatchObject({ method: 'POST', mode: 'no-cors' });
+    expect(init.headers).toBeUndefined();
+  });
+
+  it("filters by severity and logs deliveries newest first", async () => {
+    const dispatcher = dispatcherWith(channel());
+    const records = await dispatcher.dispatch([
+      { kind: 'drift', alert: driftAlert('low') },
+      { kind: 'drift', alert: driftAlert('medium') },
+      { kind: 'drift', alert: driftAlert('critical') }
+    ]);
+
+    expect(records.map(record => record.severity)).toEqual(['medium', 'critical']);
+    expect(dispatcher.getDeliveryLog().map(record => record.severity)).toEqual(['critical', 'medium']);
+  });
+});
+
+describe("NotificationDispatcher.dispatchDueDigests", () => {
+  const generate = vi.fn(async () => compileDigest(
+    'daily',
+    { from: '2024-03-01T00:00:00.000Z', to: '2024-03-02T00:00:00.000Z' },
+    {},
+    {},
+    []
+  ));
+
+  it("sends a due digest once across overlapping checks", async () => {
+    const dispatcher = dispatcherWith(channel({ digest: 'daily' }));
+
+    const [first, second] = await Promise.all([
+      dispatcher.dispatchDueDigests(generate),
+      dispatcher.dispatchDueDigests(generate)
+    ]);
+
+    expect(first.length + second.length).toBe(1);
+    expect(stub.requests).toHaveLength(1);
+    expect(dispatcher.dueDigestPeriods(new Date('2024-03-02T12:00:00.000Z'))).toEqual([]);
+  });
+
+  it("keeps a digest due when every delivery failed", async () => {
+    stub.responses = [{ status: 400 }];
+    const dispatcher = dispatcherWith(channel({ digest: 'daily' }));
+
+    const [record] = await dispatcher.dispatchDueDigests(generate);
+    expect(record.status).toBe('failed');
+    expect(dispatcher.dueDigestPeriods()).toEqual(['daily']);
+  });
+});
@@ -0,0 +1,507 @@
+import type { DriftAlert, MissionAlert } from '@/lib/nlp-engine';
+import { ALERT_TYPE_LABELS } from '@/lib/alert-store';
+import {
+  DIGEST_PERIODS,
+  digestSummary,
+  digestTitle,
+  renderDigestHtml,
+  renderDigestMarkdown,
+  type Digest,
+  type DigestPeriod
+} from '@/lib/digest-report';
+
+/**
+ * Outbound alert notifications. Drift and mission alerts are posted to
+ * configured webhooks as generic JSON, Slack incoming-webhook or Teams
+ * connector payloads, filtered by severity per channel and retried with
+ * exponential backoff. Channels can also subscribe to daily or weekly digests.
+ * Every delivery is kept in a bounded log.
+ *
+ * Deliveries are made from the browser. Generic JSON is posted with custom
+ * signature headers, so its endpoint must answer CORS preflights. Slack and
+ * Teams reject preflights, so their payloads go out as simple no-cors
+ * requests: unsigned, and with a response the browser does not let us read.
+ */
+
+export type WebhookFormat = 'generic' | 'slack' | 'teams';
+
+export type AlertNotification =
+  | { kind: 'drift'; alert: DriftAlert }
+  | { kind: 'mission'; alert: MissionAlert };
+
+export interface WebhookChannel {
+  id: string;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  enabled: boolean;
+  // Alerts below this severity are not sent
+  minSeverity: DriftAlert['severity'];
+  // Signs each payload with HMAC-SHA256 when set; generic format only
+  secret?: string;
+  // Digest cadence the channel receives; none when unset
+  digest?: DigestPeriod;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DeliveryRecord {
+  id: string;
+  channelId: string;
+  channelName: string;
+  kind: AlertNotification['kind'] | 'digest';
+  severity?: DriftAlert['severity']; // unset for digests
+  summary: string;
+  status: 'delivered' | 'failed';
+  attempts: number;
+  statusCode?: number; // unset when the response was opaque or never arrived
+  error?: string;
+  timestamp: string;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const WEBHOOK_FORMATS: Record<WebhookFormat, { label: string; description: string; signed: boolean }> = {
+  generic: { label: 'Generic JSON', description: 'The alert as JSON with an event name', signed: true },
+  slack: { label: 'Slack', description: 'Incoming webhook message with blocks', signed: false },
+  teams: { label: 'Microsoft Teams', description: 'Connector MessageCard', signed: false }
+};
+
+export const NOTIFICATION_SEVERITIES: DriftAlert['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+// Hex HMAC-SHA256 of `${timestamp}.${body}`, prefixed with "sha256="
+export const SIGNATURE_HEADER = 'X-SignalVault-Signature';
+export const TIMESTAMP_HEADER = 'X-SignalVault-Timestamp';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+const CHANNELS_KEY = 'signalvault_webhooks';
+const LOG_KEY = 'signalvault_webhook_deliveries';
+const DIGEST_SENT_KEY = 'signalvault_digest_sent';
+const DIGEST_SENDING_KEY = 'signalvault_digest_sending';
+// A claim older than this belongs to a tab that closed mid-send
+const DIGEST_CLAIM_TTL_MS = 15 * 60 * 1000;
+const MAX_LOG_ENTRIES = 200;
+
+const SEVERITY_RANK: Record<DriftAlert['severity'], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+const SEVERITY_COLORS: Record<DriftAlert['severity'], string> = {
+  low: '6B7280',
+  medium: 'F59E0B',
+  high: 'EF4444',
+  critical: '991B1B'
+};
+
+/**
+ * Title, team and text of a notification, shared by every payload format.
+ */
+export function describeNotification(notification: AlertNotification) {
+  if (notification.kind === 'drift') {
+    const { alert } = notification;
+    return {
+      title: `${ALERT_TYPE_LABELS[alert.type]} · ${alert.cluster}`,
+      team: alert.cluster,
+      severity: alert.severity,
+      message: alert.message,
+      timestamp: alert.timestamp
+    };
+  }
+
+  const { alert } = notification;
+  return {
+    title: `Mission Drift · ${alert.teamName}`,
+    team: alert.teamId,
+    severity: alert.severity,
+    message: alert.message,
+    timestamp: alert.timestamp
+  };
+}
+
+export function buildPayload(notification: AlertNotification, format: WebhookFormat): unknown {
+  const { title, team, severity, message, timestamp } = describeNotification(notification);
+
+  switch (format) {
+    case 'generic':
+      return {
+        event: `${notification.kind}_alert`,
+        version: 1,
+        sentAt: new Date().toISOString(),
+        alert: notification.alert
+      };
+    case 'slack':
+      return {
+        text: `[${severity.toUpperCase()}] ${title}: ${message}`,
+        blocks: [
+          { type: 'header', text: { type: 'plain_text', text: title } },
+          { type: 'section', text: { type: 'mrkdwn', text: message } },
+          {
+            type: 'context',
+            elements: [{ type: 'mrkdwn', text: `*Severity:* ${severity} · *Team:* ${team} · ${timestamp}` }]
+          }
+        ]
+      };
+    case 'teams':
+      return {
+        '@type': 'MessageCard',
+        '@context': 'https://schema.org/extensions',
+        summary: title,
+        themeColor: SEVERITY_COLORS[severity],
+        title,
+        text: message,
+        sections: [{
+          facts: [
+            { name: 'Severity', value: severity },
+            { name: 'Team', value: team },
+            { name: 'Raised', value: timestamp }
+          ]
+        }]
+      };
+  }
+}
+
+// Slack section blocks and Teams cards reject very long text
+const MAX_DIGEST_TEXT = 2900;
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+export function buildDigestPayload(digest: Digest, format: WebhookFormat): unknown {
+  const title = digestTitle(digest);
+  const summary = digestSummary(digest);
+
+  switch (format) {
+    case 'generic':
+      return {
+        event: 'digest',
+        version: 1,
+        sentAt: new Date().toISOString(),
+        period: digest.period,
+        from: digest.from,
+        to: digest.to,
+        title,
+        summary,
+        markdown: renderDigestMarkdown(digest),
+        html: renderDigestHtml(digest)
+      };
+    case 'slack': {
+      const teams = digest.teams.map(team =>
+        `*${team.teamId}*: ${team.messageCount} messages` +
+        (team.missionResonance.current !== null ? `, mission resonance ${team.missionResonance.current.toFixed(1)}%` : '') +
+        (team.topChanges[0] ? `, biggest change ${team.topChanges[0].label}` : '')
+      );
+      return {
+        text: `${title}: ${summary}`,
+        blocks: [
+          { type: 'header', text: { type: 'plain_text', text: title } },
+          { type: 'context', elements: [{ type: 'mrkdwn', text: summary }] },
+          { type: 'section', text: { type: 'mrkdwn', text: truncate(teams.join('\n') || 'No team activity.', MAX_DIGEST_TEXT) } }
+        ]
+      };
+    }
+    case 'teams':
+      return {
+        '@type': 'MessageCard',
+        '@context': 'https://schema.org/extensions',
+        summary: title,
+        themeColor: '6366F1',
+        title,
+        text: truncate(renderDigestMarkdown(digest), MAX_DIGEST_TEXT * 5)
+      };
+  }
+}
+
+export async function signPayload(secret: string, timestamp: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return `sha256=${Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Delay before the given retry (1-based): doubling from the base delay, capped.
+ */
+export function backoffDelay(retry: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number {
+  return Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+}
+
+// Timeouts, rate limits and server errors may succeed on retry; other 4xx will not
+const isRetryable = (status: number) => status === 408 || status === 429 || status >= 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class NotificationDispatcher {
+  private channels: WebhookChannel[];
+
+  constructor(private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY) {
+    const stored = localStorage.getItem(CHANNELS_KEY);
+    this.channels = stored ? JSON.parse(stored) : [];
+  }
+
+  listChannels(): WebhookChannel[] {
+    return this.channels.map(channel => ({ ...channel }));
+  }
+
+  /**
+   * Create or replace a channel by id.
+   */
+  saveChannel(channel: Omit<WebhookChannel, 'createdAt' | 'updatedAt'>): WebhookChannel {
+    validateChannel(channel);
+    const now = new Date().toISOString();
+    const existing = this.channels.find(c => c.id === channel.id);
+    const saved: WebhookChannel = {
+      ...channel,
+      name: channel.name.trim(),
+      url: channel.url.trim(),
+      secret: (WEBHOOK_FORMATS[channel.format].signed && channel.secret?.trim()) || undefined,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+
+    this.channels = existing
+      ? this.channels.map(c => (c.id === channel.id ? saved : c))
+      : [...this.channels, saved];
+    localStorage.setItem(CHANNELS_KEY, JSON.stringify(this.channels));
+    return saved;
+  }
+
+  deleteChannel(id: string) {
+    this.channels = this.channels.filter(channel => channel.id !== id);
+    localStorage.setItem(CHANNELS_KEY, JSON.stringify(this.channels));
+  }
+
+  /**
+   * Deliveries, newest first.
+   */
+  getDeliveryLog(): DeliveryRecord[] {
+    return JSON.parse(localStorage.getItem(LOG_KEY) || '[]');
+  }
+
+  clearDeliveryLog() {
+    localStorage.removeItem(LOG_KEY);
+  }
+
+  /**
+   * Digest periods some enabled channel subscribes to, that were last sent
+   * at least a period ago and that no tab is sending right now.
+   */
+  dueDigestPeriods(now: Date = new Date()): DigestPeriod[] {
+    const sent: Partial<Record<DigestPeriod, string>> = JSON.parse(localStorage.getItem(DIGEST_SENT_KEY) || '{}');
+    const sending = this.digestClaims(now);
+    return (Object.keys(DIGEST_PERIODS) as DigestPeriod[]).filter(period => {
+      if (!this.channels.some(channel => channel.enabled && channel.digest === period)) return false;
+      if (sending[period]) return false;
+      const last = sent[period];
+      return !last || now.getTime() - new Date(last).getTime() >= DIGEST_PERIODS[period].days * 24 * 60 * 60 * 1000;
+    });
+  }
+
+  /**
+   * Generate and send every due digest. Each period is claimed before
+   * sending, so a later check or another tab does not send it again while
+   * retries are still running.
+   */
+  async dispatchDueDigests(generate: (period: DigestPeriod) => Promise<Digest>): Promise<DeliveryRecord[]> {
+    const records: DeliveryRecord[] = [];
+    for (const period of this.dueDigestPeriods()) {
+      // Re-check: another tab may have claimed it since
+      if (this.digestClaims()[period]) continue;
+      this.setDigestClaim(period, new Date().toISOString());
+      try {
+        records.push(...await this.dispatchDigest(await generate(period)));
+      } catch (error) {
+        console.error(`Error sending ${period} digest:`, error);
+      } finally {
+        this.setDigestClaim(period, undefined);
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Send a digest to every enabled channel subscribed to its period. The
+   * period counts as sent once any channel received it, so a digest every
+   * channel failed is tried again on the next check.
+   */
+  async dispatchDigest(digest: Digest): Promise<DeliveryRecord[]> {
+    const records = await Promise.all(
+      this.channels
+        .filter(channel => channel.enabled && channel.digest === digest.period)
+        .map(channel => this.send(channel, JSON.stringify(buildDigestPayload(digest, channel.format)), {
+          kind: 'digest',
+          summary: `${digestTitle(digest)} · ${digestSummary(digest)}`
+        }))
+    );
+
+    if (records.some(record => record.status === 'delivered')) {
+      const sent = JSON.parse(localStorage.getItem(DIGEST_SENT_KEY) || '{}');
+      localStorage.setItem(DIGEST_SENT_KEY, JSON.stringify({ ...sent, [digest.period]: digest.to }));
+    }
+    return records;
+  }
+
+  // Live in-flight claims, by period
+  private digestClaims(now: Date = new Date()): Partial<Record<DigestPeriod, string>> {
+    const claims: Partial<Record<DigestPeriod, string>> = JSON.parse(localStorage.getItem(DIGEST_SENDING_KEY) || '{}');
+    return Object.fromEntries(
+      Object.entries(claims).filter(([, at]) => now.getTime() - new Date(at as string).getTime() < DIGEST_CLAIM_TTL_MS)
+    );
+  }
+
+  private setDigestClaim(period: DigestPeriod, at: string | undefined) {
+    const claims = { ...this.digestClaims(), [period]: at };
+    localStorage.setItem(DIGEST_SENDING_KEY, JSON.stringify(claims));
+  }
+
+  /**
+   * Send each notification to every enabled channel whose severity filter it
+   * passes. Channels are delivered to in parallel, notifications in order.
+   */
+  async dispatch(notifications: AlertNotification[]): Promise<DeliveryRecord[]> {
+    const perChannel = await Promise.all(
+      this.channels
+        .filter(channel => channel.enabled)
+        .map(async channel => {
+          const records: DeliveryRecord[] = [];
+          for (const notification of notifications) {
+            if (SEVERITY_RANK[notification.alert.severity] < SEVERITY_RANK[channel.minSeverity]) continue;
+            records.push(await this.deliver(channel, notification));
+          }
+          return records;
+        })
+    );
+    return perChannel.flat();
+  }
+
+  /**
+   * Send a sample alert to a channel, regardless of its filters.
+   */
+  testChannel(channel: WebhookChannel): Promise<DeliveryRecord> {
+    return this.deliver(channel, {
+      kind: 'drift',
+      alert: {
+        type: 'symbolic_decay',
+        severity: channel.minSeverity,
+        message: 'Test notification from SignalVault',
+        deviation: 0,
+        timestamp: new Date().toISOString(),
+        cluster: 'test'
+      }
+    });
+  }
+
+  private deliver(channel: WebhookChannel, notification: AlertNotification): Promise<DeliveryRecord> {
+    const { title, severity } = describeNotification(notification);
+    return this.send(channel, JSON.stringify(buildPayload(notification, channel.format)), {
+      kind: notification.kind,
+      severity,
+      summary: title
+    });
+  }
+
+  /**
+   * POST a body with signing and retries, and log the outcome. Unsigned
+   * formats are sent without custom headers and with a text/plain body so
+   * the browser skips the preflight; their opaque response counts as
+   * delivered and only network failures are retried.
+   */
+  private async send(
+    channel: WebhookChannel,
+    body: string,
+    details: Pick<DeliveryRecord, 'kind' | 'severity' | 'summary'>
+  ): Promise<DeliveryRecord> {
+    let attempts = 0;
+    let statusCode: number | undefined;
+    let error: string | undefined;
+
+    while (attempts < this.retryPolicy.maxAttempts) {
+      attempts++;
+      let retryAfterMs = 0;
+
+      try {
+        if (!WEBHOOK_FORMATS[channel.format].signed) {
+          await fetch(channel.url, { method: 'POST', mode: 'no-cors', body });
+          statusCode = undefined;
+          error = undefined;
+          break;
+        }
+
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (channel.secret) {
+          headers[TIMESTAMP_HEADER] = timestamp;
+          headers[SIGNATURE_HEADER] = await signPayload(channel.secret, timestamp, body);
+        }
+
+        const response = await fetch(channel.url, { method: 'POST', headers, body });
+        statusCode = response.status;
+        if (response.ok) {
+          error = undefined;
+          break;
+        }
+
+        error = `HTTP ${response.status}`;
+        if (!isRetryable(response.status)) break;
+        retryAfterMs = Number(response.headers.get('Retry-After')) * 1000 || 0;
+      } catch (e) {
+        // Network failures, including CORS rejections, surface as TypeErrors
+        statusCode = undefined;
+        error = e instanceof Error ? e.message : 'Request failed';
+      }
+
+      if (attempts < this.retryPolicy.maxAttempts) {
+        await sleep(Math.min(this.retryPolicy.maxDelayMs, Math.max(backoffDelay(attempts, this.retryPolicy), retryAfterMs)));
+      }
+    }
+
+    const record: DeliveryRecord = {
+      id: `delivery_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      channelId: channel.id,
+      channelName: channel.name,
+      ...details,
+      status: error ? 'failed' : 'delivered',
+      attempts,
+      statusCode,
+      error,
+      timestamp: new Date().toISOString()
+    };
+
+    this.appendToLog(record);
+    return record;
+  }
+
+  private appendToLog(record: DeliveryRecord) {
+    const log = [record, ...this.getDeliveryLog()].slice(0, MAX_LOG_ENTRIES);
+    localStorage.setItem(LOG_KEY, JSON.stringify(log));
+  }
+}
+
+function validateChannel(channel: Omit<WebhookChannel, 'createdAt' | 'updatedAt'>) {
+  if (!channel.name.trim()) {
+    throw new Error('Channel name is required');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(channel.url.trim());
+  } catch {
+    throw new Error('Webhook URL is not a valid URL');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error('Webhook URL must use http or https');
+  }
+
+  if (!(channel.format in WEBHOOK_FORMATS)) {
+    throw new Error(`Unknown format: ${channel.format}`);
+  }
+  if (!NOTIFICATION_SEVERITIES.includes(channel.minSeverity)) {
+    throw new Error(`Unknown severity: ${channel.minSeverity}`);
+  }
+  if (channel.digest && !(channel.digest in DIGEST_PERIODS)) {
+    throw new Error(`Unknown digest period: ${channel.digest}`);
+  }
+}
+
+export const notificationDispatcher = new NotificationDispatcher();
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import type { StoredAnalysis } from "./signal-store";
+import { bucketKey, bucketRange, buildHeatmap, heatmapBand, isoWeek, recentBuckets } from "./period-buckets";
+
+const utc = (iso: string) => new Date(`${iso}T12:00:00.000Z`);
+
+describe("isoWeek", () => {
+  it("puts early January in the previous year's last week", () => {
+    // Friday; 2021's first Thursday is January 7th
+    expect(isoWeek(utc('2021-01-01'))).toEqual({ year: 2020, week: 53 });
+    // Sunday after the 2022-W52 Monday
+    expect(isoWeek(utc('2023-01-01'))).toEqual({ year: 2022, week: 52 });
+  });
+
+  it("puts late December in the next year's first week", () => {
+    // Monday; the week's Thursday is January 2nd
+    expect(isoWeek(utc('2024-12-30'))).toEqual({ year: 2025, week: 1 });
+    expect(isoWeek(utc('2019-12-31'))).toEqual({ year: 2020, week: 1 });
+  });
+
+  it("numbers weeks within a year", () => {
+    expect(isoWeek(utc('2024-01-01'))).toEqual({ year: 2024, week: 1 });
+    expect(isoWeek(utc('2024-06-15'))).toEqual({ year: 2024, week: 24 });
+    expect(isoWeek(utc('2020-12-31'))).toEqual({ year: 2020, week: 53 });
+  });
+});
+
+describe("bucketKey", () => {
+  it("keys days, ISO weeks and months in UTC", () => {
+    expect(bucketKey('2024-03-05T23:30:00.000Z', 'day')).toBe('2024-03-05');
+    expect(bucketKey('2021-01-03T08:00:00.000Z', 'week')).toBe('2020-W53');
+    expect(bucketKey('2024-03-05T23:30:00.000Z', 'month')).toBe('2024-03');
+  });
+});
+
+describe("bucketRange", () => {
+  it("starts ISO weeks on Monday, across year boundaries", () => {
+    expect(bucketRange('2020-W53', 'week')).toEqual({
+      from: '2020-12-28T00:00:00.000Z',
+      to: '2021-01-03T23:59:59.999Z'
+    });
+    expect(bucketRange('2025-W01', 'week').from).toBe('2024-12-30T00:00:00.000Z');
+  });
+
+  it("covers whole days and months", () => {
+    expect(bucketRange('2024-02-29', 'day')).toEqual({
+      from: '2024-02-29T00:00:00.000Z',
+      to: '2024-02-29T23:59:59.999Z'
+    });
+    expect(bucketRange('2024-02', 'month').to).toBe('2024-02-29T23:59:59.999Z');
+  });
+
+  it("round-trips with bucketKey", () => {
+    ['2020-W53', '2021-W01', '2024-W52', '2025-W01'].forEach(key => {
+      const { from, to } = bucketRange(key, 'week');
+      expect(bucketKey(from, 'week')).toBe(key);
+      expect(bucketKey(to, 'week')).toBe(key);
+    });
+  });
+});
+
+describe("recentBuckets", () => {
+  it("lists consecutive buckets ending with the current one", () => {
+    expect(recentBuckets('week', 3, utc('2021-01-12'))).toEqual(['2020-W53', '2021-W01', '2021-W02']);
+    expect(recentBuckets('month', 3, utc('2024-01-31'))).toEqual(['2023-11', '2023-12', '2024-01']);
+    expect(recentBuckets('day', 2, utc('2024-03-01'))).toEqual(['2024-02-29', '2024-03-01']);
+  });
+});
+
+describe("heatmapBand", () => {
+  it("flips comparisons for metrics where lower is better", () => {
+    expect(heatmapBand(75, 'coherence')).toBe('high');
+    expect(heatmapBand(55, 'coherence')).toBe('moderate');
+    expect(heatmapBand(0.8, 'pronounRatio')).toBe('high');
+    expect(heatmapBand(2.5, 'pronounRatio')).toBe('low');
+  });
+});
+
+describe("buildHeatmap", () => {
+  const analysis = (timestamp: string, ratio: number) =>
+    ({ timestamp, pronounDistribution: { ratio } }) as unknown as StoredAnalysis;
+
+  it("averages each team's analyses per bucket", () => {
+    const cells = buildHeatmap(
+      {
+        engineering: [
+          analysis('2024-03-04T09:00:00.000Z', 1),
+          analysis('2024-03-05T09:00:00.000Z', 2),
+          analysis('2024-03-12T09:00:00.000Z', NaN),
+          analysis('2024-01-01T09:00:00.000Z', 9)
+        ]
+      },
+      'pronounRatio',
+      ['2024-W10', '2024-W11'],
+      'week'
+    );
+
+    expect(cells).toEqual([
+      { teamId: 'engineering', bucket: '2024-W10', value: 1.5, count: 2 },
+      { teamId: 'engineering', bucket: '2024-W11', value: null, count: 0 }
+    ]);
+  });
+});
@@ -0,0 +1,194 @@
+import type { AnalysisResult } from '@/lib/nlp-engine';
+import type { StoredAnalysis, TimeRange } from '@/lib/signal-store';
+
+/**
+ * Calendar buckets (UTC day, ISO week, month) and per-team aggregates of a
+ * metric over them, for the resonance heatmap.
+ */
+
+export type BucketGranularity = 'day' | 'week' | 'month';
+
+export type HeatmapMetric = 'coherence' | 'resonance' | 'sentiment' | 'pronounRatio';
+
+export interface HeatmapMetricDefinition {
+  label: string;
+  extract: (analysis: AnalysisResult) => number;
+  // Band boundaries; with lowerIsBetter the comparisons flip
+  bands: { high: number; moderate: number };
+  lowerIsBetter?: boolean;
+  unit: string;
+}
+
+export interface HeatmapCell {
+  teamId: string;
+  bucket: string;
+  value: number | null; // null without analyses in the bucket
+  count: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const BUCKET_GRANULARITIES: Record<BucketGranularity, { label: string; count: number }> = {
+  day: { label: 'Day', count: 7 },
+  week: { label: 'ISO week', count: 4 },
+  month: { label: 'Month', count: 6 }
+};
+
+const polarity = (a: AnalysisResult) =>
+  (a.sentiment.label === 'POSITIVE' ? 1 : a.sentiment.label === 'NEGATIVE' ? -1 : 0) * a.sentiment.score * 100;
+
+export const HEATMAP_METRICS: Record<HeatmapMetric, HeatmapMetricDefinition> = {
+  coherence: {
+    label: 'Discourse Coherence',
+    extract: a => a.discourseCoherence?.score ?? NaN,
+    bands: { high: 70, moderate: 50 },
+    unit: '%'
+  },
+  resonance: {
+    label: 'Mission Resonance',
+    extract: a => a.missionResonance ?? NaN,
+    bands: { high: 70, moderate: 50 },
+    unit: '%'
+  },
+  sentiment: {
+    label: 'Net Sentiment',
+    extract: polarity,
+    bands: { high: 20, moderate: -20 },
+    unit: ''
+  },
+  pronounRatio: {
+    label: 'Pronoun Ratio',
+    extract: a => a.pronounDistribution.ratio,
+    bands: { high: 1, moderate: 2 },
+    lowerIsBetter: true,
+    unit: ''
+  }
+};
+
+export function heatmapBand(value: number, metric: HeatmapMetric): 'high' | 'moderate' | 'low' {
+  const { bands, lowerIsBetter } = HEATMAP_METRICS[metric];
+  if (lowerIsBetter) {
+    if (value <= bands.high) return 'high';
+    return value <= bands.moderate ? 'moderate' : 'low';
+  }
+  if (value >= bands.high) return 'high';
+  return value >= bands.moderate ? 'moderate' : 'low';
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+/**
+ * ISO 8601 week of a date: weeks start on Monday and week 1 contains the
+ * year's first Thursday, so early January may belong to the previous year.
+ */
+export function isoWeek(date: Date): { year: number; week: number } {
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  return {
+    year: thursday.getUTCFullYear(),
+    week: Math.floor((thursday.getTime() - yearStart) / DAY_MS / 7) + 1
+  };
+}
+
+export function bucketKey(timestamp: string | Date, granularity: BucketGranularity): string {
+  const date = new Date(timestamp);
+  switch (granularity) {
+    case 'day':
+      return date.toISOString().slice(0, 10);
+    case 'week': {
+      const { year, week } = isoWeek(date);
+      return `${year}-W${pad(week)}`;
+    }
+    case 'month':
+      return date.toISOString().slice(0, 7);
+  }
+}
+
+/**
+ * Inclusive time range covered by a bucket key.
+ */
+export function bucketRange(key: string, granularity: BucketGranularity): Required<TimeRange> {
+  let start: Date;
+  let end: Date;
+
+  switch (granularity) {
+    case 'day':
+      start = new Date(`${key}T00:00:00.000Z`);
+      end = new Date(start.getTime() + DAY_MS);
+      break;
+    case 'week': {
+      const [year, week] = key.split('-W').map(Number);
+      // Monday of week 1 is the Monday on or before January 4th
+      const jan4 = new Date(Date.UTC(year, 0, 4));
+      start = new Date(jan4.getTime() - ((jan4.getUTCDay() + 6) % 7) * DAY_MS + (week - 1) * 7 * DAY_MS);
+      end = new Date(start.getTime() + 7 * DAY_MS);
+      break;
+    }
+    case 'month': {
+      const [year, month] = key.split('-').map(Number);
+      start = new Date(Date.UTC(year, month - 1, 1));
+      end = new Date(Date.UTC(year, month, 1));
+      break;
+    }
+  }
+
+  return { from: start.toISOString(), to: new Date(end.getTime() - 1).toISOString() };
+}
+
+/**
+ * The most recent bucket keys ending with the one containing asOf, oldest first.
+ */
+export function recentBuckets(granularity: BucketGranularity, count: number, asOf: Date = new Date()): string[] {
+  const keys: string[] = [];
+  let cursor = new Date(asOf);
+
+  while (keys.length < count) {
+    const key = bucketKey(cursor, granularity);
+    if (!keys.includes(key)) keys.unshift(key);
+    // Step back to the last instant of the previous bucket
+    cursor = new Date(new Date(bucketRange(key, granularity).from).getTime() - 1);
+  }
+
+  return keys;
+}
+
+export function bucketLabel(key: string, granularity: BucketGranularity): string {
+  switch (granularity) {
+    case 'day':
+      return new Date(`${key}T00:00:00.000Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+    case 'week':
+      return key.split('-')[1];
+    case 'month':
+      return new Date(`${key}-01T00:00:00.000Z`).toLocaleDateString(undefined, { month: 'short', year: '2-digit', timeZone: 'UTC' });
+  }
+}
+
+/**
+ * Mean of a metric per team and bucket. Analyses outside the buckets and
+ * non-finite values are ignored.
+ */
+export function buildHeatmap(
+  analysesByTeam: Record<string, StoredAnalysis[]>,
+  metric: HeatmapMetric,
+  buckets: string[],
+  granularity: BucketGranularity
+): HeatmapCell[] {
+  const { extract } = HEATMAP_METRICS[metric];
+
+  return Object.entries(analysesByTeam).flatMap(([teamId, analyses]) => {
+    const values: Record<string, number[]> = Object.fromEntries(buckets.map(bucket => [bucket, []]));
+    analyses.forEach(analysis => {
+      const value = extract(analysis);
+      const bucket = bucketKey(analysis.timestamp, granularity);
+      if (Number.isFinite(value) && values[bucket]) values[bucket].push(value);
+    });
+
+    return buckets.map(bucket => ({
+      teamId,
+      bucket,
+      value: values[bucket].length > 0 ? values[bucket].reduce((sum, v) => sum + v, 0) / values[bucket].length : null,
+      count: values[bucket].length
+    }));
+  });
+}
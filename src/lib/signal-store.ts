@@ -0,0 +1,328 @@
+import { openDatabase, requestToPromise, transactionDone } from '@/lib/indexed-db';
+import type { AnalysisResult, DriftAlert, TemporalBaseline } from '@/lib/nlp-engine';
+import type { CommunicationMessage } from '@/lib/data-integrations';
+import type { FragmentationIndex } from '@/lib/fragmentation-index';
+import type { TrackedAlert } from '@/lib/alert-store';
+
+export interface StoredAnalysis extends AnalysisResult {
+  id: string;
+  teamId: string;
+  messageId?: string;
+  timestamp: string;
+}
+
+export interface StoredAlert extends DriftAlert {
+  id: string;
+}
+
+export interface TimeRange {
+  from?: string; // ISO timestamp, inclusive
+  to?: string;   // ISO timestamp, inclusive
+}
+
+type StoreName = 'baselines' | 'analyses' | 'alerts' | 'messages' | 'fragmentation' | 'tracked_alerts';
+
+const DB_NAME = 'signalvault';
+const DB_VERSION = 4;
+
+// Index name shared by every store: [team, time]
+const TEAM_TIME_INDEX = 'team_time';
+
+// Upper bound for string key ranges
+const MAX_KEY = '\uffff';
+
+const LEGACY_BASELINES_KEY = 'signalvault_baselines';
+
+const RETENTION_KEY = 'signalvault_retention_days';
+
+// The shortest period still covers the longest rolling baseline window
+export const RETENTION_PERIODS = [90, 180, 365, 730];
+export const DEFAULT_RETENTION_DAYS = 365;
+
+// Long-lived dashboards also prune on write, at most this often
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Field each store is pruned by; v4 adds an index of the same name where missing
+const TIME_FIELDS: Record<StoreName, string> = {
+  baselines: 'createdAt',
+  analyses: 'timestamp',
+  alerts: 'timestamp',
+  messages: 'timestamp',
+  fragmentation: 'computedAt',
+  tracked_alerts: 'lastSeenAt'
+};
+
+/**
+ * Schema migrations, applied in order from the stored version.
+ * Add a new entry and bump DB_VERSION to change the schema.
+ */
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  // v1: initial stores, each indexed by team and time
+  (db) => {
+    db.createObjectStore('baselines', { keyPath: 'id' })
+      .createIndex(TEAM_TIME_INDEX, ['teamId', 'createdAt']);
+    db.createObjectStore('analyses', { keyPath: 'id' })
+      .createIndex(TEAM_TIME_INDEX, ['teamId', 'timestamp']);
+
+    const alerts = db.createObjectStore('alerts', { keyPath: 'id' });
+    alerts.createIndex(TEAM_TIME_INDEX, ['cluster', 'timestamp']);
+    alerts.createIndex('timestamp', 'timestamp');
+
+    db.createObjectStore('messages', { keyPath: 'id' })
+      .createIndex(TEAM_TIME_INDEX, ['teamId', 'timestamp']);
+  },
+  // v2: fragmentation index history
+  (db) => {
+    db.createObjectStore('fragmentation', { keyPath: 'id' })
+      .createIndex(TEAM_TIME_INDEX, ['teamId', 'computedAt']);
+  },
+  // v3: alerts with lifecycle state, one per de-duplicated team and type
+  (db) => {
+    const tracked = db.createObjectStore('tracked_alerts', { keyPath: 'id' });
+    tracked.createIndex(TEAM_TIME_INDEX, ['cluster', 'lastSeenAt']);
+    tracked.createIndex('lastSeenAt', 'lastSeenAt');
+    tracked.createIndex('dedupKey', 'dedupKey');
+  },
+  // v4: time indexes for retention pruning
+  (db, transaction) => {
+    (Object.entries(TIME_FIELDS) as [StoreName, string][]).forEach(([storeName, field]) => {
+      const store = transaction.objectStore(storeName);
+      if (!store.indexNames.contains(field)) {
+        store.createIndex(field, field);
+      }
+    });
+  }
+];
+
+/**
+ * Typed IndexedDB persistence for baselines, analyses, alerts (raw and
+ * tracked), messages and fragmentation index history.
+ * Data previously kept in localStorage is moved here on first open, and
+ * records older than the retention period are pruned on open and daily
+ * on write.
+ */
+export class SignalStore {
+  private db: Promise<IDBDatabase> | null = null;
+  private lastPrunedAt = 0;
+
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, (db, oldVersion, transaction) => {
+        for (let version = oldVersion; version < MIGRATIONS.length; version++) {
+          MIGRATIONS[version](db, transaction);
+        }
+      }).then(async (db) => {
+        await this.migrateLegacyStorage(db);
+        await this.pruneExpired(db);
+        return db;
+      });
+    }
+    return this.db;
+  }
+
+  private async migrateLegacyStorage(db: IDBDatabase) {
+    const legacy = localStorage.getItem(LEGACY_BASELINES_KEY);
+    if (!legacy) return;
+
+    try {
+      const baselines: TemporalBaseline[] = JSON.parse(legacy);
+      const transaction = db.transaction('baselines', 'readwrite');
+      const store = transaction.objectStore('baselines');
+      baselines.forEach(baseline => store.put({ ...baseline, language: baseline.language || 'en' }));
+      await transactionDone(transaction);
+
+      localStorage.removeItem(LEGACY_BASELINES_KEY);
+      console.log(`Migrated ${baselines.length} baselines from localStorage`);
+    } catch (error) {
+      console.error('Failed to migrate legacy baselines:', error);
+    }
+  }
+
+  private async pruneDatabase(db: IDBDatabase): Promise<number> {
+    const cutoff = this.getRetentionCutoff();
+    const storeNames = Object.keys(TIME_FIELDS) as StoreName[];
+    const transaction = db.transaction(storeNames, 'readwrite');
+    let removed = 0;
+    this.lastPrunedAt = Date.now();
+
+    storeNames.forEach(storeName => {
+      const index = transaction.objectStore(storeName).index(TIME_FIELDS[storeName]);
+      const request = index.openCursor(IDBKeyRange.upperBound(cutoff, true));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.delete();
+        removed += 1;
+        cursor.continue();
+      };
+    });
+
+    await transactionDone(transaction);
+    if (removed > 0) {
+      console.log(`Pruned ${removed} records older than ${cutoff}`);
+    }
+    return removed;
+  }
+
+  private async pruneExpired(db: IDBDatabase) {
+    try {
+      await this.pruneDatabase(db);
+    } catch (error) {
+      console.error('Failed to prune expired records:', error);
+    }
+  }
+
+  // Retention
+  getRetentionDays(): number {
+    return Number(localStorage.getItem(RETENTION_KEY)) || DEFAULT_RETENTION_DAYS;
+  }
+
+  /**
+   * Oldest timestamp kept; records before it are pruned.
+   */
+  getRetentionCutoff(now: Date = new Date()): string {
+    return new Date(now.getTime() - this.getRetentionDays() * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  /**
+   * Change the retention period and prune immediately.
+   * Returns the number of records removed.
+   */
+  async setRetentionDays(days: number): Promise<number> {
+    localStorage.setItem(RETENTION_KEY, String(days));
+    return this.pruneDatabase(await this.getDatabase());
+  }
+
+  // Baselines
+  async saveBaseline(baseline: TemporalBaseline): Promise<void> {
+    await this.putAll('baselines', [baseline]);
+  }
+
+  async getBaselines(teamId: string, range: TimeRange = {}): Promise<TemporalBaseline[]> {
+    return this.queryByTeam<TemporalBaseline>('baselines', teamId, range);
+  }
+
+  // Analyses
+  async saveAnalyses(analyses: StoredAnalysis[]): Promise<void> {
+    await this.putAll('analyses', analyses);
+  }
+
+  async getAnalyses(teamId: string, range: TimeRange = {}): Promise<StoredAnalysis[]> {
+    return this.queryByTeam<StoredAnalysis>('analyses', teamId, range);
+  }
+
+  // Alerts
+  async saveAlerts(alerts: StoredAlert[]): Promise<void> {
+    await this.putAll('alerts', alerts);
+  }
+
+  async getAlerts(teamId?: string, range: TimeRange = {}): Promise<StoredAlert[]> {
+    if (teamId) {
+      return this.queryByTeam<StoredAlert>('alerts', teamId, range);
+    }
+
+    const db = await this.getDatabase();
+    const index = db.transaction('alerts', 'readonly').objectStore('alerts').index('timestamp');
+    return requestToPromise(
+      index.getAll(IDBKeyRange.bound(range.from || '', range.to || MAX_KEY)) as IDBRequest<StoredAlert[]>
+    );
+  }
+
+  // Tracked alerts
+  async saveTrackedAlerts(alerts: TrackedAlert[]): Promise<void> {
+    await this.putAll('tracked_alerts', alerts);
+  }
+
+  async getTrackedAlert(id: string): Promise<TrackedAlert | undefined> {
+    const db = await this.getDatabase();
+    return requestToPromise(
+      db.transaction('tracked_alerts', 'readonly').objectStore('tracked_alerts').get(id) as IDBRequest<TrackedAlert | undefined>
+    );
+  }
+
+  async getTrackedAlerts(teamId?: string, range: TimeRange = {}): Promise<TrackedAlert[]> {
+    if (teamId) {
+      return this.queryByTeam<TrackedAlert>('tracked_alerts', teamId, range);
+    }
+
+    const db = await this.getDatabase();
+    const index = db.transaction('tracked_alerts', 'readonly').objectStore('tracked_alerts').index('lastSeenAt');
+    return requestToPromise(
+      index.getAll(IDBKeyRange.bound(range.from || '', range.to || MAX_KEY)) as IDBRequest<TrackedAlert[]>
+    );
+  }
+
+  async getTrackedAlertsByKey(dedupKey: string): Promise<TrackedAlert[]> {
+    const db = await this.getDatabase();
+    const index = db.transaction('tracked_alerts', 'readonly').objectStore('tracked_alerts').index('dedupKey');
+    return requestToPromise(index.getAll(dedupKey) as IDBRequest<TrackedAlert[]>);
+  }
+
+  // Messages
+  async saveMessages(messages: CommunicationMessage[]): Promise<void> {
+    await this.putAll('messages', messages);
+  }
+
+  async getMessages(teamId: string, range: TimeRange = {}): Promise<CommunicationMessage[]> {
+    return this.queryByTeam<CommunicationMessage>('messages', teamId, range);
+  }
+
+  // Fragmentation index
+  async saveFragmentationIndex(index: FragmentationIndex): Promise<void> {
+    await this.putAll('fragmentation', [index]);
+  }
+
+  async getFragmentationHistory(teamId: string, range: TimeRange = {}): Promise<FragmentationIndex[]> {
+    return this.queryByTeam<FragmentationIndex>('fragmentation', teamId, range);
+  }
+
+  /**
+   * Teams with at least one stored analysis.
+   */
+  async getTeamIds(): Promise<string[]> {
+    const db = await this.getDatabase();
+    const index = db.transaction('analyses', 'readonly').objectStore('analyses').index(TEAM_TIME_INDEX);
+    const teamIds: string[] = [];
+
+    // Jump from each team's first key straight past its last one
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openKeyCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        const [teamId] = cursor.key as [string, string];
+        teamIds.push(teamId);
+        cursor.continue([teamId, MAX_KEY]);
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    return teamIds;
+  }
+
+  private async putAll<T>(storeName: StoreName, records: T[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const db = await this.getDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    records.forEach(record => store.put(record));
+    await transactionDone(transaction);
+
+    if (Date.now() - this.lastPrunedAt > PRUNE_INTERVAL_MS) {
+      await this.pruneExpired(db);
+    }
+  }
+
+  /**
+   * Records for a team within a time range, oldest first.
+   */
+  private async queryByTeam<T>(storeName: StoreName, teamId: string, range: TimeRange): Promise<T[]> {
+    const db = await this.getDatabase();
+    const index = db.transaction(storeName, 'readonly').objectStore(storeName).index(TEAM_TIME_INDEX);
+    const keyRange = IDBKeyRange.bound([teamId, range.from || ''], [teamId, range.to || MAX_KEY]);
+    return requestToPromise(index.getAll(keyRange) as IDBRequest<T[]>);
+  }
+}
+
+export const signalStore = new SignalStore();
@@ -0,0 +1,148 @@
+import type { DriftAlert } from '@/lib/nlp-engine';
+
+/**
+ * Resonance repair prompts of the Narrative Stabilization Toolkit, by the
+ * drift alert type they address.
+ */
+
+export interface ResonanceRepairPrompt {
+  id: string;
+  type: 'reframing' | 'alignment' | 'ritual' | 'query';
+  title: string;
+  description: string;
+  prompt: string;
+  targetMetric: string;
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  estimatedImpact: 'low' | 'medium' | 'high';
+}
+
+export const REPAIR_PROMPTS: Partial<Record<DriftAlert['type'], ResonanceRepairPrompt[]>> = {
+  symbolic_decay: [
+    {
+      id: 'reframe_metaphors',
+      type: 'reframing',
+      title: 'Metaphor Regeneration Exercise',
+      description: 'Rebuild symbolic coherence through shared metaphorical language',
+      prompt: 'In your next team communication, describe our current project using a metaphor from nature (e.g., "We\'re cultivating ideas like a garden" rather than "We\'re executing tasks"). Notice how this shifts the feeling of the work.',
+      targetMetric: 'Symbolic Alignment',
+      difficulty: 'beginner',
+      estimatedImpact: 'medium'
+    },
+    {
+      id: 'story_bridge',
+      type: 'reframing',
+      title: 'Story Bridge Technique',
+      description: 'Connect current work to larger organizational narrative',
+      prompt: 'Start your next update by explicitly connecting what you\'re doing to the bigger story: "This [specific task] is part of how we [organizational mission/vision]." Use this bridge in 3 communications this week.',
+      targetMetric: 'Narrative Coherence',
+      difficulty: 'intermediate',
+      estimatedImpact: 'high'
+    },
+    {
+      id: 'symbol_audit',
+      type: 'ritual',
+      title: 'Symbolic Language Audit',
+      description: 'Identify and replace disconnected technical language',
+      prompt: 'Review your last 5 messages. Circle any jargon or technical terms. For each one, write an alternative that connects to human experience or shared values. Use these alternatives going forward.',
+      targetMetric: 'Symbolic Alignment',
+      difficulty: 'advanced',
+      estimatedImpact: 'high'
+    }
+  ],
+  pronoun_fragmentation: [
+    {
+      id: 'collective_reframe',
+      type: 'reframing',
+      title: 'Collective Voice Activation',
+      description: 'Shift from individual to collective perspective',
+      prompt: 'For the next week, consciously replace "I think/believe/feel" with "We might consider/explore/discover." Notice how this changes both your thinking and others\' responses.',
+      targetMetric: 'Pronoun Distribution',
+      difficulty: 'beginner',
+      estimatedImpact: 'medium'
+    },
+    {
+      id: 'shared_ownership',
+      type: 'alignment',
+      title: 'Shared Ownership Language',
+      description: 'Build collective responsibility through language',
+      prompt: 'When discussing challenges, use "How might we..." instead of "You should..." or "I need to..." This small shift builds shared ownership of both problems and solutions.',
+      targetMetric: 'Pronoun Distribution',
+      difficulty: 'beginner',
+      estimatedImpact: 'high'
+    },
+    {
+      id: 'perspective_ceremony',
+      type: 'ritual',
+      title: 'Perspective Integration Ceremony',
+      description: 'Formal practice to balance individual and collective voice',
+      prompt: 'In your next team meeting, spend 3 minutes where each person shares: "I bring..." (individual contribution) followed by "We become..." (collective possibility). Notice the energy shift.',
+      targetMetric: 'Pronoun Distribution',
+      difficulty: 'intermediate',
+      estimatedImpact: 'high'
+    }
+  ],
+  tone_collapse: [
+    {
+      id: 'emotional_grounding',
+      type: 'reframing',
+      title: 'Emotional Grounding Practice',
+      description: 'Restore emotional stability through authentic expression',
+      prompt: 'Before sending messages when stressed, pause and ask: "What am I really feeling?" Then include one authentic feeling word in your communication (e.g., "I\'m excited to explore this" vs "This looks good").',
+      targetMetric: 'Emotional Stability',
+      difficulty: 'beginner',
+      estimatedImpact: 'medium'
+    },
+    {
+      id: 'appreciation_injection',
+      type: 'alignment',
+      title: 'Appreciation Injection Protocol',
+      description: 'Counteract negative spiral with genuine recognition',
+      prompt: 'For every concern or problem you communicate, include one specific appreciation or positive observation. This isn\'t false positivity—it\'s emotional balance.',
+      targetMetric: 'Emotional Stability',
+      difficulty: 'beginner',
+      estimatedImpact: 'high'
+    },
+    {
+      id: 'energy_reset',
+      type: 'ritual',
+      title: 'Team Energy Reset Ritual',
+      description: 'Collective practice to restore emotional coherence',
+      prompt: 'Begin next meeting with 2 minutes of "energy check-in": each person shares their current energy level (1-10) and one word for what they need to be their best today. No fixing, just witnessing.',
+      targetMetric: 'Emotional Stability',
+      difficulty: 'intermediate',
+      estimatedImpact: 'high'
+    }
+  ],
+  mission_drift: [
+    {
+      id: 'purpose_anchor',
+      type: 'alignment',
+      title: 'Purpose Anchoring Practice',
+      description: 'Reconnect daily work to organizational purpose',
+      prompt: 'Start each day by writing one sentence connecting your planned work to the organization\'s larger purpose. Share this in your first communication of the day.',
+      targetMetric: 'Mission Resonance',
+      difficulty: 'beginner',
+      estimatedImpact: 'medium'
+    },
+    {
+      id: 'value_translation',
+      type: 'reframing',
+      title: 'Values Translation Exercise',
+      description: 'Express organizational values through specific actions',
+      prompt: 'Choose one core organizational value. For one week, explicitly mention how your work/decisions embody this value. Use the format: "In [specific action], we\'re living our value of [value] by [specific way]."',
+      targetMetric: 'Mission Resonance',
+      difficulty: 'intermediate',
+      estimatedImpact: 'high'
+    },
+    {
+      id: 'mission_storytelling',
+      type: 'ritual',
+      title: 'Mission Storytelling Circle',
+      description: 'Collective reconnection to organizational mission',
+      prompt: 'Host a 15-minute "mission story" session where each person shares a specific moment when they felt most connected to the organization\'s purpose. No analysis, just stories.',
+      targetMetric: 'Mission Resonance',
+      difficulty: 'advanced',
+      estimatedImpact: 'high'
+    }
+  ]
+};
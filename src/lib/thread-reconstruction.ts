@@ -0,0 +1,172 @@
+import type { CommunicationMessage } from '@/lib/data-integrations';
+import type { AnalysisResult } from '@/lib/nlp-engine';
+
+/**
+ * Conversation threads rebuilt from platform reply metadata: Slack
+ * thread_ts, Teams replyToId and email In-Reply-To/References all map onto
+ * CommunicationMessage.metadata.threadId and parentId.
+ */
+
+export interface ConversationThread {
+  id: string;
+  rootId: string;
+  platform: string;
+  channel: string;
+  teamId: string;
+  messageIds: string[];                    // chronological
+  parents: Record<string, string | null>;  // reply chain, message id -> parent id
+  participants: string[];
+  depth: number;                           // longest reply chain, root = 0
+  startedAt: string;
+  endedAt: string;
+  durationMinutes: number;
+}
+
+export interface ConversationMetrics {
+  messageCount: number;
+  discourseCoherence: number | null;
+  pronouns: { individual: number; collective: number; ratio: number };
+  sentiment: { positive: number; negative: number; neutral: number; polarity: number };
+}
+
+export interface ThreadAnalysis {
+  thread: ConversationThread;
+  metrics: ConversationMetrics;
+}
+
+export interface ChannelAnalysis {
+  platform: string;
+  channel: string;
+  threadCount: number;
+  metrics: ConversationMetrics;
+}
+
+/**
+ * Email threading headers. In-Reply-To names the direct parent; the first
+ * References entry is the thread root.
+ */
+export function parseEmailThreadHeaders(headers: Record<string, string | undefined>): {
+  messageId?: string;
+  parentId?: string;
+  threadId?: string;
+} {
+  const header = (name: string) => Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+  const ids = (value?: string) => value?.match(/<[^>]+>/g) ?? [];
+
+  const messageId = ids(header('message-id'))[0];
+  const parentId = ids(header('in-reply-to'))[0];
+  const references = ids(header('references'));
+
+  return {
+    messageId,
+    parentId,
+    threadId: references[0] ?? parentId
+  };
+}
+
+/**
+ * Group messages into threads. Messages carrying a threadId are grouped by
+ * it; otherwise parent links are followed to the root. A message with no
+ * thread metadata and no replies forms a thread of one.
+ */
+export function reconstructThreads(messages: CommunicationMessage[]): ConversationThread[] {
+  const byId = new Map(messages.map(message => [message.id, message]));
+
+  const rootOf = (message: CommunicationMessage): string => {
+    if (message.metadata.threadId) return message.metadata.threadId;
+
+    // Guard against cycles in malformed reply data
+    const seen = new Set<string>();
+    let current = message;
+    while (current.metadata.parentId && !seen.has(current.id)) {
+      seen.add(current.id);
+      const parent = byId.get(current.metadata.parentId);
+      if (!parent) return current.metadata.parentId;
+      if (parent.metadata.threadId) return parent.metadata.threadId;
+      current = parent;
+    }
+    return current.id;
+  };
+
+  const groups = new Map<string, CommunicationMessage[]>();
+  messages.forEach(message => {
+    const key = `${message.platform}:${rootOf(message)}`;
+    groups.set(key, [...(groups.get(key) || []), message]);
+  });
+
+  return Array.from(groups.entries()).map(([id, group]) => {
+    const ordered = [...group].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const root = ordered.find(message => !message.metadata.parentId) || ordered[0];
+    const ids = new Set(ordered.map(message => message.id));
+
+    // Slack replies name the root rather than their direct parent; treat
+    // a parent outside the group as the root
+    const parents = Object.fromEntries(ordered.map(message => {
+      const parentId = message.metadata.parentId;
+      if (message.id === root.id) return [message.id, null];
+      return [message.id, parentId && ids.has(parentId) ? parentId : root.id];
+    })) as Record<string, string | null>;
+
+    const depthOf = (messageId: string): number => {
+      let depth = 0;
+      let parent = parents[messageId];
+      while (parent && depth < ordered.length) {
+        depth += 1;
+        parent = parents[parent];
+      }
+      return depth;
+    };
+
+    const startedAt = ordered[0].timestamp;
+    const endedAt = ordered[ordered.length - 1].timestamp;
+
+    return {
+      id,
+      rootId: root.id,
+      platform: root.platform,
+      channel: root.channel,
+      teamId: root.teamId,
+      messageIds: ordered.map(message => message.id),
+      parents,
+      participants: Array.from(new Set(ordered.map(message => message.userId))),
+      depth: Math.max(...ordered.map(message => depthOf(message.id))),
+      startedAt,
+      endedAt,
+      durationMinutes: (new Date(endedAt).getTime() - new Date(startedAt).getTime()) / 60000
+    };
+  });
+}
+
+/**
+ * Aggregate coherence, pronoun and sentiment metrics over a set of analyses.
+ */
+export function summarizeConversation(analyses: AnalysisResult[]): ConversationMetrics {
+  const individual = analyses.reduce((sum, a) => sum + a.pronounDistribution.individual, 0);
+  const collective = analyses.reduce((sum, a) => sum + a.pronounDistribution.collective, 0);
+
+  const coherence = analyses
+    .map(a => a.discourseCoherence?.score)
+    .filter((score): score is number => score !== undefined);
+
+  const count = (label: string) => analyses.filter(a => a.sentiment.label === label).length;
+  const polarity = analyses.reduce((sum, a) => {
+    const sign = a.sentiment.label === 'POSITIVE' ? 1 : a.sentiment.label === 'NEGATIVE' ? -1 : 0;
+    return sum + sign * a.sentiment.score;
+  }, 0);
+
+  return {
+    messageCount: analyses.length,
+    discourseCoherence: coherence.length > 0 ? coherence.reduce((sum, s) => sum + s, 0) / coherence.length : null,
+    pronouns: {
+      individual,
+      collective,
+      ratio: collective > 0 ? individual / collective : individual
+    },
+    sentiment: {
+      positive: count('POSITIVE'),
+      negative: count('NEGATIVE'),
+      neutral: count('NEUTRAL'),
+      polarity: analyses.length > 0 ? polarity / analyses.length : 0
+    }
+  };
+}
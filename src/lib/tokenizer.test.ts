@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { segmentSentences, tokenize, words } from "./tokenizer";
+
+const sentences = (text: string) => segmentSentences(text).map(sentence => sentence.text);
+const kinds = (text: string) => tokenize(text).map(token => [token.text, token.kind]);
+
+describe("tokenize", () => {
+  it("splits contractions into base and expanded clitic", () => {
+    expect(words("We're sure it won't break, they'll see")).toEqual([
+      'we', 'are', 'sure', 'it', 'will', 'not', 'break', 'they', 'will', 'see'
+    ]);
+    expect(words("can’t")).toEqual(['can', 'not']);
+  });
+
+  it("strips punctuation from words", () => {
+    expect(words("Us. Our, (them)!")).toEqual(['us', 'our', 'them']);
+  });
+
+  it("keeps abbreviations and initialisms whole", () => {
+    expect(kinds("Ask Dr. Lee, e.g. about the U.S. plan")).toEqual([
+      ['Ask', 'word'],
+      ['Dr.', 'abbreviation'],
+      ['Lee', 'word'],
+      ['e.g.', 'abbreviation'],
+      ['about', 'word'],
+      ['the', 'word'],
+      ['U.S.', 'abbreviation'],
+      ['plan', 'word']
+    ]);
+  });
+
+  it("keeps decimals, times and percentages as single numbers", () => {
+    expect(kinds("Up 3.5% at 10:30 to 1,200 users")).toEqual([
+      ['Up', 'word'],
+      ['3.5%', 'number'],
+      ['at', 'word'],
+      ['10:30', 'number'],
+      ['to', 'word'],
+      ['1,200', 'number'],
+      ['users', 'word']
+    ]);
+  });
+
+  it("recognizes URLs without trailing punctuation", () => {
+    const tokens = tokenize("See https://example.com/a?b=1. Or www.example.org, thanks");
+    expect(tokens.filter(token => token.kind === 'url').map(token => token.text)).toEqual([
+      'https://example.com/a?b=1',
+      'www.example.org'
+    ]);
+  });
+
+  it("recognizes Slack markup, mentions and emails", () => {
+    expect(kinds("<@U123> see <https://x.io|docs> in <#C9|general> or mail a.b@example.com @sam")).toEqual([
+      ['<@U123>', 'mention'],
+      ['see', 'word'],
+      ['<https://x.io|docs>', 'url'],
+      ['in', 'word'],
+      ['<#C9|general>', 'mention'],
+      ['or', 'word'],
+      ['mail', 'word'],
+      ['a.b@example.com', 'email'],
+      ['@sam', 'mention']
+    ]);
+    expect(tokenize("<https://x.io|docs>")[0].normalized).toBe('https://x.io');
+  });
+
+  it("recognizes emoji shortcodes, pictographs and ZWJ sequences", () => {
+    expect(kinds("Shipped :tada: 🎉 👍🏽 👩‍💻")).toEqual([
+      ['Shipped', 'word'],
+      [':tada:', 'emoji'],
+      ['🎉', 'emoji'],
+      ['👍🏽', 'emoji'],
+      ['👩‍💻', 'emoji']
+    ]);
+    expect(words("Great work 🎉")).toEqual(['great', 'work']);
+  });
+
+  it("tokenizes non-Latin scripts", () => {
+    expect(words("Мы готовы, друзья")).toEqual(['мы', 'готовы', 'друзья']);
+    expect(words("Καλή δουλειά")).toEqual(['καλή', 'δουλειά']);
+    expect(words("نحن جاهزون")).toEqual(['نحن', 'جاهزون']);
+  });
+
+  it("keeps anonymization placeholders intact", () => {
+    expect(kinds("Ping [NAME] at [EMAIL]")).toEqual([
+      ['Ping', 'word'],
+      ['[NAME]', 'placeholder'],
+      ['at', 'word'],
+      ['[EMAIL]', 'placeholder']
+    ]);
+  });
+});
+
+describe("segmentSentences", () => {
+  it("splits on terminal punctuation", () => {
+    expect(sentences("We shipped it. Did it work? Yes!")).toEqual([
+      'We shipped it', 'Did it work', 'Yes'
+    ]);
+  });
+
+  it("does not split after title abbreviations or e.g.", () => {
+    expect(sentences("Dr. Lee agreed. Use a tool, e.g. Jira, for that.")).toEqual([
+      'Dr. Lee agreed', 'Use a tool, e.g. Jira, for that'
+    ]);
+  });
+
+  it("does not split inside decimals or URLs", () => {
+    expect(sentences("Latency fell 3.5 seconds. See https://example.com/x.html for details.")).toEqual([
+      'Latency fell 3.5 seconds', 'See https://example.com/x.html for details'
+    ]);
+  });
+
+  it("splits after an initialism that ends a sentence", () => {
+    expect(sentences("We moved to the U.S. Then we grew.")).toEqual([
+      'We moved to the U.S.', 'Then we grew'
+    ]);
+    expect(sentences("The U.S. team is ready.")).toEqual(['The U.S. team is ready']);
+  });
+
+  it("splits after etc. only before a capitalized word", () => {
+    expect(sentences("Bugs, docs, etc. We fixed them.")).toEqual(['Bugs, docs, etc.', 'We fixed them']);
+    expect(sentences("Bugs, docs, etc. were fixed.")).toEqual(['Bugs, docs, etc. were fixed']);
+  });
+
+  it("splits on paragraph breaks without punctuation", () => {
+    expect(sentences("First thought\n\nSecond thought")).toEqual(['First thought', 'Second thought']);
+  });
+
+  it("splits non-Latin sentences", () => {
+    expect(sentences("Мы готовы. Поехали!")).toEqual(['Мы готовы', 'Поехали']);
+    expect(sentences("準備できました。始めましょう！")).toEqual(['準備できました', '始めましょう']);
+  });
+});
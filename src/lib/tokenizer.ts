@@ -0,0 +1,199 @@
+/**
+ * Tokenizer and sentence segmenter shared by all linguistic metrics.
+ * Handles chat-specific markup (Slack mentions and links, emoji shortcodes),
+ * URLs, abbreviations and English contractions.
+ */
+
+export type TokenKind =
+  | 'word'
+  | 'abbreviation'
+  | 'number'
+  | 'url'
+  | 'email'
+  | 'mention'
+  | 'emoji'
+  | 'placeholder';
+
+export interface Token {
+  text: string;       // surface form as it appears in the source
+  normalized: string; // lowercased, contractions expanded
+  kind: TokenKind;
+  start: number;      // offset in the source text
+  end: number;
+}
+
+export interface Sentence {
+  text: string;
+  start: number;
+  end: number;
+  tokens: Token[];
+}
+
+const WORD_KINDS: TokenKind[] = ['word', 'abbreviation', 'number'];
+
+const ABBREVIATIONS = [
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'inc', 'ltd', 'co',
+  'corp', 'dept', 'approx', 'est', 'fig', 'vol', 'jan', 'feb', 'mar', 'apr',
+  'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec'
+];
+
+// Abbreviations that may legitimately close a sentence
+const TERMINAL_ABBREVIATIONS = ['etc.'];
+
+// Uppercase initialisms ("U.S.", "U.K.") close a sentence when the next word is capitalized
+const INITIALISM = /^(?:\p{Lu}\.){2,}$/u;
+
+const CLITICS: Record<string, string> = {
+  "n't": 'not',
+  "'re": 'are',
+  "'ve": 'have',
+  "'ll": 'will',
+  "'d": 'would',
+  "'m": 'am',
+  "'s": "'s"
+};
+
+const IRREGULAR_NEGATIONS: Record<string, string> = {
+  ca: 'can',
+  wo: 'will',
+  sha: 'shall'
+};
+
+const TOKEN_PATTERN = new RegExp(
+  [
+    // Slack link markup: <https://example.com|label>
+    String.raw`(?<slackLink><https?:\/\/[^>|\s]+(?:\|[^>]*)?>)`,
+    // Slack mentions: <@U123>, <#C123|general>, <!here>
+    String.raw`(?<slackMention><[@#!][^>\s]+>)`,
+    // Anonymization placeholders: [EMAIL], [PHONE], [NAME]
+    String.raw`(?<placeholder>\[(?:EMAIL|PHONE|NAME)\])`,
+    String.raw`(?<email>[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+)`,
+    String.raw`(?<url>(?:https?:\/\/|www\.)[^\s<>]+)`,
+    String.raw`(?<mention>(?<![\p{L}\p{N}])@[\p{L}\p{N}._-]+)`,
+    String.raw`(?<emoji>:[a-z0-9_+-]+:|\p{Extended_Pictographic}\p{Emoji_Modifier}?(?:\uFE0F|\u200D\p{Extended_Pictographic}\p{Emoji_Modifier}?)*)`,
+    String.raw`(?<abbreviation>(?<![\p{L}\p{N}])(?:(?:\p{L}\.){2,}|(?:${ABBREVIATIONS.join('|')})\.(?=\s+\S)))`,
+    String.raw`(?<number>\p{N}+(?:[.,:]\p{N}+)*(?:%|\p{L}+)?)`,
+    String.raw`(?<word>[\p{L}\p{N}]+(?:['’\-][\p{L}\p{N}]+)*)`
+  ].join('|'),
+  'giu'
+);
+
+const TRAILING_URL_PUNCTUATION = /[.,!?;:)\]'"]+$/;
+const SENTENCE_TERMINATOR = /[.!?…。！？]/;
+const PARAGRAPH_BREAK = /\n\s*\n/;
+
+/**
+ * Split text into tokens. Punctuation is dropped; contractions are split
+ * into base and clitic ("we're" -> "we" + "are").
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const groups = match.groups || {};
+    const start = match.index ?? 0;
+    let surface = match[0];
+
+    if (groups.slackLink) {
+      tokens.push({ text: surface, normalized: surface.slice(1, -1).split('|')[0], kind: 'url', start, end: start + surface.length });
+    } else if (groups.slackMention || groups.mention) {
+      tokens.push({ text: surface, normalized: surface.toLowerCase(), kind: 'mention', start, end: start + surface.length });
+    } else if (groups.placeholder) {
+      tokens.push({ text: surface, normalized: surface, kind: 'placeholder', start, end: start + surface.length });
+    } else if (groups.email) {
+      tokens.push({ text: surface, normalized: surface.toLowerCase(), kind: 'email', start, end: start + surface.length });
+    } else if (groups.url) {
+      surface = surface.replace(TRAILING_URL_PUNCTUATION, '');
+      tokens.push({ text: surface, normalized: surface, kind: 'url', start, end: start + surface.length });
+    } else if (groups.emoji) {
+      tokens.push({ text: surface, normalized: surface, kind: 'emoji', start, end: start + surface.length });
+    } else if (groups.abbreviation) {
+      tokens.push({ text: surface, normalized: surface.toLowerCase(), kind: 'abbreviation', start, end: start + surface.length });
+    } else if (groups.number) {
+      tokens.push({ text: surface, normalized: surface, kind: 'number', start, end: start + surface.length });
+    } else {
+      tokens.push(...splitContraction(surface, start));
+    }
+  }
+
+  return tokens;
+}
+
+function splitContraction(surface: string, start: number): Token[] {
+  const lower = surface.toLowerCase().replace(/’/g, "'");
+  const end = start + surface.length;
+
+  for (const [clitic, expansion] of Object.entries(CLITICS)) {
+    if (lower.length > clitic.length && lower.endsWith(clitic)) {
+      const split = surface.length - clitic.length;
+      const base = lower.slice(0, split);
+
+      return [
+        {
+          text: surface.slice(0, split),
+          normalized: clitic === "n't" ? (IRREGULAR_NEGATIONS[base] || base) : base,
+          kind: 'word',
+          start,
+          end: start + split
+        },
+        {
+          text: surface.slice(split),
+          normalized: expansion,
+          kind: 'word',
+          start: start + split,
+          end
+        }
+      ];
+    }
+  }
+
+  return [{ text: surface, normalized: lower, kind: 'word', start, end }];
+}
+
+/**
+ * Split text into sentences. Boundaries are terminal punctuation between
+ * tokens or paragraph breaks; abbreviations and URLs never end a sentence.
+ */
+export function segmentSentences(text: string): Sentence[] {
+  const tokens = tokenize(text);
+  const sentences: Sentence[] = [];
+  let current: Token[] = [];
+
+  const close = () => {
+    if (current.length === 0) return;
+    const start = current[0].start;
+    const end = current[current.length - 1].end;
+    sentences.push({ text: text.slice(start, end), start, end, tokens: current });
+    current = [];
+  };
+
+  tokens.forEach((token, index) => {
+    current.push(token);
+
+    const next = tokens[index + 1];
+    const gap = text.slice(token.end, next ? next.start : text.length);
+
+    if (token.kind === 'abbreviation') {
+      const terminal = TERMINAL_ABBREVIATIONS.includes(token.normalized) || INITIALISM.test(token.text);
+      if ((terminal && next && /^\p{Lu}/u.test(next.text)) || PARAGRAPH_BREAK.test(gap)) {
+        close();
+      }
+    } else if (SENTENCE_TERMINATOR.test(gap) || PARAGRAPH_BREAK.test(gap)) {
+      close();
+    }
+  });
+
+  close();
+  return sentences;
+}
+
+export function isWordToken(token: Token): boolean {
+  return WORD_KINDS.includes(token.kind);
+}
+
+/**
+ * Normalized word forms, excluding URLs, mentions, emoji and placeholders.
+ */
+export function words(text: string): string[] {
+  return tokenize(text).filter(isWordToken).map(t => t.normalized);
+}
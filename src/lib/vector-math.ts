@@ -0,0 +1,18 @@
+/**
+ * Vector helpers shared by the embedding-based metrics.
+ */
+
+/**
+ * Cosine similarity in [-1, 1]; 0 when either vector has no magnitude.
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
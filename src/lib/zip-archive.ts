@@ -0,0 +1,100 @@
+/**
+ * Minimal ZIP reader for offline imports. Reads the central directory and
+ * inflates entries with the browser's DecompressionStream, so archives are
+ * unpacked without a library or network access. Stored and deflated entries
+ * are supported; ZIP64 and encrypted archives are not.
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x1;
+
+// End-of-central-directory record plus the longest possible comment
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  read: () => Promise<Uint8Array>;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * List the files in a ZIP archive. Entries are read lazily so large exports
+ * are only inflated as they are parsed.
+ */
+export function readZip(buffer: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - MAX_EOCD_SEARCH); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a ZIP archive');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Directories carry no data
+    if (name.endsWith('/')) continue;
+
+    entries.push({
+      name,
+      size,
+      read: async () => {
+        if (flags & FLAG_ENCRYPTED) throw new Error(`${name} is encrypted`);
+        if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+          throw new Error(`Corrupt ZIP entry ${name}`);
+        }
+
+        // The local header's name and extra field lengths can differ from the central directory's
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        switch (method) {
+          case METHOD_STORED:
+            return data;
+          case METHOD_DEFLATE:
+            return inflateRaw(data);
+          default:
+            throw new Error(`${name} uses unsupported compression method ${method}`);
+        }
+      }
+    });
+  }
+
+  return entries;
+}
@@ -0,0 +1,16 @@
+import DashboardHeader from "@/components/dashboard-header";
+import AlertCenter from "@/components/alert-center";
+
+const Alerts = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <DashboardHeader />
+
+      <div className="p-4 md:p-6 lg:p-8 space-y-4 md:space-y-6 lg:space-y-8 max-w-7xl mx-auto">
+        <AlertCenter />
+      </div>
+    </div>
+  );
+};
+
+export default Alerts;
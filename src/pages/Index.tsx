@@ -8,6 +8,8 @@ import TemporalDriftTracker from "@/components/temporal-drift-tracker";
 import MissionResonanceIndex from "@/components/mission-resonance-index";
 import NarrativeStabilizationToolkit from "@/components/narrative-stabilization-toolkit";
 import IntegrationManager from "@/components/integration-manager";
+import DigestReports from "@/components/digest-reports";
+import PrintReport from "@/components/print-report";
 import { BlankSlateInterface } from "@/components/blank-slate-interface";
 
 const Index = () => {
@@ -16,6 +18,8 @@ const Index = () => {
       <DashboardHeader />
       
       <div className="p-4 md:p-6 lg:p-8 space-y-4 md:space-y-6 lg:space-y-8 max-w-7xl mx-auto">
+        <PrintReport />
+
         {/* Top Row - System Overview and Quick Metrics */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
           <div className="lg:col-span-1">
@@ -50,11 +54,12 @@ const Index = () => {
         {/* Bottom Row - Warning System */}
         <div className="grid grid-cols-1 gap-4 md:gap-6">
           <WarningSystem />
+          <DigestReports />
         </div>
       </div>
 
       {/* Subtle Animation Overlay */}
-      <div className="fixed inset-0 pointer-events-none">
+      <div className="fixed inset-0 pointer-events-none print:hidden">
         <div className="absolute inset-0 bg-gradient-scan animate-neural-scan opacity-5" />
       </div>
     </div>
@@ -0,0 +1,36 @@
+import DashboardHeader from "@/components/dashboard-header";
+import LexiconManager from "@/components/lexicon-manager";
+import AnalysisSettings from "@/components/analysis-settings";
+import DriftRulesManager from "@/components/drift-rules-manager";
+import CoherenceThresholds from "@/components/coherence-thresholds";
+import NotificationChannels from "@/components/notification-channels";
+import BulkImporter from "@/components/bulk-importer";
+
+const Settings = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <DashboardHeader />
+
+      <div className="p-4 md:p-6 lg:p-8 space-y-4 md:space-y-6 lg:space-y-8 max-w-7xl mx-auto">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
+          <div className="lg:col-span-2">
+            <LexiconManager />
+          </div>
+          <div className="lg:col-span-1">
+            <AnalysisSettings />
+          </div>
+        </div>
+
+        <DriftRulesManager />
+
+        <CoherenceThresholds />
+
+        <NotificationChannels />
+
+        <BulkImporter />
+      </div>
+    </div>
+  );
+};
+
+export default Settings;